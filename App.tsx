@@ -1,30 +1,75 @@
 import React, { useState, useEffect, useRef } from 'react';
 import WebGPURenderer, { WebGPURendererRef } from './components/FireRenderer';
-import { ErrorDisplay, DocumentationOverlay, MenuBar, MenuGroup, VideoExportOverlay, RecordingIndicator, ShaderEditor, ResearchOverlay } from './components/UIComponents';
-import { ShaderError } from './types';
-import { BOILERPLATE_SHADER_WGSL } from './constants';
+import { ErrorDisplay, DocumentationOverlay, MenuBar, MenuGroup, VideoExportOverlay, RecordingIndicator, CaptureIndicator, ShaderEditor, ResearchOverlay } from './components/UIComponents';
+import { ScenePanel } from './components/ScenePanel';
+import { PresetsPanel } from './components/PresetsPanel';
+import { DenoiserSettings, IntegratorSettings, SceneDescription, SessionPreset, ShaderDiagnostic, ShaderError, ShaderFile, SourceRange } from './types';
+import { DEFAULT_SCENE, compileScene, injectSceneFiles, parseScene, serializeScene } from './utils/sceneCompiler';
+import { downloadBlob } from './utils/frameSinks';
+import { DEFAULT_PRESET, loadPresets, loadSession, parsePreset, savePresets, saveSession, serializePreset } from './utils/sessionStore';
 
 const App: React.FC = () => {
+  // The autosaved session from the last visit (or the defaults) and the saved presets, read
+  // once on mount. Anything dropped as unreadable is listed in the presets panel.
+  const [stored] = useState(() => {
+      const issues: string[] = [];
+      const onIssue = (message: string) => { issues.push(message); };
+      return { session: loadSession(onIssue) ?? DEFAULT_PRESET, presets: loadPresets(onIssue), issues };
+  });
+  const restoredSession = stored.session;
   const [error, setError] = useState<ShaderError | null>(null);
+  const [diagnostics, setDiagnostics] = useState<ShaderDiagnostic[]>([]);
+  const [revealRange, setRevealRange] = useState<SourceRange | null>(null);
   const [showDocs, setShowDocs] = useState(false);
   const [showResearch, setShowResearch] = useState(false);
   const [showVideoModal, setShowVideoModal] = useState(false);
   const [showEditor, setShowEditor] = useState(false);
-  const [shaderCode, setShaderCode] = useState(BOILERPLATE_SHADER_WGSL);
-  const [recordingStatus, setRecordingStatus] = useState({ isRecording: false, timeLeft: 0 });
+  const [showScene, setShowScene] = useState(false);
+  const [showPresets, setShowPresets] = useState(stored.issues.length > 0);
+  const [shaderFiles, setShaderFiles] = useState<ShaderFile[]>(restoredSession.shaderFiles);
+  const [recordingStatus, setRecordingStatus] = useState<{ isRecording: boolean; timeLeft: number; backend?: string }>({ isRecording: false, timeLeft: 0 });
+  const [captureStatus, setCaptureStatus] = useState<{ progress: number | null; label?: string }>({ progress: null });
   const [fps, setFps] = useState(0);
+  const [integrator, setIntegratorState] = useState<IntegratorSettings>(restoredSession.integrator);
+  const [denoiser, setDenoiserState] = useState<DenoiserSettings>(restoredSession.denoiser);
   const rendererRef = useRef<WebGPURendererRef>(null);
   const fileInputRef = useRef<HTMLInputElement>(null);
+  const textureChannelRef = useRef(0); // iChannel the file picker loads into
+  const sceneInputRef = useRef<HTMLInputElement>(null);
+  const presetInputRef = useRef<HTMLInputElement>(null);
 
-  // Debounce Shader Updates
+  // --- SCENE ---
+  // The scene description owns map() and the material table. Edits recompile into the
+  // shader's @scene region (debounced like the editor); materials upload immediately.
+  const [scene, setScene] = useState<SceneDescription>(restoredSession.scene);
+  const [sceneError, setSceneError] = useState<string | null>(null);
+
+  // Debounce Shader Updates (edits to several tabs within the window land together)
   const timeoutRef = useRef<ReturnType<typeof setTimeout> | null>(null);
-  const handleCodeChange = (newCode: string) => {
+  const pendingEditsRef = useRef<Map<string, string>>(new Map());
+  const handleCodeChange = (name: string, newCode: string) => {
+      pendingEditsRef.current.set(name, newCode);
       if (timeoutRef.current) clearTimeout(timeoutRef.current);
       timeoutRef.current = setTimeout(() => {
-          setShaderCode(newCode);
+          const edits = pendingEditsRef.current;
+          pendingEditsRef.current = new Map();
+          setShaderFiles(files => files.map(f => (edits.has(f.name) ? { ...f, code: edits.get(f.name)! } : f)));
       }, 500); // 500ms debounce
   };
 
+  useEffect(() => {
+      const timer = setTimeout(() => {
+          try {
+              const map = compileScene(scene);
+              setShaderFiles(files => injectSceneFiles(files, map));
+              setSceneError(null);
+          } catch (err: any) {
+              setSceneError(err?.message ?? String(err));
+          }
+      }, 300);
+      return () => clearTimeout(timer);
+  }, [scene]);
+
   useEffect(() => {
     let lastTime = performance.now();
     let frame = 0;
@@ -44,7 +89,130 @@ const App: React.FC = () => {
   const handleFileSelect = (e: React.ChangeEvent<HTMLInputElement>) => {
       const file = e.target.files?.[0];
       if (file) {
-          rendererRef.current?.loadTexture(file);
+          rendererRef.current?.loadTexture(file, textureChannelRef.current);
+      }
+      e.target.value = '';
+  };
+
+  const pickTexture = (channel: number) => {
+      textureChannelRef.current = channel;
+      fileInputRef.current?.click();
+  };
+
+  const handleSceneFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+      const file = e.target.files?.[0];
+      e.target.value = '';
+      if (!file) return;
+      try {
+          setScene(parseScene(await file.text()));
+          setShowScene(true);
+      } catch (err: any) {
+          setSceneError(err?.message ?? String(err));
+          setShowScene(true);
+      }
+  };
+
+  const saveScene = () => {
+      const filename = `${(scene.name || 'scene').replace(/[^a-z0-9-_]+/gi, '_').toLowerCase()}.json`;
+      downloadBlob(new Blob([serializeScene(scene)], { type: 'application/json' }), filename);
+  };
+
+  const setIntegrator = async (settings: Partial<IntegratorSettings>) => {
+      const applied = await rendererRef.current?.setIntegrator(settings);
+      if (applied) setIntegratorState(applied);
+  };
+
+  const setDenoiser = (settings: Partial<DenoiserSettings>) => {
+      const applied = rendererRef.current?.setDenoiser(settings);
+      if (applied) setDenoiserState(applied);
+  };
+
+  // --- SESSION ---
+  // The renderer holds params, lights and the camera; App the shader files and scene.
+  // Any change schedules an autosave, so a reload picks up where the user left off.
+  const [presets, setPresets] = useState<SessionPreset[]>(stored.presets);
+  const [presetError, setPresetError] = useState<string | null>(stored.issues.length > 0 ? stored.issues.join('\n') : null);
+  const sessionStateRef = useRef({ shaderFiles, scene });
+  const autosaveRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+
+  const capturePreset = (name: string): SessionPreset | null => {
+      const session = rendererRef.current?.getSession();
+      if (!session) return null;
+      return { version: 1, name, savedAt: new Date().toISOString(), ...sessionStateRef.current, ...session };
+  };
+
+  const autosave = () => {
+      if (autosaveRef.current) clearTimeout(autosaveRef.current);
+      autosaveRef.current = null;
+      const session = capturePreset('Autosave');
+      try {
+          if (session) saveSession(session);
+      } catch (err: any) {
+          // Shown in the presets panel until the next preset action clears it
+          setPresetError(`Autosave failed: ${err?.message ?? String(err)}`);
+      }
+  };
+
+  const scheduleAutosave = () => {
+      if (autosaveRef.current) clearTimeout(autosaveRef.current);
+      autosaveRef.current = setTimeout(autosave, 1000);
+  };
+
+  useEffect(() => {
+      sessionStateRef.current = { shaderFiles, scene };
+      scheduleAutosave();
+  }, [shaderFiles, scene, integrator, denoiser]);
+
+  // A reload within the autosave delay still keeps the last edit
+  useEffect(() => {
+      const flush = () => { if (autosaveRef.current) autosave(); };
+      window.addEventListener('pagehide', flush);
+      return () => window.removeEventListener('pagehide', flush);
+  }, []);
+
+  const applyPreset = (preset: SessionPreset) => {
+      // Edits still waiting on the editor debounce belong to the session being replaced
+      if (timeoutRef.current) clearTimeout(timeoutRef.current);
+      pendingEditsRef.current = new Map();
+      setShaderFiles(preset.shaderFiles);
+      setScene(preset.scene);
+      rendererRef.current?.applySession(preset);
+      setIntegrator(preset.integrator);
+      setDenoiser(preset.denoiser);
+      setPresetError(null);
+  };
+
+  const updatePresets = (next: SessionPreset[]) => {
+      try {
+          setPresets(savePresets(next));
+          setPresetError(null);
+      } catch (err: any) {
+          setPresetError(`Could not save presets: ${err?.message ?? String(err)}`);
+      }
+  };
+
+  const savePreset = (name: string) => {
+      const preset = capturePreset(name);
+      if (preset) updatePresets([...presets.filter(p => p.name !== name), preset]);
+  };
+
+  const exportPreset = (preset: SessionPreset) => {
+      const filename = `${preset.name.replace(/[^a-z0-9-_]+/gi, '_').toLowerCase()}.preset.json`;
+      downloadBlob(new Blob([serializePreset(preset)], { type: 'application/json' }), filename);
+  };
+
+  // Imported presets join the list (replacing one with the same name) and load right away
+  const handlePresetFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+      const file = e.target.files?.[0];
+      e.target.value = '';
+      if (!file) return;
+      setShowPresets(true);
+      try {
+          const preset = parsePreset(await file.text());
+          updatePresets([...presets.filter(p => p.name !== preset.name), preset]);
+          applyPreset(preset);
+      } catch (err: any) {
+          setPresetError(err?.message ?? String(err));
       }
   };
 
@@ -53,15 +221,25 @@ const App: React.FC = () => {
     {
         label: 'File',
         items: [
-            { label: 'Reset Scene', action: () => window.location.reload(), shortcut: 'CMD+R' },
-            { label: 'Load Texture...', action: () => fileInputRef.current?.click(), shortcut: 'CMD+O' },
+            { label: 'Restore Defaults', action: () => applyPreset(DEFAULT_PRESET) },
+            { label: 'Presets...', action: () => { setShowPresets(true); setShowEditor(false); setShowScene(false); } },
+            { label: 'Import Preset...', action: () => presetInputRef.current?.click() },
+            { label: 'Export Current Preset', action: () => { const preset = capturePreset(scene.name || 'Session'); if (preset) exportPreset(preset); } },
+            { label: 'Load iChannel0 (Albedo)...', action: () => pickTexture(0), shortcut: 'CMD+O' },
+            { label: 'Load iChannel1 (Roughness)...', action: () => pickTexture(1) },
+            { label: 'Load iChannel2...', action: () => pickTexture(2) },
+            { label: 'Load iChannel3...', action: () => pickTexture(3) },
+            { label: 'Clear Textures', action: () => rendererRef.current?.clearTextures() },
+            { label: 'Load Scene...', action: () => sceneInputRef.current?.click() },
+            { label: 'Save Scene', action: saveScene },
             { label: 'GitHub Repo', action: () => window.open('https://github.com/google/genai-sdk-js', '_blank') }
         ]
     },
     {
         label: 'View',
         items: [
-            { label: 'Toggle Code Editor', action: () => setShowEditor(!showEditor), shortcut: 'E' },
+            { label: 'Toggle Code Editor', action: () => { setShowEditor(!showEditor); setShowScene(false); setShowPresets(false); }, shortcut: 'E' },
+            { label: 'Toggle Scene Builder', action: () => { setShowScene(!showScene); setShowEditor(false); setShowPresets(false); } },
             { label: 'Documentation', action: () => setShowDocs(true), shortcut: 'F1' },
             { label: 'Toggle Fullscreen', action: () => {
                 if (!document.fullscreenElement) document.documentElement.requestFullscreen();
@@ -78,6 +256,7 @@ const App: React.FC = () => {
             { label: 'Direct Light', action: () => rendererRef.current?.setDebugMode(3), shortcut: '3' },
             { label: 'Indirect (ReSTIR)', action: () => rendererRef.current?.setDebugMode(4), shortcut: '4' },
             { label: 'Sample Heatmap', action: () => rendererRef.current?.setDebugMode(5), shortcut: '5' },
+            { label: 'Linear HDR', action: () => rendererRef.current?.setDebugMode(6), shortcut: '6' },
         ]
     },
     {
@@ -85,7 +264,23 @@ const App: React.FC = () => {
         items: [
             { label: 'Capture 4K (Standard)', action: () => rendererRef.current?.capture(1), shortcut: 'P' },
             { label: 'Capture 4K (Ultra + RT)', action: () => rendererRef.current?.capture(2), shortcut: 'SHIFT+P' },
-            { label: 'Record Video...', action: () => setShowVideoModal(true), shortcut: 'V' }
+            { label: 'Capture HDR (EXR + AOVs)', action: () => rendererRef.current?.captureHDR({ format: 'exr', aovs: true }) },
+            { label: 'Capture 16-bit PNG + AOVs', action: () => rendererRef.current?.captureHDR({ format: 'png16', aovs: true }) },
+            { label: 'Record Video...', action: () => setShowVideoModal(true), shortcut: 'V' },
+            { label: 'Integrator: Render Pipeline', action: () => setIntegrator({ mode: 'render' }) },
+            { label: 'Integrator: Compute Pipeline', action: () => setIntegrator({ mode: 'compute' }) },
+            { label: 'Compute Workgroup 8x8', action: () => setIntegrator({ workgroupSize: [8, 8] }) },
+            { label: 'Compute Workgroup 16x8', action: () => setIntegrator({ workgroupSize: [16, 8] }) },
+            { label: 'Compute Workgroup 16x16', action: () => setIntegrator({ workgroupSize: [16, 16] }) }
+        ]
+    },
+    {
+        label: 'Denoise',
+        items: [
+            { label: 'Off', action: () => setDenoiser({ mode: 'off' }) },
+            { label: 'Bilateral (5x5)', action: () => setDenoiser({ mode: 'bilateral' }) },
+            { label: 'SVGF (A-Trous Wavelet)', action: () => setDenoiser({ mode: 'svgf' }) },
+            ...[1, 2, 3, 4, 5].map(n => ({ label: `SVGF Iterations: ${n}`, action: () => setDenoiser({ mode: 'svgf', iterations: n }) })),
         ]
     },
     {
@@ -114,19 +309,26 @@ const App: React.FC = () => {
   return (
     <div className="w-screen h-screen relative bg-void overflow-hidden font-sans text-white select-none pt-10 antialiased">
       <input type="file" ref={fileInputRef} className="hidden" accept="image/*" onChange={handleFileSelect} />
+      <input type="file" ref={sceneInputRef} className="hidden" accept="application/json,.json" onChange={handleSceneFile} />
+      <input type="file" ref={presetInputRef} className="hidden" accept="application/json,.json" onChange={handlePresetFile} />
       
       {/* Top Menu Bar */}
-      <MenuBar menus={menus} />
+      <MenuBar menus={menus} denoiser={denoiser} />
 
       {/* 3D Canvas Layer */}
       <div className={`absolute inset-0 z-0 top-10 transition-all duration-500 ease-[cubic-bezier(0.16,1,0.3,1)] ${showEditor ? 'left-[600px]' : 'left-0'}`}>
         <WebGPURenderer 
           ref={rendererRef}
-          shaderCode={shaderCode}
+          shaderFiles={shaderFiles}
+          initialSession={restoredSession}
+          onSessionChange={scheduleAutosave}
+          materials={scene.materials}
           description={sceneDescription}
           onError={(e) => setError(e)}
           onClearError={() => setError(null)}
-          onRecordProgress={(isRecording, timeLeft) => setRecordingStatus({ isRecording, timeLeft })}
+          onDiagnostics={setDiagnostics}
+          onRecordProgress={(isRecording, timeLeft, backend) => setRecordingStatus({ isRecording, timeLeft, backend })}
+          onCaptureProgress={(progress, label) => setCaptureStatus({ progress, label })}
         />
       </div>
 
@@ -138,7 +340,7 @@ const App: React.FC = () => {
                     <span className="animate-pulse">●</span> SYSTEM_READY
                  </div>
                  <div className="font-mono text-[10px] text-white/40 tracking-widest">
-                    {fps} FPS // {window.innerWidth}x{window.innerHeight}
+                    {fps} FPS // {window.innerWidth}x{window.innerHeight} // {integrator.mode === 'compute' ? `COMPUTE ${integrator.workgroupSize.join('x')}` : 'RENDER'}
                  </div>
             </div>
             <div className="text-right pointer-events-auto">
@@ -151,26 +353,65 @@ const App: React.FC = () => {
       
       {/* Modals & Overlays */}
       <div className="pointer-events-auto">
-           <ErrorDisplay error={error} onClose={() => setError(null)} />
+           <ErrorDisplay
+                error={error}
+                diagnostics={diagnostics}
+                onNavigate={(d) => {
+                    // A fresh object so the editor re-reveals the same range
+                    setRevealRange({ ...d.range! });
+                    setShowEditor(true);
+                    setShowScene(false);
+                    setShowPresets(false);
+                    setError(null);
+                }}
+                onClose={() => setError(null)}
+           />
            <DocumentationOverlay isOpen={showDocs} onClose={() => setShowDocs(false)} />
            <ResearchOverlay isOpen={showResearch} onClose={() => setShowResearch(false)} />
            <ShaderEditor 
                 isOpen={showEditor} 
                 onClose={() => setShowEditor(false)} 
-                code={shaderCode} 
+                files={shaderFiles}
                 onCodeChange={handleCodeChange} 
                 error={error}
+                diagnostics={diagnostics}
+                reveal={revealRange}
+           />
+           <ScenePanel
+                isOpen={showScene}
+                onClose={() => setShowScene(false)}
+                scene={scene}
+                setScene={setScene}
+                error={sceneError}
+                onLoad={() => sceneInputRef.current?.click()}
+                onSave={saveScene}
+                onReset={() => setScene(DEFAULT_SCENE)}
+           />
+           <PresetsPanel
+                isOpen={showPresets}
+                onClose={() => setShowPresets(false)}
+                presets={presets}
+                error={presetError}
+                onSave={savePreset}
+                onLoad={applyPreset}
+                onDelete={(preset) => updatePresets(presets.filter(p => p !== preset))}
+                onExport={exportPreset}
+                onImport={() => presetInputRef.current?.click()}
+                onRestoreDefaults={() => applyPreset(DEFAULT_PRESET)}
            />
            <VideoExportOverlay 
                 isOpen={showVideoModal} 
                 onClose={() => setShowVideoModal(false)}
                 onStartRecord={(config) => rendererRef.current?.startVideo(config)}
+                getAutoTimeline={(duration) => rendererRef.current?.getAutoTimeline(duration)}
            />
            <RecordingIndicator 
                 isRecording={recordingStatus.isRecording} 
                 timeLeft={recordingStatus.timeLeft} 
+                backend={recordingStatus.backend}
                 onStop={() => rendererRef.current?.stopVideo()}
            />
+           <CaptureIndicator progress={captureStatus.progress} label={captureStatus.label} />
       </div>
     </div>
   );
@@ -1,11 +1,32 @@
 import React, { useRef, useEffect, useState, forwardRef, useImperativeHandle } from 'react';
-import { ShaderError, ShaderParam, VideoConfig } from '../types';
-import { calculateUniformLayout, writeParamsToBuffer, ParamsControlPanel } from './ShaderParams';
+import { CapturePreset, DenoiserSettings, GraphBinding, GraphPass, GraphResource, GraphTexture, HdrCaptureOptions, IntegratorSettings, ParamOverrides, ParamTimeline, RenderGraph, RenderQuality, RendererSession, SceneLight, SceneMaterial, ShaderDiagnostic, ShaderError, ShaderFile, ShaderParam, SourceLocation, UniformLayout, VideoConfig } from '../types';
+import { CAPTURE_PRESETS, LIVE_QUALITY } from '../constants';
+import { calculateUniformLayout, generateUniformStruct, writeParamsToBuffer, writeUniform, ParamsControlPanel } from './ShaderParams';
+import { withParamValue } from '../utils/uniformLayout';
+import { cameraViewMatrix, evaluateCameraShot, poseToEye, CameraPose, OrbitCamera } from '../utils/cameraPaths';
+import { applyTimeline, applyTimelineToLights, applyTimelineToMaterials, createAutoOrchestration, hasSceneTracks } from '../utils/paramTimeline';
+import { applyParamValues, mergeParamValues, parseShaderParams } from '../utils/paramAnnotations';
+import { SCREEN_TARGET, parseRenderGraph, resourceSize } from '../utils/renderGraph';
+import { FrameSink, FrameSinkInfo, downloadBlob } from '../utils/frameSinks';
+import { resolveEncoderBackend } from '../utils/encoders';
+import { createOverrideStack, videoExportOverrides } from '../utils/renderOverrides';
+import { floatImageToPng, readTextureHalf, readTextureRGBA16F } from '../utils/textureReadback';
+import { ExrLayer, encodeExr, encodePng16, mapHalfImage } from '../utils/hdrImage';
+import { createZip } from '../utils/zip';
+import { packLights } from '../utils/sceneLights';
+import { packMaterials } from '../utils/sceneMaterials';
+import { LightsEditor } from './LightsPanel';
+import { DiagnosticsCollector, createDiagnosticsCollector, entryPointRange, offsetToRange, openFrameScope } from '../utils/gpuDiagnostics';
+import { locateRange, preprocessShader } from '../utils/shaderPreprocessor';
+import { DEFAULT_PRESET } from '../utils/sessionStore';
 
 // --- WebGPU Type Stubs ---
 type GPUDevice = any;
 type GPUCanvasContext = any;
 type GPURenderPipeline = any;
+type GPUComputePipeline = any;
+type GPUShaderModule = any;
+type GPUBindGroupLayout = any;
 type GPUBuffer = any;
 type GPUBindGroup = any;
 type GPUTexture = any;
@@ -23,43 +44,145 @@ const getErrorMessage = (err: any): string => {
   return String(err);
 };
 
+// Low-discrepancy sequence for sub-pixel jitter
+const halton = (index: number, base: number): number => {
+  let f = 1, r = 0;
+  for (let i = index; i > 0; i = Math.floor(i / base)) { f /= base; r += f * (i % base); }
+  return r;
+};
+
+const DEBUG_MODE_LINEAR_HDR = 6;
+
+// User texture channels (iChannel0..3)
+const CHANNEL_COUNT = 4;
+
+// Every render pass of the graph draws the same fullscreen triangle
+const VERTEX_ENTRY_POINT = 'vs_main';
+
+// Iterating passes get one pipeline per ITERATION value
+const MAX_DENOISER_ITERATIONS = 5;
+const DENOISER_MODES = ['off', 'bilateral', 'svgf']; // Index = u.denoise.x
+
+// Extra layers for HDR captures, rendered through the matching debug modes
+const HDR_AOVS: { name: string; mode: number; channels: string[]; decode?: (v: number) => number }[] = [
+  { name: 'albedo', mode: 1, channels: ['R', 'G', 'B'] },
+  { name: 'N', mode: 2, channels: ['X', 'Y', 'Z'], decode: v => v * 2 - 1 }, // Debug view packs normals into 0-1
+  { name: 'direct', mode: 3, channels: ['R', 'G', 'B'] },
+  { name: 'indirect', mode: 4, channels: ['R', 'G', 'B'] }, // Denoised when a denoiser is on, like the beauty
+];
+
+// A graph pass ready to record
+interface CompiledPass {
+  pass: GraphPass;
+  bindGroupLayout: GPUBindGroupLayout;
+  pipeline: GPURenderPipeline | GPUComputePipeline | null; // null: compute pass that failed to build
+  iterationPipelines?: GPURenderPipeline[]; // Iterating passes: one per ITERATION value
+  accumPipeline?: GPURenderPipeline; // Screen pass variant: blends into a still accumulation target
+}
+
+// A graph resource allocated at the current render size
+interface GraphResourceInstance {
+  resource: GraphResource;
+  current: GPUTexture | GPUBuffer;
+  previous?: GPUTexture | GPUBuffer; // Pingpong resources only: last frame's contents
+}
+
+// Bind group layout entries straight from the bindings a pass declares
+const createPassBindGroupLayout = (device: GPUDevice, pass: GraphPass): GPUBindGroupLayout => {
+  const stage = pass.type === 'compute' ? GPUShaderStage.COMPUTE : GPUShaderStage.FRAGMENT;
+  return device.createBindGroupLayout({
+    label: `${pass.name} Layout`,
+    entries: pass.bindings.map(b => {
+      const entry = { binding: b.binding, visibility: b.type === 'uniform' && pass.type === 'render' ? stage | GPUShaderStage.VERTEX : stage };
+      switch (b.type) {
+        case 'uniform': return { ...entry, buffer: { type: 'uniform' } };
+        case 'read-only-storage':
+        case 'storage': return { ...entry, buffer: { type: b.type } };
+        case 'sampler': return { ...entry, sampler: {} };
+        case 'storage-texture': return { ...entry, storageTexture: { access: b.access, format: b.format } };
+        default: return { ...entry, texture: { sampleType: b.sampleType } };
+      }
+    }),
+  });
+};
+
+// The compute integrator needs integrator=compute passes, and every compute pass built
+const isComputeReady = (passes: CompiledPass[]) =>
+  passes.some(c => c.pass.integrator === 'compute') && passes.every(c => c.pass.type !== 'compute' || c.pipeline);
+
+interface FrameState {
+  width: number;
+  height: number;
+  time: number;
+  pose: CameraPose;
+  params: ShaderParam[];
+  quality: RenderQuality;
+  jitter?: [number, number]; // Pixels
+  accumulate?: { texture: GPUTexture; weight: number }; // Blend display output into texture instead of the canvas
+}
+
 export interface WebGPURendererRef {
-  capture: (quality?: number) => void;
-  startVideo: (config: VideoConfig) => void;
+  capture: (quality?: number, overrides?: ParamOverrides) => void;
+  captureHDR: (options: HdrCaptureOptions) => void;
+  startVideo: (config: VideoConfig, sink?: FrameSink) => void;
   stopVideo: () => void;
-  loadTexture: (file: File) => void;
+  loadTexture: (file: File, channel?: number) => void;
+  clearTextures: () => void;
   toggleAudio: () => Promise<void>;
   setDebugMode: (mode: number) => void;
+  pushRenderOverrides: (overrides: ParamOverrides) => () => void;
+  setIntegrator: (settings: Partial<IntegratorSettings>) => Promise<IntegratorSettings>; // Resolves to what was applied
+  setDenoiser: (settings: Partial<DenoiserSettings>) => DenoiserSettings; // Returns what was applied
+  getSession: () => RendererSession;
+  getAutoTimeline: (duration: number) => ParamTimeline; // What orchestration without a loaded timeline would play
+  // Params, lights and camera; integrator and denoiser go through setIntegrator / setDenoiser
+  applySession: (session: Pick<RendererSession, 'params' | 'lights' | 'camera'>) => void;
 }
 
 interface WebGPURendererProps {
-  shaderCode: string;
+  shaderFiles: ShaderFile[]; // main.wgsl first; preprocessed into one module
+  initialSession?: RendererSession; // Restored on mount (read once)
+  onSessionChange?: () => void; // Params, lights or camera changed: time to autosave
+  materials: SceneMaterial[]; // The scene's material table, uploaded to the `materials` scene buffer
   description?: string;
   onError: (error: ShaderError) => void;
   onClearError: () => void;
-  onRecordProgress: (isRecording: boolean, timeLeft: number) => void;
+  onDiagnostics?: (diagnostics: ShaderDiagnostic[]) => void; // Every message of the last compile, empty when clean
+  onRecordProgress: (isRecording: boolean, timeLeft: number, backend?: string) => void;
+  onCaptureProgress?: (progress: number | null, label?: string) => void; // null = done
 }
 
-const WebGPURenderer = forwardRef<WebGPURendererRef, WebGPURendererProps>(({ shaderCode, description, onError, onClearError, onRecordProgress }, ref) => {
+const WebGPURenderer = forwardRef<WebGPURendererRef, WebGPURendererProps>(({ shaderFiles, initialSession = DEFAULT_PRESET, onSessionChange, materials, description, onError, onClearError, onDiagnostics, onRecordProgress, onCaptureProgress }, ref) => {
   const canvasRef = useRef<HTMLCanvasElement>(null);
   const [isSupported, setIsSupported] = useState<boolean>(true);
   
   const deviceRef = useRef<GPUDevice | null>(null);
   const contextRef = useRef<GPUCanvasContext | null>(null);
   
-  // Pipeline State
-  const integratorPipelineRef = useRef<GPURenderPipeline | null>(null); // Pass 1: ReSTIR Integrator
-  const displayPipelineRef = useRef<GPURenderPipeline | null>(null);    // Pass 2: Tonemap & Display
+  // Pipeline State: the shader's render graph, compiled pass by pass
+  const graphRef = useRef<RenderGraph | null>(null);
+  const compiledPassesRef = useRef<CompiledPass[]>([]); // In execution order
+  const shaderModuleRef = useRef<GPUShaderModule | null>(null);
+  const compiledFilesRef = useRef(''); // Serialized shader files of the live pipelines
+  const compiledCodeRef = useRef(''); // Their preprocessed source, for diagnostic ranges
+  const compiledLinesRef = useRef<SourceLocation[]>([]); // Its line map back to the files
+  const compileDiagnosticsRef = useRef<ShaderDiagnostic[]>([]); // Warnings of the live build
+  const frameErrorRef = useRef<string | null>(null); // Last reported frame error
+  const compileGenerationRef = useRef(0); // Bumped per compile; older compiles are discarded
+  const integratorSettingsRef = useRef<IntegratorSettings>(initialSession.integrator);
+  const denoiserSettingsRef = useRef<DenoiserSettings>(initialSession.denoiser);
   
   const uniformBufferRef = useRef<GPUBuffer | null>(null);
-  const userTextureRef = useRef<any>(null); 
+  const channelTexturesRef = useRef<(GPUTexture | null)[]>(Array(CHANNEL_COUNT).fill(null)); // iChannel0..3
   const defaultNoiseTextureRef = useRef<any>(null); 
   const samplerRef = useRef<any>(null); 
+  const sceneBuffersRef = useRef<Map<string, GPUBuffer>>(new Map()); // SCENE_BUFFERS by variable name
   
-  // History / ReSTIR State (Ping-Pong)
-  // We need two textures to read from Previous (A) and write to Current (B), then swap.
-  const historyTextureARef = useRef<GPUTexture | null>(null);
-  const historyTextureBRef = useRef<GPUTexture | null>(null);
+  // Graph resources (G-buffer, history, reservoirs...) keyed by name.
+  // Pingpong resources swap current/previous after every frame.
+  const graphResourcesRef = useRef<Map<string, GraphResourceInstance>>(new Map());
+  const allocatedGraphRef = useRef<string>(''); // Resource declarations the map was allocated for
+  const prevViewRef = useRef<number[] | null>(null); // Camera of the last drawn frame
   const frameIndexRef = useRef<number>(0);
 
   const requestRef = useRef<number | null>(null);
@@ -71,38 +194,50 @@ const WebGPURenderer = forwardRef<WebGPURendererRef, WebGPURendererProps>(({ sha
   const analyzerRef = useRef<AnalyserNode | null>(null);
   const audioDataArrayRef = useRef<Uint8Array | null>(null);
 
-  // Capture State
-  const capturePendingRef = useRef<number>(0); 
+  // Capture State (Progressive Stills)
+  const isCapturingRef = useRef<boolean>(false);
+
+  // Export-only param overrides, layered over the live params at draw time
+  const overridesRef = useRef(createOverrideStack());
   
-  // Video Recording State
-  const recorderRef = useRef<MediaRecorder | null>(null);
-  const chunksRef = useRef<Blob[]>([]);
-  const recordingConfigRef = useRef<VideoConfig | null>(null);
-  const recordingStartTimeRef = useRef<number>(0);
+  // Video Recording State (Offline Render)
   const isRecordingRef = useRef<boolean>(false);
-  const recordedFramesRef = useRef<number>(0);
-
-  // --- EASY PARAM WIRING ---
-  const [params, setParams] = useState<ShaderParam[]>([
-    { id: 'animSpeed', label: 'Animation Speed', type: 'float', value: 0.8, min: 0.0, max: 5.0 },
-    { id: 'boxRoughness', label: 'Roughness', type: 'float', value: 0.1, min: 0.0, max: 1.0 },
-    { id: 'indirectIntensity', label: 'Light Intensity', type: 'float', value: 1.8, min: 0.0, max: 10.0 }, 
-    { id: 'grainStrength', label: 'Film Grain', type: 'float', value: 0.5, min: 0.0, max: 2.0 },
-    { id: 'baseColor', label: 'Artifact Color', type: 'color', value: [0.8, 0.85, 1.0] }, // Cool White
-    { id: 'lightAz', label: 'Light Azimuth', type: 'float', value: 0.9, min: 0.0, max: 1.0 }, // Side lighting
-    { id: 'lightEl', label: 'Light Elevation', type: 'float', value: 0.2, min: 0.0, max: 1.0 }, // Low angle
-    { id: 'aberrationStrength', label: 'Aberration', type: 'float', value: 0.02, min: 0.0, max: 1.0 }, // Very low to prevent green fringing
-    { id: 'debugMode', label: 'Debug Mode', type: 'float', value: 0.0, min: 0.0, max: 5.0, step: 1.0 },
-  ]);
+  const cancelRecordingRef = useRef<boolean>(false);
+
+  // --- PARAMS ---
+  // Declared by `// @param` annotations in the shader; rebuilt on every successful compile
+  const [params, setParams] = useState<ShaderParam[]>(() => applyParamValues(parseShaderParams(preprocessShader(shaderFiles).code).params, initialSession.params));
 
   const paramsRef = useRef(params);
-  useEffect(() => { paramsRef.current = params; }, [params]);
+  useEffect(() => { paramsRef.current = params; onSessionChange?.(); }, [params]);
+
+  // Values from applySession for params the live shader doesn't declare (yet): the preset's
+  // own shader is usually still compiling. Taken by the next swap.
+  const restoredParamsRef = useRef<ParamOverrides>({});
+
+  // Layout of the compiled pipeline's Uniforms struct; swapped together with the pipelines
+  const uniformLayoutRef = useRef<UniformLayout>(calculateUniformLayout(params));
 
-  const STANDARD_HEADER_SIZE = 48;
-  const layout = calculateUniformLayout(params, STANDARD_HEADER_SIZE);
-  const TOTAL_BUFFER_SIZE = 128; // Increased buffer size just in case
+  // --- LIGHTS ---
+  // Edited in the params panel, uploaded to the `lights` scene buffer on every change
+  const [lights, setLights] = useState<SceneLight[]>(initialSession.lights);
 
-  const cameraState = useRef({ theta: 0.5, phi: 0.1, radius: 5.5, isDragging: false, lastX: 0, lastY: 0 });
+  const lightsRef = useRef(lights);
+  useEffect(() => {
+      lightsRef.current = lights;
+      if (deviceRef.current) uploadSceneBuffer(deviceRef.current, 'lights', packLights(lights));
+      onSessionChange?.();
+  }, [lights]);
+
+  // --- MATERIALS ---
+  // Owned by the scene description, uploaded the same way
+  const materialsRef = useRef(materials);
+  useEffect(() => {
+      materialsRef.current = materials;
+      if (deviceRef.current) uploadSceneBuffer(deviceRef.current, 'materials', packMaterials(materials));
+  }, [materials]);
+
+  const cameraState = useRef({ ...initialSession.camera, isDragging: false, lastX: 0, lastY: 0 });
   const mouseState = useRef({ x: 0, y: 0, isDown: 0 });
 
   // --- HELPER: Texture Creation ---
@@ -139,25 +274,43 @@ const WebGPURenderer = forwardRef<WebGPURendererRef, WebGPURendererProps>(({ sha
       return createTextureFromImage(device, canvas);
   };
 
-  const createHistoryTexture = (device: GPUDevice, width: number, height: number) => {
+  const createHistoryTexture = (device: GPUDevice, width: number, height: number, label = 'HistoryTexture', format = 'rgba16float', storage = false) => {
       return device.createTexture({
-          label: 'HistoryTexture',
+          label,
           size: [width, height, 1],
-          format: 'rgba16float', // HDR format critical for light accumulation
-          usage: 0x04 | 0x02 | 0x10, // TEXTURE_BINDING | COPY_DST | RENDER_ATTACHMENT
+          format, // HDR format critical for light accumulation
+          usage: 0x04 | 0x02 | 0x10 | 0x01 | (storage ? 0x08 : 0), // TEXTURE_BINDING | COPY_DST | RENDER_ATTACHMENT | COPY_SRC (HDR readback) | STORAGE_BINDING (compute passes)
       });
   };
 
+  // Sized to the data exactly, as the shader counts lights and materials with arrayLength().
+  // Bind groups are built per frame, so a reallocated buffer is picked up by the next one.
+  const uploadSceneBuffer = (device: GPUDevice, name: string, data: ArrayBuffer) => {
+      let buffer = sceneBuffersRef.current.get(name);
+      if (!buffer || buffer.size !== data.byteLength) {
+          buffer?.destroy();
+          buffer = device.createBuffer({ label: name, size: data.byteLength, usage: GPUBufferUsage.STORAGE | GPUBufferUsage.COPY_DST });
+          sceneBuffersRef.current.set(name, buffer);
+      }
+      device.queue.writeBuffer(buffer, 0, data);
+  };
+
   useImperativeHandle(ref, () => ({
-    capture: (quality = 1) => { capturePendingRef.current = quality; },
-    loadTexture: async (file: File) => {
-        if (!deviceRef.current || !file) return;
+    capture: (quality = 1, overrides?: ParamOverrides) => { runStillCapture(quality, overrides); },
+    captureHDR: (options: HdrCaptureOptions) => { runStillCapture(options.quality ?? 1, undefined, options); },
+    loadTexture: async (file: File, channel = 0) => {
+        if (!deviceRef.current || !file || channel < 0 || channel >= CHANNEL_COUNT) return;
         try {
             const bitmap = await createImageBitmap(file);
             const texture = await createTextureFromImage(deviceRef.current, bitmap);
-            userTextureRef.current = texture;
+            channelTexturesRef.current[channel]?.destroy();
+            channelTexturesRef.current[channel] = texture;
         } catch (e) { console.error("Failed to load texture", e); }
     },
+    clearTextures: () => {
+        channelTexturesRef.current.forEach(t => t?.destroy());
+        channelTexturesRef.current = Array(CHANNEL_COUNT).fill(null);
+    },
     toggleAudio: async () => {
         if (audioContextRef.current) { audioContextRef.current.suspend(); audioContextRef.current = null; return; }
         try {
@@ -170,85 +323,259 @@ const WebGPURenderer = forwardRef<WebGPURendererRef, WebGPURendererProps>(({ sha
             audioContextRef.current = ctx; analyzerRef.current = analyzer; audioDataArrayRef.current = new Uint8Array(analyzer.frequencyBinCount);
         } catch (e) { alert("Could not access microphone."); }
     },
-    startVideo: (config: VideoConfig) => {
-        if (!canvasRef.current) return;
-        recordingConfigRef.current = config; chunksRef.current = []; recordedFramesRef.current = 0;
-        canvasRef.current.width = 1920; canvasRef.current.height = 1080;
-        const stream = canvasRef.current.captureStream(config.fps);
-        recorderRef.current = new MediaRecorder(stream, { mimeType: 'video/webm;codecs=vp9', videoBitsPerSecond: config.bitrate * 1000000 });
-        recorderRef.current.ondataavailable = (e) => { if (e.data.size > 0) chunksRef.current.push(e.data); };
-        recorderRef.current.onstop = () => {
-            const blob = new Blob(chunksRef.current, { type: 'video/webm' });
-            const url = URL.createObjectURL(blob);
-            const a = document.createElement('a'); a.href = url; a.download = `restir_render_${Date.now()}.webm`; a.click(); URL.revokeObjectURL(url);
-            isRecordingRef.current = false; onRecordProgress(false, 0);
-        };
-        recorderRef.current.start(); recordingStartTimeRef.current = performance.now(); isRecordingRef.current = true;
+    startVideo: (config: VideoConfig, sink?: FrameSink) => {
+        runOfflineRender(config, sink);
     },
-    stopVideo: () => { if (recorderRef.current && recorderRef.current.state === 'recording') recorderRef.current.stop(); },
+    stopVideo: () => { cancelRecordingRef.current = true; },
     setDebugMode: (mode: number) => {
-        setParams(prev => {
-             const exists = prev.find(p => p.id === 'debugMode');
-             if (exists) {
-                 return prev.map(p => p.id === 'debugMode' ? { ...p, value: mode } : p);
-             } else {
-                 return [...prev, { id: 'debugMode', label: 'Debug View', type: 'float', value: mode, min: 0, max: 5 }];
-             }
-         });
+        // No-op when the shader doesn't declare a debugMode param
+        setParams(prev => prev.map(p => p.id === 'debugMode' ? withParamValue(p, mode) : p));
+    },
+    pushRenderOverrides: (overrides: ParamOverrides) => overridesRef.current.push(overrides),
+    setIntegrator: async (settings: Partial<IntegratorSettings>) => {
+        const device = deviceRef.current;
+        const current = integratorSettingsRef.current;
+        const next: IntegratorSettings = { ...current, ...settings };
+        if (!device || !shaderModuleRef.current) return current;
+
+        const [x, y] = next.workgroupSize;
+        const limits = device.limits;
+        if (x < 1 || y < 1 || x > limits.maxComputeWorkgroupSizeX || y > limits.maxComputeWorkgroupSizeY || x * y > limits.maxComputeInvocationsPerWorkgroup) {
+            onError({ type: 'validation', message: `Workgroup size ${x}x${y} exceeds this device's limits (max ${limits.maxComputeInvocationsPerWorkgroup} invocations)` });
+            return current;
+        }
+
+        const computePasses = compiledPassesRef.current.filter(c => c.pass.type === 'compute');
+        if (x !== current.workgroupSize[0] || y !== current.workgroupSize[1] || computePasses.some(c => !c.pipeline)) {
+            const collector = createDiagnosticsCollector(device, range => locateRange(range, compiledLinesRef.current));
+            const pipelines = await createComputePipelines(device, shaderModuleRef.current, computePasses, next.workgroupSize, collector, compiledCodeRef.current);
+            if (!pipelines && computePasses.some(c => !c.pass.integrator)) {
+                reportDiagnostics([...compileDiagnosticsRef.current, ...collector.diagnostics], 'validation');
+                return current;
+            }
+            computePasses.forEach((c, i) => { c.pipeline = pipelines?.[i] ?? null; });
+        }
+        if (next.mode === 'compute' && !isComputeReady(compiledPassesRef.current)) {
+            onError({ type: 'validation', message: 'Compute integrator unavailable: the shader has no integrator=compute passes, or they failed to build' });
+            next.mode = 'render';
+        }
+        integratorSettingsRef.current = next;
+        return next;
+    },
+    setDenoiser: (settings: Partial<DenoiserSettings>) => {
+        const next: DenoiserSettings = { ...denoiserSettingsRef.current, ...settings };
+        next.iterations = Math.min(MAX_DENOISER_ITERATIONS, Math.max(1, Math.round(next.iterations)));
+        denoiserSettingsRef.current = next;
+        return next;
+    },
+    getAutoTimeline: (duration: number) => createAutoOrchestration(paramsRef.current, duration, lightsRef.current, materialsRef.current),
+    getSession: () => {
+        const { theta, phi, radius } = cameraState.current;
+        return {
+            params: Object.fromEntries(paramsRef.current.map(p => [p.id, p.value])),
+            lights: lightsRef.current,
+            camera: { theta, phi, radius },
+            integrator: integratorSettingsRef.current,
+            denoiser: denoiserSettingsRef.current,
+        };
+    },
+    applySession: (session) => {
+        // Params the live shader declares take their value (or their declared default) now
+        const declared = compiledCodeRef.current ? parseShaderParams(compiledCodeRef.current).params : paramsRef.current;
+        const next = applyParamValues(declared, session.params);
+        restoredParamsRef.current = session.params;
+        paramsRef.current = next;
+        setParams(next);
+        setLights(session.lights);
+        Object.assign(cameraState.current, session.camera);
+        prevViewRef.current = null; // A jump, not a move: nothing to reproject
+        frameIndexRef.current = 0;
     }
   }));
 
-  const compilePipeline = async (device: GPUDevice, code: string, context: GPUCanvasContext) => {
+  // Pipelines for the graph's compute passes, in order. Resolves to null when any of them
+  // fails (or the workgroup size is rejected); integrator=compute passes then fall back to render.
+  // Failures land in `collector`, pointing at the pass's entry point in `code`.
+  const createComputePipelines = async (device: GPUDevice, module: GPUShaderModule, passes: CompiledPass[], workgroupSize: [number, number], collector: DiagnosticsCollector, code: string): Promise<GPUComputePipeline[] | null> => {
+      const pipelines: GPUComputePipeline[] = [];
+      for (const { pass, bindGroupLayout } of passes) {
+          const pipeline = await collector.scope({ stage: 'pipeline', pass: pass.name, entryPoint: pass.entryPoint, range: entryPointRange(code, pass.entryPoint) }, () => device.createComputePipelineAsync({
+              label: `${pass.name} Pipeline`,
+              layout: device.createPipelineLayout({ bindGroupLayouts: [bindGroupLayout] }),
+              compute: { module, entryPoint: pass.entryPoint, constants: { WORKGROUP_SIZE_X: workgroupSize[0], WORKGROUP_SIZE_Y: workgroupSize[1] } },
+          }));
+          pipelines.push(pipeline);
+      }
+      return pipelines.some(p => !p) ? null : pipelines;
+  };
+
+  // Publishes a build's diagnostics (the frame loop appends to them) and raises its first error
+  const reportDiagnostics = (diagnostics: ShaderDiagnostic[], type: ShaderError['type']) => {
+      onDiagnostics?.(diagnostics);
+      const first = diagnostics.find(d => d.severity === 'error');
+      if (first) onError({ type, message: first.message, file: first.range?.file, lineNum: first.range?.startLine, linePos: first.range?.startColumn });
+  };
+
+  // The same failure repeats every frame, so each distinct message is reported once
+  const reportFrameError = (diagnostic: ShaderDiagnostic) => {
+      if (frameErrorRef.current === diagnostic.message) return;
+      frameErrorRef.current = diagnostic.message;
+      reportDiagnostics([...compileDiagnosticsRef.current, diagnostic], 'validation');
+  };
+
+  // Builds the shader's module and every pass pipeline off to the side, then swaps them in
+  // all at once. Until then (and whenever the build fails) the last good pipelines keep
+  // drawing. Each call supersedes the ones before it: WebGPU can't abort a pipeline build,
+  // so an older compile checks `isStale` after every await and drops its results. Compiles
+  // may overlap, so error scopes never stay open across an await (see collector.scope):
+  // a superseded build can't catch the live one's errors, or the frame loop's.
+  const compilePipeline = async (device: GPUDevice, files: ShaderFile[]) => {
+      const generation = ++compileGenerationRef.current;
+      const isStale = () => generation !== compileGenerationRef.current || !isMountedRef.current;
+
+      // Back to the live source (e.g. an edit undone mid-compile): nothing to rebuild
+      const serializedFiles = JSON.stringify(files);
+      if (serializedFiles === compiledFilesRef.current && shaderModuleRef.current) {
+          onDiagnostics?.(compileDiagnosticsRef.current);
+          onClearError();
+          return;
+      }
+
+      // #include / #define / #ifdef; every range below is in `code` until the collector
+      // maps it back to its file through `sourceLines`
+      const { code, lines: sourceLines, issues: preprocessIssues } = preprocessShader(files);
+      const collector = createDiagnosticsCollector(device, range => locateRange(range, sourceLines));
+      preprocessIssues.forEach(({ file, lineNum, message }) => collector.add({
+          severity: 'error',
+          stage: 'preprocess',
+          message,
+          range: { file, startLine: lineNum, startColumn: 1, endLine: lineNum, endColumn: (files.find(f => f.name === file)?.code.split('\n')[lineNum - 1] ?? '').length + 1 },
+      }));
+      if (collector.hasErrors()) { reportDiagnostics(collector.diagnostics, 'compilation'); return; }
+
       const screenFormat = (navigator as any).gpu.getPreferredCanvasFormat();
-      const historyFormat = 'rgba16float';
+      const accumFormat = 'rgba16float';
+
+      const { params: declared, issues: paramIssues } = parseShaderParams(code);
+      const { graph, issues: graphIssues } = parseRenderGraph(code);
+      const issues = [...paramIssues, ...graphIssues];
+      const lines = code.split('\n');
+      // Annotation issues cover their whole line (graph-wide ones have none)
+      issues.forEach(({ lineNum, message }) => collector.add({
+          severity: 'error',
+          stage: 'annotation',
+          message,
+          range: lineNum ? { startLine: lineNum, startColumn: 1, endLine: lineNum, endColumn: (lines[lineNum - 1] ?? '').length + 1 } : undefined,
+      }));
+      if (collector.hasErrors()) { reportDiagnostics(collector.diagnostics, 'compilation'); return; }
+      // The layout depends only on the declarations; values are merged again at the swap
+      const layout = calculateUniformLayout(mergeParamValues(declared, paramsRef.current));
+
+      // The Uniforms struct is generated, so editor line numbers are offset by the prelude
+      const prelude = generateUniformStruct(layout);
+      const preludeLines = prelude.split('\n').length - 1;
 
-      const shaderModule = device.createShaderModule({ label: 'Main', code });
+      // Every getCompilationInfo message, warnings and info included. The module's error
+      // scope repeats compile errors without a location, so it only counts when they're absent.
+      const moduleScope = createDiagnosticsCollector(device);
+      const shaderModule = await moduleScope.scope({ stage: 'module' }, () => device.createShaderModule({ label: 'Main', code: prelude + code }));
       const compilationInfo = await shaderModule.getCompilationInfo();
-      if (compilationInfo.messages.length > 0) {
-        let hasError = false;
-        for (const msg of compilationInfo.messages) {
-          if (msg.type === 'error') {
-              hasError = true;
-              onError({ type: 'compilation', message: getErrorMessage(msg.message), lineNum: msg.lineNum, linePos: msg.linePos });
+      if (isStale()) return;
+      compilationInfo.messages.forEach((msg: any) => collector.add({
+          severity: msg.type,
+          stage: 'module',
+          message: getErrorMessage(msg.message),
+          range: offsetToRange(prelude + code, msg.offset, msg.length, preludeLines),
+      }));
+      if (!collector.hasErrors()) moduleScope.diagnostics.forEach(collector.add);
+      if (collector.hasErrors()) { reportDiagnostics(collector.diagnostics, 'compilation'); return; }
+
+      // One bind group layout per pass, from the bindings it declares
+      const compiled: CompiledPass[] = [];
+      for (const pass of graph.passes) {
+          const bindGroupLayout = await collector.scope({ stage: 'pipeline', pass: pass.name }, () => createPassBindGroupLayout(device, pass));
+          compiled.push({ pass, bindGroupLayout, pipeline: null });
+      }
+
+      const computePasses = compiled.filter(c => c.pass.type === 'compute');
+      const computePipelines = await createComputePipelines(device, shaderModule, computePasses, integratorSettingsRef.current.workgroupSize, collector, code);
+      if (isStale()) return;
+      if (!computePipelines && computePasses.some(c => !c.pass.integrator)) {
+          reportDiagnostics(collector.diagnostics, 'validation');
+          return;
+      }
+      computePasses.forEach((c, i) => { c.pipeline = computePipelines?.[i] ?? null; });
+
+      // Render passes: one target per out= entry. The screen pass gets a second pipeline that
+      // renders into an HDR accumulation target instead, where blend constant = 1/(k+1)
+      // turns successive frames into a running average.
+      const averageBlend = { srcFactor: 'constant', dstFactor: 'one-minus-constant', operation: 'add' };
+      for (const c of compiled.filter(c => c.pass.type === 'render')) {
+          const { pass } = c;
+          const isScreen = pass.targets[0] === SCREEN_TARGET;
+          const targets = isScreen ? [] : pass.targets.map(name => ({ format: (graph.resources.find(r => r.name === name) as GraphTexture).format }));
+
+          // A pass's pipelines build in parallel; a rejection fails the whole pass. Every
+          // device call is made before the scope closes, only the builds are awaited.
+          const pipelines = await collector.scope({ stage: 'pipeline', pass: pass.name, entryPoint: pass.entryPoint, range: entryPointRange(code, pass.entryPoint) }, () => {
+              const layout = device.createPipelineLayout({ bindGroupLayouts: [c.bindGroupLayout] });
+              const createPipeline = (label: string, targets: object[], constants?: Record<string, number>) => device.createRenderPipelineAsync({
+                  label,
+                  layout,
+                  vertex: { module: shaderModule, entryPoint: VERTEX_ENTRY_POINT },
+                  fragment: { module: shaderModule, entryPoint: pass.entryPoint, targets, ...(constants ? { constants } : {}) },
+                  primitive: { topology: 'triangle-list' },
+              });
+              return Promise.all(isScreen ? [
+                  createPipeline(`${pass.name} Pipeline`, [{ format: screenFormat }]),
+                  createPipeline(`${pass.name} Accumulation Pipeline`, [{ format: accumFormat, blend: { color: averageBlend, alpha: averageBlend } }]),
+              ] : [
+                  createPipeline(`${pass.name} Pipeline`, targets),
+                  ...(pass.iterate ? Array.from({ length: MAX_DENOISER_ITERATIONS }, (_, i) => createPipeline(`${pass.name} Pipeline (Iteration ${i})`, targets, { ITERATION: i })) : []),
+              ]);
+          });
+          if (isStale()) return;
+          if (!pipelines) continue;
+          if (isScreen) {
+              [c.pipeline, c.accumPipeline] = pipelines;
+          } else {
+              const [pipeline, ...iterationPipelines] = pipelines;
+              c.pipeline = pipeline;
+              if (pass.iterate) c.iterationPipelines = iterationPipelines;
           }
-        }
-        if (hasError) return;
       }
+      if (collector.hasErrors()) { reportDiagnostics(collector.diagnostics, 'validation'); return; }
+
+      // Swap: nothing below awaits, so frames see either the old build or the new one
+
+      // Warnings and info stay listed; a clean build clears the error
+      compileDiagnosticsRef.current = collector.diagnostics;
+      compiledFilesRef.current = serializedFiles;
+      compiledCodeRef.current = code;
+      compiledLinesRef.current = sourceLines;
+      frameErrorRef.current = null;
+      onDiagnostics?.(collector.diagnostics);
       onClearError();
 
-      // Common Layout
-      const bindGroupLayout = device.createBindGroupLayout({ 
-          entries: [
-              { binding: 0, visibility: GPUShaderStage.FRAGMENT | GPUShaderStage.VERTEX, buffer: { type: 'uniform' }},
-              { binding: 1, visibility: GPUShaderStage.FRAGMENT, texture: {} }, // History (Input)
-              { binding: 2, visibility: GPUShaderStage.FRAGMENT, sampler: {} }
-          ]
-      });
-      const pipelineLayout = device.createPipelineLayout({ bindGroupLayouts: [bindGroupLayout] });
-
-      // Pipeline 1: Integrator (ReSTIR)
-      // Renders to RGBA16Float (History Buffer)
-      const integratorPipeline = device.createRenderPipeline({
-        label: 'Integrator Pipeline',
-        layout: pipelineLayout,
-        vertex: { module: shaderModule, entryPoint: 'vs_main' },
-        fragment: { module: shaderModule, entryPoint: 'fs_main', targets: [{ format: historyFormat }] },
-        primitive: { topology: 'triangle-list' },
-      });
-      integratorPipelineRef.current = integratorPipeline;
-
-      // Pipeline 2: Display (Tonemapper)
-      // Renders to Screen
-      const displayPipeline = device.createRenderPipeline({
-        label: 'Display Pipeline',
-        layout: pipelineLayout,
-        vertex: { module: shaderModule, entryPoint: 'vs_main' },
-        fragment: { module: shaderModule, entryPoint: 'fs_display', targets: [{ format: screenFormat }] },
-        primitive: { topology: 'triangle-list' },
-      });
-      displayPipelineRef.current = displayPipeline;
+      graphRef.current = graph;
+      compiledPassesRef.current = compiled;
+      shaderModuleRef.current = shaderModule;
+
+      // Params and uniform layout switch over with the pipelines, keeping values edited during the build
+      if (!uniformBufferRef.current || uniformBufferRef.current.size < layout.size) {
+          uniformBufferRef.current?.destroy();
+          uniformBufferRef.current = device.createBuffer({ size: layout.size, usage: GPUBufferUsage.UNIFORM | GPUBufferUsage.COPY_DST });
+      }
+      // Restored session values only fill in params this build adds
+      const restored = { ...restoredParamsRef.current };
+      paramsRef.current.forEach(p => { delete restored[p.id]; });
+      const nextParams = applyParamValues(mergeParamValues(declared, paramsRef.current), restored);
+      restoredParamsRef.current = {};
+      uniformLayoutRef.current = layout;
+      paramsRef.current = nextParams;
+      setParams(nextParams);
       
-      // Reset accumulation on shader recompile
+      // Reset accumulation on shader recompile (recompiling the live source returned early)
       frameIndexRef.current = 0;
   };
 
@@ -260,11 +587,21 @@ const WebGPURenderer = forwardRef<WebGPURendererRef, WebGPURendererProps>(({ sha
 
       try {
         const adapter = await gpu.requestAdapter();
-        const device = await adapter.requestDevice();
+        // 4K reservoirs (~265MB) exceed the default 128MB storage binding limit
+        const device = await adapter.requestDevice({
+          requiredLimits: {
+            maxStorageBufferBindingSize: adapter.limits.maxStorageBufferBindingSize,
+            maxBufferSize: adapter.limits.maxBufferSize,
+          }
+        });
         if (!isMountedRef.current) { device.destroy(); return; }
         deviceRef.current = device;
 
-        device.lost.then((info: any) => { if (isMountedRef.current) onError({ type: 'runtime', message: getErrorMessage(info) }); });
+        device.lost.then((info: any) => {
+            if (!isMountedRef.current) return;
+            onDiagnostics?.([...compileDiagnosticsRef.current, { severity: 'error', stage: 'device', message: getErrorMessage(info) }]);
+            onError({ type: 'runtime', message: getErrorMessage(info) });
+        });
 
         const canvas = canvasRef.current;
         if (!canvas) return;
@@ -272,16 +609,15 @@ const WebGPURenderer = forwardRef<WebGPURendererRef, WebGPURendererProps>(({ sha
         contextRef.current = context;
         context.configure({ device, format: gpu.getPreferredCanvasFormat(), alphaMode: 'opaque' });
 
-        const uniformBuffer = device.createBuffer({ size: TOTAL_BUFFER_SIZE, usage: GPUBufferUsage.UNIFORM | GPUBufferUsage.COPY_DST });
-        uniformBufferRef.current = uniformBuffer;
-
         const defaultTex = await createDefaultTexture(device);
         defaultNoiseTextureRef.current = defaultTex;
         
         const sampler = device.createSampler({ magFilter: 'linear', minFilter: 'linear', addressModeU: 'repeat', addressModeV: 'repeat' });
         samplerRef.current = sampler;
+        uploadSceneBuffer(device, 'lights', packLights(lightsRef.current));
+        uploadSceneBuffer(device, 'materials', packMaterials(materialsRef.current));
 
-        await compilePipeline(device, shaderCode, context);
+        await compilePipeline(device, shaderFiles);
         requestRef.current = requestAnimationFrame(render);
       } catch (err: any) { onError({ type: 'compilation', message: getErrorMessage(err) }); }
     };
@@ -291,78 +627,68 @@ const WebGPURenderer = forwardRef<WebGPURendererRef, WebGPURendererProps>(({ sha
 
   useEffect(() => {
       if (deviceRef.current && contextRef.current) {
-          compilePipeline(deviceRef.current, shaderCode, contextRef.current);
+          compilePipeline(deviceRef.current, shaderFiles);
       }
-  }, [shaderCode]);
+  }, [shaderFiles]);
 
-  const render = (time: number) => {
-    const device = deviceRef.current;
-    const context = contextRef.current;
-    const integratorPipe = integratorPipelineRef.current;
-    const displayPipe = displayPipelineRef.current;
-    const uniformBuffer = uniformBufferRef.current;
-    const canvas = canvasRef.current;
-
-    if (!device || !context || !integratorPipe || !displayPipe || !uniformBuffer) {
-         requestRef.current = requestAnimationFrame(render); return;
-    }
-
-    // --- CANVAS SIZING ---
-    let width, height;
-    if (capturePendingRef.current > 0) { width = 3840; height = 2160; }
-    else if (isRecordingRef.current) { width = 1920; height = 1080; }
-    else {
-        const dpr = window.devicePixelRatio || 1; 
-        width = Math.floor(canvas.clientWidth * dpr);
-        height = Math.floor(canvas.clientHeight * dpr);
-    }
+  // Allocate the graph's resources at the render size (again after a resize or when a recompile changes them)
+  const ensureRenderTargets = (device: GPUDevice, canvas: HTMLCanvasElement, width: number, height: number) => {
+    const graph = graphRef.current;
+    const declared = JSON.stringify(graph?.resources ?? []);
+    if (canvas.width === width && canvas.height === height && allocatedGraphRef.current === declared) return;
+    canvas.width = width; canvas.height = height; 
     
-    // Ensure History Buffers Exist and are Correct Size
-    if (canvas.width !== width || canvas.height !== height || !historyTextureARef.current || !historyTextureBRef.current) { 
-        canvas.width = width; canvas.height = height; 
-        
-        // Destroy old if exist
-        if (historyTextureARef.current) historyTextureARef.current.destroy();
-        if (historyTextureBRef.current) historyTextureBRef.current.destroy();
-
-        historyTextureARef.current = createHistoryTexture(device, width, height);
-        historyTextureBRef.current = createHistoryTexture(device, width, height);
-        
-        frameIndexRef.current = 0; // Reset accumulation on resize
-    }
+    // Destroy old if exist
+    graphResourcesRef.current.forEach(instance => { instance.current.destroy(); instance.previous?.destroy(); });
+    graphResourcesRef.current = new Map();
 
-    // --- TIMING & PHYSICS ---
-    let elapsedTime = (time - startTimeRef.current) * 0.001;
-    let cameraTheta = cameraState.current.theta;
-    let cameraPhi = cameraState.current.phi;
-    let cameraRadius = cameraState.current.radius;
-    
-    // Check input state for reset
-    const camMoved = mouseState.current.isDown > 0.5 || isRecordingRef.current || cameraState.current.isDragging;
+    graph?.resources.forEach(resource => {
+        const [w, h] = resourceSize(resource, width, height);
+        const storage = graph.passes.some(p => p.bindings.some(b => b.resource === resource.name && b.type === 'storage-texture'));
+        const create = () => resource.kind === 'texture'
+            ? createHistoryTexture(device, w, h, resource.name, resource.format, storage)
+            : device.createBuffer({ label: resource.name, size: w * h * resource.bytesPerPixel, usage: GPUBufferUsage.STORAGE });
+        graphResourcesRef.current.set(resource.name, { resource, current: create(), previous: resource.pingpong ? create() : undefined });
+    });
+    allocatedGraphRef.current = declared;
     
-    if (isRecordingRef.current && recordingConfigRef.current) {
-        const fps = recordingConfigRef.current.fps;
-        elapsedTime = recordedFramesRef.current / fps;
-        recordedFramesRef.current++;
-        const duration = recordingConfigRef.current.duration;
-        onRecordProgress(true, Math.max(0, duration - elapsedTime));
-        
-        if (elapsedTime >= duration) {
-             if (recorderRef.current && recorderRef.current.state === 'recording') recorderRef.current.stop();
-        }
-    }
+    frameIndexRef.current = 0; // Reset accumulation on resize
+  };
 
-    const cx = cameraRadius * Math.cos(cameraPhi) * Math.sin(cameraTheta);
-    const cy = cameraRadius * Math.sin(cameraPhi);
-    const cz = cameraRadius * Math.cos(cameraPhi) * Math.cos(cameraTheta);
+  // One accumulation step: uniforms, every graph pass in order, submit, swap.
+  const drawFrame = (device: GPUDevice, context: GPUCanvasContext, frame: FrameState) => {
+    const uniformBuffer = uniformBufferRef.current;
+    const layout = uniformLayoutRef.current;
+
+    const { eye, target } = poseToEye(frame.pose);
+    const jitter = frame.jitter ?? [0, 0];
     
     // Update Uniforms
-    const currentParams = [...paramsRef.current];
-    const uniformData = new Float32Array(TOTAL_BUFFER_SIZE / 4); 
-    uniformData[0] = width; uniformData[1] = height; uniformData[2] = elapsedTime; uniformData[3] = frameIndexRef.current;
-    uniformData[4] = cx; uniformData[5] = cy; uniformData[6] = cz;
-    uniformData[8] = mouseState.current.x; uniformData[9] = mouseState.current.y; uniformData[10] = mouseState.current.isDown;
-    writeParamsToBuffer(uniformData, currentParams, layout);
+    const uniformData = new Float32Array(layout.size / 4);
+    writeUniform(uniformData, layout, 'resolution', [frame.width, frame.height]);
+    writeUniform(uniformData, layout, 'time', frame.time);
+    writeUniform(uniformData, layout, 'frameIndex', frameIndexRef.current);
+    writeUniform(uniformData, layout, 'cameraPos', eye);
+    writeUniform(uniformData, layout, 'cameraTarget', target);
+    writeUniform(uniformData, layout, 'mouse', [mouseState.current.x, mouseState.current.y, mouseState.current.isDown]);
+    writeUniform(uniformData, layout, 'quality', [frame.quality.spatialTaps, frame.quality.bounces, jitter[0], jitter[1]]);
+    const denoiser = denoiserSettingsRef.current;
+    writeUniform(uniformData, layout, 'denoise', [DENOISER_MODES.indexOf(denoiser.mode), denoiser.iterations]);
+
+    // Previous camera for temporal reprojection (first frame reprojects onto itself)
+    const view = cameraViewMatrix({ eye, target });
+    writeUniform(uniformData, layout, 'prevView', prevViewRef.current ?? view);
+    prevViewRef.current = view;
+
+    // Channel resolutions, falling back to the noise texture for empty slots
+    const channelInfo: number[] = [];
+    const channelViews = channelTexturesRef.current.map((tex) => {
+        const bound = tex ?? defaultNoiseTextureRef.current;
+        channelInfo.push(bound.width, bound.height, tex ? 1 : 0, 0);
+        return bound.createView();
+    });
+    writeUniform(uniformData, layout, 'channels', channelInfo);
+    writeParamsToBuffer(uniformData, frame.params, layout);
 
     // Audio FFT logic
     let vol = 0;
@@ -372,90 +698,321 @@ const WebGPURenderer = forwardRef<WebGPURendererRef, WebGPURendererProps>(({ sha
         for(let i=0; i<data.length; i++) vol += data[i];
         vol /= (data.length * 255);
     }
-    uniformData[31] = vol; // Audio Vol at end
+    writeUniform(uniformData, layout, 'audio', vol);
     device.queue.writeBuffer(uniformBuffer, 0, uniformData);
 
-    const commandEncoder = device.createCommandEncoder();
+    // Validation errors while recording or submitting (bind groups, passes) surface asynchronously
+    const closeFrameScope = openFrameScope(device, reportFrameError);
+    const resources = graphResourcesRef.current;
+    try {
+        const commandEncoder = device.createCommandEncoder();
+        const passes = compiledPassesRef.current;
+        const settings = integratorSettingsRef.current;
+        const mode = settings.mode === 'compute' && isComputeReady(passes) ? 'compute' : 'render';
+        const [wx, wy] = settings.workgroupSize;
 
-    // ----------------------------------------------------
-    // PASS 1: INTEGRATOR (ReSTIR)
-    // ----------------------------------------------------
-    // Read from A (Previous), Write to B (Current)
-    // If Frame 0, Input is Noise/Black.
-    const sourceTexture = historyTextureARef.current;
-    const destTexture = historyTextureBRef.current;
-    
-    const integratorBindGroup = device.createBindGroup({
-        layout: integratorPipe.getBindGroupLayout(0),
-        entries: [
-            { binding: 0, resource: { buffer: uniformBuffer } },
-            { binding: 1, resource: (frameIndexRef.current === 0) ? defaultNoiseTextureRef.current.createView() : sourceTexture.createView() },
-            { binding: 2, resource: samplerRef.current }
-        ]
-    });
+        const bindingResource = (b: GraphBinding) => {
+            if (b.type === 'uniform') return { buffer: uniformBuffer };
+            if (b.type === 'sampler') return samplerRef.current;
+            if (b.channel !== undefined) return channelViews[b.channel];
+            if (b.scene !== undefined) return { buffer: sceneBuffersRef.current.get(b.scene) };
+            const instance = resources.get(b.resource!)!;
+            const bound = b.view === 'previous' ? instance.previous : instance.current;
+            return instance.resource.kind === 'buffer' ? { buffer: bound } : bound.createView();
+        };
 
-    const pass1 = commandEncoder.beginRenderPass({
-        label: 'Integrator Pass',
-        colorAttachments: [{
-            view: destTexture.createView(),
-            clearValue: { r: 0, g: 0, b: 0, a: 0 },
-            loadOp: 'clear', storeOp: 'store'
-        }]
-    });
-    pass1.setPipeline(integratorPipe);
-    pass1.setBindGroup(0, integratorBindGroup);
-    pass1.draw(6);
-    pass1.end();
+        const targetAttachment = (name: string) => {
+            const { resource, current } = resources.get(name)!;
+            const [r, g, b, a] = (resource as GraphTexture).clear;
+            return { view: current.createView(), clearValue: { r, g, b, a }, loadOp: 'clear', storeOp: 'store' };
+        };
 
-    // ----------------------------------------------------
-    // PASS 2: DISPLAY (Tonemapping)
-    // ----------------------------------------------------
-    // Read from B (Current Result), Write to Screen
-    const displayBindGroup = device.createBindGroup({
-        layout: displayPipe.getBindGroupLayout(0),
-        entries: [
-            { binding: 0, resource: { buffer: uniformBuffer } },
-            { binding: 1, resource: destTexture.createView() }, // Read the texture we just wrote to
-            { binding: 2, resource: samplerRef.current }
-        ]
-    });
+        const createBindGroup = (pass: GraphPass, layout: GPUBindGroupLayout) => device.createBindGroup({
+            label: `${pass.name} Bind Group`,
+            layout,
+            entries: pass.bindings.map(b => ({ binding: b.binding, resource: bindingResource(b) })),
+        });
 
-    const textureView = context.getCurrentTexture().createView();
-    const pass2 = commandEncoder.beginRenderPass({
-        label: 'Display Pass',
-        colorAttachments: [{
-            view: textureView,
-            clearValue: { r: 0, g: 0, b: 0, a: 1 },
-            loadOp: 'clear', storeOp: 'store'
-        }]
-    });
-    pass2.setPipeline(displayPipe);
-    pass2.setBindGroup(0, displayBindGroup);
-    pass2.draw(6);
-    pass2.end();
+        passes.forEach(({ pass, bindGroupLayout, pipeline, iterationPipelines, accumPipeline }) => {
+            if (pass.integrator && pass.integrator !== mode) return;
+            if (pass.denoiser && !pass.denoiser.includes(denoiser.mode)) return;
+
+            if (pass.iterate) {
+                // Swap before every run: 'previous' is the last output, 'current' the next
+                const written = new Set([...pass.targets, ...pass.bindings.filter(b => b.writes).map(b => b.resource!)]);
+                for (let i = 0; i < denoiser.iterations; i++) {
+                    written.forEach(name => {
+                        const instance = resources.get(name)!;
+                        [instance.current, instance.previous] = [instance.previous, instance.current];
+                    });
+                    const iterationPass = commandEncoder.beginRenderPass({
+                        label: `${pass.name} Pass (Iteration ${i})`,
+                        colorAttachments: pass.targets.map(targetAttachment),
+                    });
+                    iterationPass.setPipeline(iterationPipelines![i]);
+                    iterationPass.setBindGroup(0, createBindGroup(pass, bindGroupLayout));
+                    iterationPass.draw(6);
+                    iterationPass.end();
+                }
+                return;
+            }
+
+            const bindGroup = createBindGroup(pass, bindGroupLayout);
 
-    device.queue.submit([commandEncoder.finish()]);
+            if (pass.type === 'compute') {
+                const computePass = commandEncoder.beginComputePass({ label: `${pass.name} Pass` });
+                computePass.setPipeline(pipeline);
+                computePass.setBindGroup(0, bindGroup);
+                computePass.dispatchWorkgroups(Math.ceil(frame.width / wx), Math.ceil(frame.height / wy));
+                computePass.end();
+                return;
+            }
+
+            // The screen pass draws to the canvas, or blends into the accumulation target
+            const toScreen = pass.targets[0] === SCREEN_TARGET;
+            const colorAttachments = toScreen ? [{
+                view: frame.accumulate ? frame.accumulate.texture.createView() : context.getCurrentTexture().createView(),
+                clearValue: { r: 0, g: 0, b: 0, a: 1 },
+                loadOp: (frame.accumulate && frame.accumulate.weight < 1) ? 'load' : 'clear', storeOp: 'store'
+            }] : pass.targets.map(targetAttachment);
+
+            const renderPass = commandEncoder.beginRenderPass({ label: `${pass.name} Pass`, colorAttachments });
+            if (toScreen && frame.accumulate) {
+                const w = frame.accumulate.weight;
+                renderPass.setPipeline(accumPipeline);
+                renderPass.setBlendConstant({ r: w, g: w, b: w, a: w });
+            } else {
+                renderPass.setPipeline(pipeline);
+            }
+            renderPass.setBindGroup(0, bindGroup);
+            renderPass.draw(6);
+            renderPass.end();
+        });
+
+        device.queue.submit([commandEncoder.finish()]);
+    } finally {
+        // Always pop, even when encoding throws, or every later frame nests inside this scope
+        closeFrameScope();
+    }
 
     // ----------------------------------------------------
     // PING-PONG SWAP
     // ----------------------------------------------------
-    // Swap A and B. B becomes the 'Previous' for the next frame.
-    const temp = historyTextureARef.current;
-    historyTextureARef.current = historyTextureBRef.current;
-    historyTextureBRef.current = temp;
+    // This frame's contents become the 'previous' view for the next frame.
+    resources.forEach(instance => {
+        if (instance.previous) [instance.current, instance.previous] = [instance.previous, instance.current];
+    });
     frameIndexRef.current++;
+  };
 
-    if (capturePendingRef.current > 0) {
-        const link = document.createElement('a');
-        link.download = `restir_capture_${Date.now()}.png`;
-        link.href = canvas.toDataURL('image/png', 1.0);
-        link.click();
-        capturePendingRef.current = 0;
+  const render = (time: number) => {
+    const device = deviceRef.current;
+    const context = contextRef.current;
+    const canvas = canvasRef.current;
+
+    // The offline renderer owns the canvas while recording or capturing
+    if (!device || !context || compiledPassesRef.current.length === 0 || !uniformBufferRef.current || isRecordingRef.current || isCapturingRef.current) {
+         requestRef.current = requestAnimationFrame(render); return;
     }
 
+    // --- CANVAS SIZING ---
+    const dpr = window.devicePixelRatio || 1; 
+    const width = Math.floor(canvas.clientWidth * dpr);
+    const height = Math.floor(canvas.clientHeight * dpr);
+    ensureRenderTargets(device, canvas, width, height);
+
+    // --- TIMING & CAMERA ---
+    const elapsedTime = (time - startTimeRef.current) * 0.001;
+    const { theta, phi, radius } = cameraState.current;
+    const pose: CameraPose = { theta, phi, radius, target: [0, 0, 0] };
+
+    drawFrame(device, context, { width, height, time: elapsedTime, pose, params: overridesRef.current.resolve(paramsRef.current), quality: LIVE_QUALITY });
+
     requestRef.current = requestAnimationFrame(render);
   };
 
+  // --- PROGRESSIVE STILL CAPTURE ---
+  // Renders the preset's frame count at the target resolution with scene time
+  // frozen, averaging the display output into an HDR target. The still is taken
+  // only once every frame has been accumulated. HDR captures accumulate the
+  // pre-tonemap image instead and are written out as EXR / 16-bit PNG.
+  const runStillCapture = async (quality: number, overrides?: ParamOverrides, hdr?: HdrCaptureOptions) => {
+    const device = deviceRef.current;
+    const context = contextRef.current;
+    const canvas = canvasRef.current;
+    if (!device || !context || !canvas || isRecordingRef.current || isCapturingRef.current) return;
+
+    const preset = CAPTURE_PRESETS[quality] ?? CAPTURE_PRESETS[1];
+    const { width, height, frames } = preset;
+    const time = (performance.now() - startTimeRef.current) * 0.001;
+    const { theta, phi, radius } = cameraState.current;
+    const pose: CameraPose = { theta, phi, radius, target: [0, 0, 0] };
+
+    isCapturingRef.current = true;
+    const releaseOverrides = overrides ? overridesRef.current.push(overrides) : null;
+    const releaseLinear = hdr ? overridesRef.current.push({ debugMode: DEBUG_MODE_LINEAR_HDR }) : null;
+    const accumTexture = device.createTexture({
+        label: 'StillAccumulation',
+        size: [width, height, 1],
+        format: 'rgba16float',
+        usage: 0x01 | 0x10, // COPY_SRC | RENDER_ATTACHMENT
+    });
+
+    try {
+        // Every AOV layer is accumulated like the beauty, so progress covers all of them
+        const passes = hdr?.aovs ? 1 + HDR_AOVS.length : 1;
+        onCaptureProgress?.(0, preset.label);
+
+        const converged = await accumulateStill(device, context, accumTexture, preset, time, pose,
+            done => onCaptureProgress?.(done / (frames * passes), preset.label));
+        if (!converged) return;
+
+        if (hdr) {
+            releaseLinear?.();
+            await exportHdrCapture(device, context, accumTexture, preset, time, pose, hdr,
+                (layer, done) => onCaptureProgress?.((frames * (layer + 1) + done) / (frames * passes), preset.label));
+        } else {
+            const image = await readTextureRGBA16F(device, accumTexture, width, height);
+            const png = await floatImageToPng(image);
+            downloadBlob(png, `restir_capture_${preset.label.toLowerCase()}_${Date.now()}.png`);
+        }
+    } catch (err: any) {
+        onError({ type: 'runtime', message: getErrorMessage(err) });
+    } finally {
+        accumTexture.destroy();
+        releaseLinear?.();
+        releaseOverrides?.();
+        isCapturingRef.current = false;
+        onCaptureProgress?.(null);
+    }
+  };
+
+  // Renders `preset.frames` frames (jittered when the preset asks) from empty history and
+  // blends them into `target` as a running average. Resolves false if the component unmounted.
+  const accumulateStill = async (device: GPUDevice, context: GPUCanvasContext, target: GPUTexture, preset: CapturePreset, time: number, pose: CameraPose, onProgress: (framesDone: number) => void) => {
+    const { width, height, frames } = preset;
+    frameIndexRef.current = 0; // Start from empty history at the capture resolution
+    const frameParams = overridesRef.current.resolve(paramsRef.current);
+
+    for (let k = 0; k < frames; k++) {
+        if (!isMountedRef.current) return false;
+        const jitter: [number, number] = preset.jitter ? [halton(k + 1, 2) - 0.5, halton(k + 1, 3) - 0.5] : [0, 0];
+        ensureRenderTargets(device, context.canvas, width, height); // A recompile may have swapped in new resources
+        drawFrame(device, context, { width, height, time, pose, params: frameParams, quality: preset, jitter, accumulate: { texture: target, weight: 1 / (k + 1) } });
+
+        if ((k + 1) % 4 === 0 || k === frames - 1) {
+            await device.queue.onSubmittedWorkDone();
+            onProgress(k + 1);
+        }
+    }
+    return true;
+  };
+
+  // Reads back the converged linear beauty, then accumulates each AOV layer through its
+  // debug mode over the same frames and jitter, so every layer matches the beauty's samples.
+  const exportHdrCapture = async (device: GPUDevice, context: GPUCanvasContext, accumTexture: GPUTexture, preset: CapturePreset, time: number, pose: CameraPose, hdr: HdrCaptureOptions, onProgress: (layer: number, framesDone: number) => void) => {
+    const { width, height } = preset;
+    const layers: ExrLayer[] = [{ name: '', channels: ['R', 'G', 'B', 'A'], image: await readTextureHalf(device, accumTexture, width, height) }];
+
+    if (hdr.aovs) {
+        for (const [i, aov] of HDR_AOVS.entries()) {
+            const release = overridesRef.current.push({ debugMode: aov.mode });
+            try {
+                if (!await accumulateStill(device, context, accumTexture, preset, time, pose, done => onProgress(i, done))) return;
+            } finally {
+                release();
+            }
+            const image = await readTextureHalf(device, accumTexture, width, height);
+            layers.push({ name: aov.name, channels: aov.channels, image: aov.decode ? mapHalfImage(image, aov.decode) : image });
+        }
+    }
+
+    const stamp = `${preset.label.toLowerCase()}_${Date.now()}`;
+    if (hdr.format === 'exr') {
+        downloadBlob(encodeExr(layers), `restir_capture_${stamp}.exr`);
+    } else if (layers.length === 1) {
+        downloadBlob(await encodePng16(layers[0].image), `restir_capture_${stamp}.png`);
+    } else {
+        const entries = await Promise.all(layers.map(async layer => ({
+            name: `${layer.name || 'beauty'}.png`,
+            data: new Uint8Array(await (await encodePng16(layer.image)).arrayBuffer()),
+        })));
+        downloadBlob(createZip(entries), `restir_capture_${stamp}_png16.zip`);
+    }
+  };
+
+  // --- OFFLINE VIDEO RENDER ---
+  // Time advances by exactly 1/fps per output frame, independent of how long the
+  // GPU takes, so the clip is always config.duration long. Each output frame is
+  // the last of `subframes` accumulation steps rendered at the same time value.
+  const runOfflineRender = async (config: VideoConfig, sinkOverride?: FrameSink) => {
+    const device = deviceRef.current;
+    const context = contextRef.current;
+    const canvas = canvasRef.current;
+    if (!device || !context || !canvas || isRecordingRef.current || isCapturingRef.current) return;
+
+    const width = 1920, height = 1080;
+    const frameCount = Math.max(1, Math.round(config.duration * config.fps));
+    const subframes = Math.max(1, Math.floor(config.subframes));
+    const { theta, phi, radius } = cameraState.current;
+    const origin: OrbitCamera = { theta, phi, radius }; // Camera framing when the shot started
+    const timeline = config.orchestrate ? (config.timeline ?? createAutoOrchestration(paramsRef.current, config.duration, lightsRef.current, materialsRef.current)) : null;
+    const animatesScene = timeline !== null && hasSceneTracks(timeline);
+
+    const info: FrameSinkInfo = { width, height, fps: config.fps, frameCount, bitrate: config.bitrate };
+
+    isRecordingRef.current = true;
+    cancelRecordingRef.current = false;
+    ensureRenderTargets(device, canvas, width, height);
+    frameIndexRef.current = 0;
+
+    let sink: FrameSink | null = sinkOverride ?? null;
+    const releaseOverrides = overridesRef.current.push(videoExportOverrides(config));
+    try {
+        if (!sink) sink = (await resolveEncoderBackend(config.format, info)).createSink();
+        await sink.begin(canvas, info);
+        onRecordProgress(true, config.duration, sink.label);
+
+        for (let i = 0; i < frameCount; i++) {
+            if (cancelRecordingRef.current || !isMountedRef.current) break;
+            const time = i / config.fps;
+            const pose = evaluateCameraShot(config.shotType, time, config.duration, origin);
+            // Live params -> export overrides -> orchestration keyframes
+            const baseParams = overridesRef.current.resolve(paramsRef.current);
+            const frameParams = timeline ? applyTimeline(baseParams, timeline, time) : baseParams;
+            // Keyframed lights and materials go straight to their buffers; the lists keep the live values
+            if (animatesScene) {
+                uploadSceneBuffer(device, 'lights', packLights(applyTimelineToLights(lightsRef.current, timeline, time)));
+                uploadSceneBuffer(device, 'materials', packMaterials(applyTimelineToMaterials(materialsRef.current, timeline, time)));
+            }
+
+            for (let s = 0; s < subframes; s++) {
+                if (s > 0) await device.queue.onSubmittedWorkDone(); // Keep the queue shallow
+                ensureRenderTargets(device, canvas, width, height); // A recompile may have swapped in new resources
+                drawFrame(device, context, { width, height, time, pose, params: frameParams, quality: LIVE_QUALITY });
+            }
+            // Must follow the last draw in the same task (swap chain texture lifetime)
+            await sink.addFrame(canvas, i, time);
+            await device.queue.onSubmittedWorkDone();
+
+            onRecordProgress(true, Math.max(0, config.duration - (i + 1) / config.fps), sink.label);
+        }
+
+        const blob = await sink.finish();
+        downloadBlob(blob, `restir_render_${Date.now()}.${sink.fileExtension}`);
+    } catch (err: any) {
+        sink?.abort();
+        onError({ type: 'runtime', message: getErrorMessage(err) });
+    } finally {
+        releaseOverrides();
+        if (animatesScene) {
+            uploadSceneBuffer(device, 'lights', packLights(lightsRef.current));
+            uploadSceneBuffer(device, 'materials', packMaterials(materialsRef.current));
+        }
+        isRecordingRef.current = false;
+        onRecordProgress(false, 0);
+    }
+  };
   const handlePointerDown = (e: React.PointerEvent) => { 
       if (isRecordingRef.current) return; 
       canvasRef.current?.setPointerCapture(e.pointerId); 
@@ -472,14 +1029,17 @@ const WebGPURenderer = forwardRef<WebGPURendererRef, WebGPURendererProps>(({ sha
       cameraState.current.lastX = e.clientX; cameraState.current.lastY = e.clientY;
       cameraState.current.theta -= dx * 0.01; cameraState.current.phi += dy * 0.01;
       cameraState.current.phi = Math.max(-1.5, Math.min(1.5, cameraState.current.phi));
-      // Reset accumulation on move
-      frameIndexRef.current = 0;
+      // History survives the move: fs_main reprojects it through prevView
     }
   };
-  const handlePointerUp = (e: React.PointerEvent) => { canvasRef.current?.releasePointerCapture(e.pointerId); cameraState.current.isDragging = false; mouseState.current.isDown = 0.0; };
+  const handlePointerUp = (e: React.PointerEvent) => {
+      canvasRef.current?.releasePointerCapture(e.pointerId);
+      if (cameraState.current.isDragging) onSessionChange?.();
+      cameraState.current.isDragging = false; mouseState.current.isDown = 0.0;
+  };
   const handleWheel = (e: React.WheelEvent) => { 
       cameraState.current.radius = Math.max(1.0, Math.min(50.0, cameraState.current.radius + e.deltaY * 0.005)); 
-      frameIndexRef.current = 0;
+      onSessionChange?.();
   };
 
   if (!isSupported) return <div className="w-full h-full flex items-center justify-center bg-black text-red-500 font-mono"><p>WebGPU not supported.</p></div>;
@@ -487,7 +1047,9 @@ const WebGPURenderer = forwardRef<WebGPURendererRef, WebGPURendererProps>(({ sha
   return (
     <>
         <canvas ref={canvasRef} className="w-full h-full block cursor-crosshair touch-none" onPointerDown={handlePointerDown} onPointerMove={handlePointerMove} onPointerUp={handlePointerUp} onPointerLeave={handlePointerUp} onWheel={handleWheel} />
-        <ParamsControlPanel params={params} setParams={setParams} description={description} />
+        <ParamsControlPanel params={params} setParams={setParams} description={description}>
+            <LightsEditor lights={lights} setLights={setLights} />
+        </ParamsControlPanel>
     </>
   );
 });
@@ -0,0 +1,167 @@
+import React, { useState } from 'react';
+import { LightKind, SceneLight } from '../types';
+import { LIGHT_KINDS, MAX_VISIBLE_EMITTERS, createLight, isVisibleEmitter, visibleEmitterIds } from '../utils/sceneLights';
+import { hexToRgb, rgbToHex } from './ShaderParams';
+
+// --- Light List Editor ---
+// Adds, removes and edits the scene lights; rendered inside the params panel.
+
+const KIND_LABELS: Record<LightKind, string> = { point: 'Point', spot: 'Spot', area: 'Area', emissive: 'Neon' };
+const SIZE_LABELS: Partial<Record<LightKind, [string, string]>> = { area: ['Width', 'Height'], emissive: ['Length', 'Radius'] };
+const DIRECTION_LABELS: Partial<Record<LightKind, string>> = { spot: 'Direction', area: 'Facing', emissive: 'Axis' };
+const MAX_INTENSITY: Record<LightKind, number> = { point: 1500, spot: 3000, area: 100, emissive: 100 };
+
+type Vec3 = [number, number, number];
+
+// Shared with the material editor
+export const fieldLabel = 'text-[10px] font-mono uppercase tracking-widest text-gray-500';
+export const numberInput = 'w-full min-w-0 bg-transparent border border-white/20 focus:border-acid outline-none px-1 py-0.5 text-[10px] font-mono text-white';
+
+export const NumberField: React.FC<{ value: number; step?: number; min?: number; onChange: (v: number) => void }> = ({ value, step = 0.1, min, onChange }) => (
+  <input
+    type="number"
+    value={Number(value.toFixed(3))}
+    step={step}
+    min={min}
+    onChange={(e) => { const v = parseFloat(e.target.value); if (Number.isFinite(v)) onChange(min !== undefined ? Math.max(min, v) : v); }}
+    className={numberInput}
+  />
+);
+
+export const Vec3Field: React.FC<{ label: string; value: Vec3; onChange: (v: Vec3) => void }> = ({ label, value, onChange }) => (
+  <div className="space-y-1">
+    <div className={fieldLabel}>{label}</div>
+    <div className="grid grid-cols-3 gap-1">
+      {value.map((c, i) => (
+        <NumberField key={i} value={c} onChange={v => onChange(value.map((old, j) => (j === i ? v : old)) as Vec3)} />
+      ))}
+    </div>
+  </div>
+);
+
+const LightFields: React.FC<{ light: SceneLight; onChange: (patch: Partial<SceneLight>) => void }> = ({ light, onChange }) => {
+  const sizeLabels = SIZE_LABELS[light.kind];
+  const directionLabel = DIRECTION_LABELS[light.kind];
+  const maxIntensity = MAX_INTENSITY[light.kind];
+
+  return (
+    <div className="px-2 pb-3 pt-1 space-y-3 border-t border-white/10">
+      <div className="space-y-1">
+        <div className={fieldLabel}>Label</div>
+        <input type="text" value={light.label} onChange={(e) => onChange({ label: e.target.value })} className={numberInput} />
+      </div>
+
+      <Vec3Field label="Position" value={light.position} onChange={position => onChange({ position })} />
+      {directionLabel && <Vec3Field label={directionLabel} value={light.direction} onChange={direction => onChange({ direction })} />}
+
+      <div className="space-y-1">
+        <div className="flex justify-between items-baseline">
+          <div className={fieldLabel}>{light.kind === 'point' || light.kind === 'spot' ? 'Intensity' : 'Radiance'}</div>
+          <span className="text-[10px] font-mono text-white">{light.intensity.toFixed(1)}</span>
+        </div>
+        <input
+          type="range"
+          min={0}
+          max={Math.max(maxIntensity, light.intensity)}
+          step={maxIntensity / 500}
+          value={light.intensity}
+          onChange={(e) => onChange({ intensity: parseFloat(e.target.value) })}
+          className="w-full accent-acid cursor-pointer"
+        />
+      </div>
+
+      <div className="flex gap-2 items-center">
+        <div className="relative w-full h-6 border border-white/20 hover:border-white transition-colors cursor-pointer">
+          <input
+            type="color"
+            value={rgbToHex(light.color)}
+            onChange={(e) => onChange({ color: hexToRgb(e.target.value) })}
+            className="opacity-0 absolute inset-0 w-full h-full cursor-pointer z-10"
+          />
+          <div className="absolute inset-0.5" style={{ backgroundColor: rgbToHex(light.color) }}></div>
+        </div>
+        <div className="font-mono text-[10px] text-white/50">{rgbToHex(light.color)}</div>
+      </div>
+
+      {sizeLabels && (
+        <div className="grid grid-cols-2 gap-2">
+          {sizeLabels.map((label, i) => (
+            <div key={label} className="space-y-1">
+              <div className={fieldLabel}>{label}</div>
+              <NumberField value={light.size[i]} step={i === 1 && light.kind === 'emissive' ? 0.01 : 0.1} min={0.01} onChange={v => onChange({ size: (i === 0 ? [v, light.size[1]] : [light.size[0], v]) })} />
+            </div>
+          ))}
+        </div>
+      )}
+
+      {light.kind === 'spot' && (
+        <div className="space-y-1">
+          <div className={fieldLabel}>Cone Angle</div>
+          <NumberField value={light.coneAngle} step={1} min={1} onChange={v => onChange({ coneAngle: Math.min(89, v) })} />
+        </div>
+      )}
+    </div>
+  );
+};
+
+interface LightsEditorProps {
+  lights: SceneLight[];
+  setLights: React.Dispatch<React.SetStateAction<SceneLight[]>>;
+}
+
+export const LightsEditor: React.FC<LightsEditorProps> = ({ lights, setLights }) => {
+  const [selected, setSelected] = useState<string | null>(null);
+  const visible = visibleEmitterIds(lights);
+
+  const update = (id: string, patch: Partial<SceneLight>) => setLights(prev => prev.map(l => (l.id === id ? { ...l, ...patch } : l)));
+  const remove = (id: string) => setLights(prev => prev.filter(l => l.id !== id));
+  const add = (kind: LightKind) => {
+    const light = createLight(kind);
+    setLights(prev => [...prev, light]);
+    setSelected(light.id);
+  };
+
+  return (
+    <div className="shrink-0 space-y-4">
+      <div className="flex justify-between items-baseline">
+        <div className="text-[10px] font-mono uppercase tracking-widest text-white/30">Lights</div>
+        <span className="text-[10px] font-mono text-white/50">{lights.filter(l => l.enabled).length} / {lights.length}</span>
+      </div>
+
+      <div className="grid grid-cols-4 gap-1">
+        {LIGHT_KINDS.map(kind => (
+          <button
+            key={kind}
+            onClick={() => add(kind)}
+            className="py-1 border border-white/20 hover:border-acid hover:text-acid text-[9px] font-mono uppercase tracking-widest text-gray-400 transition-colors"
+          >
+            + {KIND_LABELS[kind]}
+          </button>
+        ))}
+      </div>
+
+      <div className="space-y-1">
+        {lights.map(light => (
+          <div key={light.id} className={`border transition-colors ${selected === light.id ? 'border-white/30' : 'border-white/10'}`}>
+            <div className="flex items-center gap-2 px-2 py-1.5">
+              <input type="checkbox" checked={light.enabled} onChange={(e) => update(light.id, { enabled: e.target.checked })} className="accent-acid cursor-pointer" title="Enabled" />
+              <span className="w-2 h-2 shrink-0" style={{ backgroundColor: rgbToHex(light.color) }} />
+              <button
+                onClick={() => setSelected(selected === light.id ? null : light.id)}
+                className={`flex-1 min-w-0 truncate text-left text-xs font-mono uppercase tracking-widest transition-colors hover:text-acid ${light.enabled ? 'text-gray-400' : 'text-gray-600 line-through'}`}
+              >
+                {light.label || KIND_LABELS[light.kind]}
+              </button>
+              {light.enabled && isVisibleEmitter(light) && !visible.has(light.id) && (
+                <span className="text-[9px] font-mono uppercase text-yellow-500" title={`Only the first ${MAX_VISIBLE_EMITTERS} area / neon lights are visible to the camera; this one still lights the scene`}>Unseen</span>
+              )}
+              <span className="text-[9px] font-mono uppercase text-white/30">{KIND_LABELS[light.kind]}</span>
+              <button onClick={() => remove(light.id)} className="text-xs font-mono text-white/30 hover:text-red-500 transition-colors" title="Remove">×</button>
+            </div>
+            {selected === light.id && <LightFields light={light} onChange={patch => update(light.id, patch)} />}
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+};
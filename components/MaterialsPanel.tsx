@@ -0,0 +1,108 @@
+import React, { useState } from 'react';
+import { SceneMaterial } from '../types';
+import { NumberField, Vec3Field, fieldLabel, numberInput } from './LightsPanel';
+import { hexToRgb, rgbToHex } from './ShaderParams';
+
+// --- Material Table Editor ---
+// Edits the scene's material table; rendered in the Scene panel. Primitives refer to
+// rows by index, so removing a row shifts the ones after it.
+
+const NEW_MATERIAL: SceneMaterial = { label: '', albedo: [0.5, 0.5, 0.5], roughness: 0.5, metallic: 0, emission: [0, 0, 0], ior: 1.5, wetness: 0, textured: false };
+
+const Slider: React.FC<{ label: string; value: number; min?: number; max?: number; onChange: (v: number) => void }> = ({ label, value, min = 0, max = 1, onChange }) => (
+  <div className="space-y-1">
+    <div className="flex justify-between items-baseline">
+      <div className={fieldLabel}>{label}</div>
+      <span className="text-[10px] font-mono text-white">{value.toFixed(2)}</span>
+    </div>
+    <input
+      type="range"
+      min={min}
+      max={max}
+      step={(max - min) / 100}
+      value={value}
+      onChange={(e) => onChange(parseFloat(e.target.value))}
+      className="w-full accent-acid cursor-pointer"
+    />
+  </div>
+);
+
+const MaterialFields: React.FC<{ material: SceneMaterial; onChange: (patch: Partial<SceneMaterial>) => void }> = ({ material, onChange }) => (
+  <div className="px-2 pb-3 pt-1 space-y-3 border-t border-white/10">
+    <div className="space-y-1">
+      <div className={fieldLabel}>Label</div>
+      <input type="text" value={material.label} onChange={(e) => onChange({ label: e.target.value })} className={numberInput} />
+    </div>
+
+    <div className="space-y-1">
+      <div className={fieldLabel}>Albedo</div>
+      <div className="flex gap-2 items-center">
+        <div className="relative w-full h-6 border border-white/20 hover:border-white transition-colors cursor-pointer">
+          <input
+            type="color"
+            value={rgbToHex(material.albedo)}
+            onChange={(e) => onChange({ albedo: hexToRgb(e.target.value) })}
+            className="opacity-0 absolute inset-0 w-full h-full cursor-pointer z-10"
+          />
+          <div className="absolute inset-0.5" style={{ backgroundColor: rgbToHex(material.albedo) }}></div>
+        </div>
+        <div className="font-mono text-[10px] text-white/50">{rgbToHex(material.albedo)}</div>
+      </div>
+    </div>
+
+    <Slider label="Roughness" value={material.roughness} onChange={roughness => onChange({ roughness })} />
+    <Slider label="Metallic" value={material.metallic} onChange={metallic => onChange({ metallic })} />
+    <Slider label="IOR" value={material.ior} min={1} max={3} onChange={ior => onChange({ ior })} />
+    <Slider label="Wetness" value={material.wetness} onChange={wetness => onChange({ wetness })} />
+    <Vec3Field label="Emission" value={material.emission} onChange={emission => onChange({ emission: emission.map(c => Math.max(0, c)) as SceneMaterial['emission'] })} />
+
+    <label className="flex items-center gap-2 cursor-pointer">
+      <input type="checkbox" checked={material.textured} onChange={(e) => onChange({ textured: e.target.checked })} className="accent-acid cursor-pointer" />
+      <span className={fieldLabel}>Textured (iChannel0 / 1)</span>
+    </label>
+  </div>
+);
+
+interface MaterialsEditorProps {
+  materials: SceneMaterial[];
+  setMaterials: React.Dispatch<React.SetStateAction<SceneMaterial[]>>;
+}
+
+export const MaterialsEditor: React.FC<MaterialsEditorProps> = ({ materials, setMaterials }) => {
+  const [selected, setSelected] = useState<number | null>(null);
+
+  const update = (index: number, patch: Partial<SceneMaterial>) => setMaterials(prev => prev.map((m, i) => (i === index ? { ...m, ...patch } : m)));
+  const remove = (index: number) => setMaterials(prev => prev.filter((_, i) => i !== index));
+  const add = () => {
+    setMaterials(prev => [...prev, { ...NEW_MATERIAL, label: `Material ${prev.length + 1}` }]);
+    setSelected(materials.length);
+  };
+
+  return (
+    <div className="shrink-0 space-y-4">
+      <div className="flex justify-between items-baseline">
+        <div className="text-[10px] font-mono uppercase tracking-widest text-white/30">Materials</div>
+        <button onClick={add} className="text-[9px] font-mono uppercase tracking-widest text-gray-400 hover:text-acid transition-colors">+ Material</button>
+      </div>
+
+      <div className="space-y-1">
+        {materials.map((material, i) => (
+          <div key={i} className={`border transition-colors ${selected === i ? 'border-white/30' : 'border-white/10'}`}>
+            <div className="flex items-center gap-2 px-2 py-1.5">
+              <span className="w-2 h-2 shrink-0" style={{ backgroundColor: rgbToHex(material.albedo) }} />
+              <button
+                onClick={() => setSelected(selected === i ? null : i)}
+                className="flex-1 min-w-0 truncate text-left text-xs font-mono uppercase tracking-widest text-gray-400 transition-colors hover:text-acid"
+              >
+                {material.label || `Material ${i + 1}`}
+              </button>
+              <span className="text-[9px] font-mono uppercase text-white/30">#{i}</span>
+              {materials.length > 1 && <button onClick={() => remove(i)} className="text-xs font-mono text-white/30 hover:text-red-500 transition-colors" title="Remove">×</button>}
+            </div>
+            {selected === i && <MaterialFields material={material} onChange={patch => update(i, patch)} />}
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,87 @@
+import React, { useState } from 'react';
+import { SessionPreset } from '../types';
+import { fieldLabel, numberInput } from './LightsPanel';
+
+// --- Presets ---
+// Named snapshots of the session (shader files, scene, params, lights, camera, integrator
+// and denoiser), kept in localStorage by utils/sessionStore.ts. The live session autosaves
+// on its own; presets are what the user chose to keep.
+
+interface PresetsPanelProps {
+  isOpen: boolean;
+  onClose: () => void;
+  presets: SessionPreset[];
+  error: string | null;
+  onSave: (name: string) => void; // Replaces a preset with the same name
+  onLoad: (preset: SessionPreset) => void;
+  onDelete: (preset: SessionPreset) => void;
+  onExport: (preset: SessionPreset) => void;
+  onImport: () => void;
+  onRestoreDefaults: () => void;
+}
+
+export const PresetsPanel: React.FC<PresetsPanelProps> = ({ isOpen, onClose, presets, error, onSave, onLoad, onDelete, onExport, onImport, onRestoreDefaults }) => {
+  const [name, setName] = useState('');
+  const trimmed = name.trim();
+  const replaces = presets.some(p => p.name === trimmed);
+
+  const save = () => {
+    if (!trimmed) return;
+    onSave(trimmed);
+    setName('');
+  };
+
+  const button = 'flex-1 py-1 border border-white/20 hover:border-acid hover:text-acid text-[9px] font-mono uppercase tracking-widest text-gray-400 transition-colors';
+  const rowButton = 'text-[9px] font-mono uppercase tracking-widest text-white/30 hover:text-acid transition-colors';
+
+  return (
+    <div className={`fixed inset-y-0 left-0 top-10 w-[380px] bg-black/90 backdrop-blur-xl shadow-2xl transform transition-transform duration-500 ease-[cubic-bezier(0.16,1,0.3,1)] z-40 flex flex-col border-r border-white/10 ${isOpen ? 'translate-x-0' : '-translate-x-full'}`}>
+      <div className="flex items-center justify-between p-4 border-b border-white/5">
+        <div className="flex items-center gap-3">
+          <div className="w-2 h-2 bg-acid animate-pulse"></div>
+          <span className="font-mono text-xs text-gray-400 uppercase tracking-widest">Presets</span>
+        </div>
+        <button onClick={onClose} className="text-gray-500 hover:text-white transition-colors">
+          <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" /></svg>
+        </button>
+      </div>
+
+      <div className="p-4 space-y-2 border-b border-white/5">
+        <div className={fieldLabel}>Save Current Session</div>
+        <div className="flex gap-2">
+          <input
+            type="text"
+            value={name}
+            placeholder="Preset name"
+            onChange={(e) => setName(e.target.value)}
+            onKeyDown={(e) => { if (e.key === 'Enter') save(); }}
+            className={numberInput}
+          />
+          <button onClick={save} disabled={!trimmed} className="px-3 border border-white/20 hover:border-acid hover:text-acid disabled:opacity-30 disabled:pointer-events-none text-[9px] font-mono uppercase tracking-widest text-gray-400 transition-colors">
+            {replaces ? 'Replace' : 'Save'}
+          </button>
+        </div>
+        <div className="flex gap-1 pt-2">
+          <button onClick={onImport} className={button}>Import...</button>
+          <button onClick={onRestoreDefaults} className={button}>Restore Defaults</button>
+        </div>
+      </div>
+
+      {error && <div className="mx-4 mt-3 p-2 border border-red-900/50 bg-red-900/20 text-red-500 font-mono text-[10px] break-words whitespace-pre-line">{error}</div>}
+
+      <div className="flex-1 overflow-y-auto custom-scrollbar p-4 space-y-1">
+        {presets.length === 0 && <div className="text-[10px] font-mono text-white/30">No saved presets.</div>}
+        {presets.map(preset => (
+          <div key={preset.name} className="flex items-center gap-3 px-2 py-1.5 border border-white/10">
+            <button onClick={() => onLoad(preset)} className="flex-1 min-w-0 text-left transition-colors group" title="Load">
+              <div className="truncate text-xs font-mono uppercase tracking-widest text-gray-400 group-hover:text-acid">{preset.name}</div>
+              <div className="text-[9px] font-mono text-white/30">{new Date(preset.savedAt).toLocaleString()}</div>
+            </button>
+            <button onClick={() => onExport(preset)} className={rowButton}>Export</button>
+            <button onClick={() => onDelete(preset)} className="text-xs font-mono text-white/30 hover:text-red-500 transition-colors" title="Delete">×</button>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+};
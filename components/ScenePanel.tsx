@@ -0,0 +1,254 @@
+import React, { useState } from 'react';
+import { SceneDescription, SceneMaterial, SceneNode } from '../types';
+import { CSG_OPS, DEFORM_KINDS, SDF_SHAPES, WRAPPER_TYPES, WrapperType, createPrimitive, wrapNode } from '../utils/sceneCompiler';
+import { NumberField, Vec3Field, fieldLabel, numberInput } from './LightsPanel';
+import { MaterialsEditor } from './MaterialsPanel';
+
+// --- Scene Builder ---
+// Edits the scene description as a tree: wrap nodes in CSG, transforms, domain repetition
+// and deformations, add primitives to CSG groups, and edit the material table. Every
+// change recompiles map() (debounced in App).
+
+type Path = number[]; // Child indices from the root
+
+const childrenOf = (node: SceneNode): SceneNode[] =>
+  node.type === 'csg' ? node.children : node.type === 'primitive' ? [] : [node.child];
+
+const withChildren = (node: SceneNode, children: SceneNode[]): SceneNode =>
+  node.type === 'csg' ? { ...node, children } : node.type === 'primitive' ? node : { ...node, child: children[0] };
+
+const updateAt = (node: SceneNode, path: Path, fn: (n: SceneNode) => SceneNode): SceneNode =>
+  path.length === 0 ? fn(node) : withChildren(node, childrenOf(node).map((c, i) => (i === path[0] ? updateAt(c, path.slice(1), fn) : c)));
+
+const SIZE_LABELS: Record<string, string[]> = {
+  sphere: ['Radius'],
+  box: ['Half X', 'Half Y', 'Half Z'],
+  plane: [],
+  capsule: ['Radius', 'Half Height'],
+  cylinder: ['Radius', 'Half Height'],
+  torus: ['Major', 'Minor'],
+};
+
+const nodeTitle = (node: SceneNode): string => {
+  switch (node.type) {
+    case 'primitive': return node.shape;
+    case 'csg': return `${node.op}${node.smooth > 0 ? ' (smooth)' : ''}`;
+    case 'deform': return node.deform;
+    default: return node.type;
+  }
+};
+
+const selectInput = 'bg-black border border-white/20 focus:border-acid outline-none px-1 py-0.5 text-[10px] font-mono uppercase text-gray-400';
+
+const Select = <T extends string>({ value, options, onChange, placeholder }: { value?: T; options: readonly T[]; onChange: (v: T) => void; placeholder?: string }) => (
+  <select value={value ?? ''} onChange={(e) => e.target.value && onChange(e.target.value as T)} className={selectInput}>
+    {placeholder && <option value="">{placeholder}</option>}
+    {options.map(o => <option key={o} value={o}>{o}</option>)}
+  </select>
+);
+
+const Field: React.FC<{ label: string; children: React.ReactNode }> = ({ label, children }) => (
+  <div className="space-y-1">
+    <div className={fieldLabel}>{label}</div>
+    {children}
+  </div>
+);
+
+const NodeFields: React.FC<{ node: SceneNode; materials: SceneMaterial[]; onChange: (node: SceneNode) => void }> = ({ node, materials, onChange }) => {
+  switch (node.type) {
+    case 'primitive':
+      return (
+        <>
+          <Field label="Shape"><Select value={node.shape} options={SDF_SHAPES} onChange={shape => onChange({ ...node, shape })} /></Field>
+          {SIZE_LABELS[node.shape].length > 0 && (
+            <div className="grid grid-cols-3 gap-1">
+              {SIZE_LABELS[node.shape].map((label, i) => (
+                <Field key={label} label={label}>
+                  <NumberField value={node.size[i]} min={0.01} onChange={v => onChange({ ...node, size: node.size.map((old, j) => (j === i ? v : old)) as [number, number, number] })} />
+                </Field>
+              ))}
+            </div>
+          )}
+          <Field label="Material">
+            <select value={node.material} onChange={(e) => onChange({ ...node, material: Number(e.target.value) })} className={selectInput}>
+              {materials.map((m, i) => <option key={i} value={i}>#{i} {m.label}</option>)}
+              {node.material >= materials.length && <option value={node.material}>#{node.material} (missing)</option>}
+            </select>
+          </Field>
+        </>
+      );
+    case 'csg':
+      return (
+        <div className="grid grid-cols-2 gap-2">
+          <Field label="Operation"><Select value={node.op} options={CSG_OPS} onChange={op => onChange({ ...node, op })} /></Field>
+          <Field label="Smooth"><NumberField value={node.smooth} min={0} onChange={smooth => onChange({ ...node, smooth })} /></Field>
+        </div>
+      );
+    case 'transform':
+      return (
+        <>
+          <Vec3Field label="Position" value={node.position} onChange={position => onChange({ ...node, position })} />
+          <Vec3Field label="Rotation (deg)" value={node.rotation} onChange={rotation => onChange({ ...node, rotation })} />
+          <Field label="Scale"><NumberField value={node.scale} min={0.01} onChange={scale => onChange({ ...node, scale })} /></Field>
+        </>
+      );
+    case 'repeat':
+      return (
+        <>
+          <Vec3Field label="Period (0 = off)" value={node.period} onChange={period => onChange({ ...node, period: period.map(v => Math.max(0, v)) as typeof period })} />
+          <Vec3Field label="Count (0 = infinite)" value={node.count} onChange={count => onChange({ ...node, count: count.map(v => Math.max(0, Math.round(v))) as typeof count })} />
+        </>
+      );
+    case 'mirror':
+      return (
+        <Field label="Axes">
+          <div className="flex gap-3">
+            {['X', 'Y', 'Z'].map((axis, i) => (
+              <label key={axis} className="flex items-center gap-1 cursor-pointer">
+                <input type="checkbox" checked={node.axes[i]} onChange={(e) => onChange({ ...node, axes: node.axes.map((old, j) => (j === i ? e.target.checked : old)) as typeof node.axes })} className="accent-acid cursor-pointer" />
+                <span className={fieldLabel}>{axis}</span>
+              </label>
+            ))}
+          </div>
+        </Field>
+      );
+    case 'deform':
+      return (
+        <>
+          <Field label="Deform"><Select value={node.deform} options={DEFORM_KINDS} onChange={deform => onChange({ ...node, deform })} /></Field>
+          <div className="grid grid-cols-2 gap-2">
+            <Field label="Amount"><NumberField value={node.amount} onChange={amount => onChange({ ...node, amount })} /></Field>
+            <Field label="Audio"><NumberField value={node.audio} onChange={audio => onChange({ ...node, audio })} /></Field>
+            {(node.deform === 'twist' || node.deform === 'displace') && (
+              <>
+                <Field label="Frequency"><NumberField value={node.frequency} min={0} onChange={frequency => onChange({ ...node, frequency })} /></Field>
+                <Field label="Speed"><NumberField value={node.speed} onChange={speed => onChange({ ...node, speed })} /></Field>
+              </>
+            )}
+          </div>
+        </>
+      );
+  }
+};
+
+interface NodeEditorProps {
+  node: SceneNode;
+  path: Path;
+  depth: number;
+  materials: SceneMaterial[];
+  selected: string | null;
+  setSelected: (key: string | null) => void;
+  onChange: (path: Path, fn: (n: SceneNode) => SceneNode) => void;
+  onRemove?: () => void; // Only CSG children can be removed
+}
+
+const NodeEditor: React.FC<NodeEditorProps> = ({ node, path, depth, materials, selected, setSelected, onChange, onRemove }) => {
+  const key = path.join('.');
+  const isSelected = selected === key;
+  const children = childrenOf(node);
+  const canUnwrap = node.type !== 'primitive' && children.length === 1;
+
+  return (
+    <div style={{ marginLeft: depth > 0 ? 10 : 0 }} className={depth > 0 ? 'border-l border-white/10 pl-1' : ''}>
+      <div className={`border transition-colors ${isSelected ? 'border-white/30' : 'border-transparent'}`}>
+        <div className="flex items-center gap-2 px-2 py-1">
+          <button
+            onClick={() => setSelected(isSelected ? null : key)}
+            className="flex-1 min-w-0 truncate text-left text-xs font-mono uppercase tracking-widest text-gray-400 transition-colors hover:text-acid"
+          >
+            {node.label || nodeTitle(node)}
+          </button>
+          <span className="text-[9px] font-mono uppercase text-white/30">{node.label ? nodeTitle(node) : ''}</span>
+          {canUnwrap && <button onClick={() => onChange(path, n => childrenOf(n)[0])} className="text-[9px] font-mono uppercase text-white/30 hover:text-acid transition-colors" title="Replace with its child">Unwrap</button>}
+          {onRemove && <button onClick={onRemove} className="text-xs font-mono text-white/30 hover:text-red-500 transition-colors" title="Remove">×</button>}
+        </div>
+
+        {isSelected && (
+          <div className="px-2 pb-3 pt-1 space-y-3 border-t border-white/10">
+            <Field label="Label">
+              <input type="text" value={node.label ?? ''} onChange={(e) => onChange(path, n => ({ ...n, label: e.target.value || undefined }))} className={numberInput} />
+            </Field>
+            <NodeFields node={node} materials={materials} onChange={next => onChange(path, () => next)} />
+            <div className="flex gap-2">
+              <Select<WrapperType> options={WRAPPER_TYPES} placeholder="Wrap in..." onChange={type => { onChange(path, n => wrapNode(type, n)); setSelected(key); }} />
+              {node.type === 'csg' && (
+                <Select options={SDF_SHAPES} placeholder="+ Shape..." onChange={shape => onChange(path, n => withChildren(n, [...childrenOf(n), createPrimitive(shape)]))} />
+              )}
+            </div>
+          </div>
+        )}
+      </div>
+
+      {children.map((child, i) => (
+        <NodeEditor
+          key={i}
+          node={child}
+          path={[...path, i]}
+          depth={depth + 1}
+          materials={materials}
+          selected={selected}
+          setSelected={setSelected}
+          onChange={onChange}
+          onRemove={node.type === 'csg' && children.length > 1 ? () => { onChange(path, n => withChildren(n, childrenOf(n).filter((_, j) => j !== i))); setSelected(null); } : undefined}
+        />
+      ))}
+    </div>
+  );
+};
+
+interface ScenePanelProps {
+  isOpen: boolean;
+  onClose: () => void;
+  scene: SceneDescription;
+  setScene: React.Dispatch<React.SetStateAction<SceneDescription>>;
+  error: string | null; // Last compile or load failure
+  onLoad: () => void;
+  onSave: () => void;
+  onReset: () => void;
+}
+
+export const ScenePanel: React.FC<ScenePanelProps> = ({ isOpen, onClose, scene, setScene, error, onLoad, onSave, onReset }) => {
+  const [selected, setSelected] = useState<string | null>(null);
+
+  const updateNode = (path: Path, fn: (n: SceneNode) => SceneNode) => setScene(prev => ({ ...prev, root: updateAt(prev.root, path, fn) }));
+  const setMaterials: React.Dispatch<React.SetStateAction<SceneMaterial[]>> = action =>
+    setScene(prev => ({ ...prev, materials: typeof action === 'function' ? action(prev.materials) : action }));
+
+  const button = 'flex-1 py-1 border border-white/20 hover:border-acid hover:text-acid text-[9px] font-mono uppercase tracking-widest text-gray-400 transition-colors';
+
+  return (
+    <div className={`fixed inset-y-0 left-0 top-10 w-[380px] bg-black/90 backdrop-blur-xl shadow-2xl transform transition-transform duration-500 ease-[cubic-bezier(0.16,1,0.3,1)] z-40 flex flex-col border-r border-white/10 ${isOpen ? 'translate-x-0' : '-translate-x-full'}`}>
+      <div className="flex items-center justify-between p-4 border-b border-white/5">
+        <div className="flex items-center gap-3 min-w-0">
+          <div className="w-2 h-2 bg-acid animate-pulse shrink-0"></div>
+          <input
+            type="text"
+            value={scene.name ?? ''}
+            placeholder="Untitled"
+            onChange={(e) => setScene(prev => ({ ...prev, name: e.target.value || undefined }))}
+            className="min-w-0 bg-transparent outline-none font-mono text-xs text-gray-400 uppercase tracking-widest focus:text-white"
+          />
+        </div>
+        <button onClick={onClose} className="text-gray-500 hover:text-white transition-colors">
+          <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" /></svg>
+        </button>
+      </div>
+
+      <div className="flex gap-1 px-4 pt-4">
+        <button onClick={onLoad} className={button}>Load...</button>
+        <button onClick={onSave} className={button}>Save</button>
+        <button onClick={onReset} className={button}>Default</button>
+      </div>
+
+      {error && <div className="mx-4 mt-3 p-2 border border-red-900/50 bg-red-900/20 text-red-500 font-mono text-[10px] break-words">{error}</div>}
+
+      <div className="flex-1 overflow-y-auto custom-scrollbar p-4 space-y-8">
+        <div className="space-y-2">
+          <div className="text-[10px] font-mono uppercase tracking-widest text-white/30">SDF Tree</div>
+          <NodeEditor node={scene.root} path={[]} depth={0} materials={scene.materials} selected={selected} setSelected={setSelected} onChange={updateNode} />
+        </div>
+        <MaterialsEditor materials={scene.materials} setMaterials={setMaterials} />
+      </div>
+    </div>
+  );
+};
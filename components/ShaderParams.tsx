@@ -1,30 +1,63 @@
 import React, { useState } from 'react';
-import { ShaderParam, UniformLayout } from '../types';
+import { ShaderParam, UniformField, UniformLayout } from '../types';
+import { UNIFORM_FOOTER, UNIFORM_HEADER } from '../utils/uniformLayout';
 
 // --- Logic ---
-export const calculateUniformLayout = (params: ShaderParam[], startOffset: number = 0): UniformLayout => {
-  let currentOffset = startOffset;
-  const offsetMap: Record<string, number> = {};
 
-  params.forEach(param => {
-    let alignment = 4;
-    let size = 4;
+// WGSL host-shareable layout for each param type (vec3f: align 16, size 12)
+const PARAM_WGSL_TYPES: Record<ShaderParam['type'], Omit<UniformField, 'name'>> = {
+  float: { type: 'f32', align: 4, size: 4 },
+  color: { type: 'vec3f', align: 16, size: 12 },
+  vec3: { type: 'vec3f', align: 16, size: 12 },
+};
 
-    if (param.type === 'color' || param.type === 'vec3') {
-      alignment = 16;
-      size = 16;
-    }
+export const calculateUniformLayout = (
+  params: ShaderParam[],
+  header: UniformField[] = UNIFORM_HEADER,
+  footer: UniformField[] = UNIFORM_FOOTER
+): UniformLayout => {
+  const paramFields: UniformField[] = params.map(p => ({ name: p.id, ...PARAM_WGSL_TYPES[p.type], doc: p.label }));
+  const fields = [...header, ...paramFields, ...footer];
 
-    const padding = (alignment - (currentOffset % alignment)) % alignment;
+  let currentOffset = 0;
+  let maxAlign = 4;
+  const offsetMap: Record<string, number> = {};
+  const placed: UniformLayout['fields'] = [];
+
+  fields.forEach(field => {
+    const padding = (field.align - (currentOffset % field.align)) % field.align;
     currentOffset += padding;
-    offsetMap[param.id] = currentOffset;
-    currentOffset += size;
+    offsetMap[field.name] = currentOffset;
+    placed.push({ ...field, offset: currentOffset });
+    currentOffset += field.size;
+    maxAlign = Math.max(maxAlign, field.align);
   });
 
-  const totalPadding = (16 - (currentOffset % 16)) % 16;
+  // Struct size rounds up to the largest member alignment
+  const totalPadding = (maxAlign - (currentOffset % maxAlign)) % maxAlign;
   const totalSize = currentOffset + totalPadding;
 
-  return { size: totalSize, offsetMap };
+  return { size: totalSize, offsetMap, fields: placed };
+};
+
+// WGSL declaration matching the layout above. WGSL applies the same alignment
+// rules, so no explicit padding members are needed.
+export const generateUniformStruct = (layout: UniformLayout): string => {
+  const lines = layout.fields.map(f => `  ${f.name}: ${f.type}, // @offset(${f.offset})${f.doc ? ` ${f.doc}` : ''}`);
+  return [
+    '// --- Generated from the ShaderParam list. Do not declare Uniforms by hand. ---',
+    'struct Uniforms {',
+    ...lines,
+    '};',
+    '',
+  ].join('\n');
+};
+
+export const writeUniform = (data: Float32Array, layout: UniformLayout, name: string, value: number | ArrayLike<number>) => {
+  const offset = layout.offsetMap[name];
+  if (offset === undefined) return;
+  if (typeof value === 'number') data[offset / 4] = value;
+  else data.set(value, offset / 4);
 };
 
 export const writeParamsToBuffer = (
@@ -33,6 +66,7 @@ export const writeParamsToBuffer = (
   layout: UniformLayout
 ) => {
   params.forEach(param => {
+    if (layout.offsetMap[param.id] === undefined) return; // Not declared by the compiled shader
     const floatOffset = layout.offsetMap[param.id] / 4;
     if (param.type === 'float') {
       data[floatOffset] = param.value;
@@ -44,14 +78,30 @@ export const writeParamsToBuffer = (
   });
 };
 
+// Color picker <-> RGB 0-1
+export const rgbToHex = (rgb: [number, number, number]) => {
+  const toHex = (c: number) => {
+    const hex = Math.round(Math.min(1, Math.max(0, c)) * 255).toString(16);
+    return hex.length === 1 ? '0' + hex : hex;
+  };
+  return `#${toHex(rgb[0])}${toHex(rgb[1])}${toHex(rgb[2])}`;
+};
+
+export const hexToRgb = (hex: string): [number, number, number] => [
+  parseInt(hex.slice(1, 3), 16) / 255,
+  parseInt(hex.slice(3, 5), 16) / 255,
+  parseInt(hex.slice(5, 7), 16) / 255,
+];
+
 // --- UI Component ---
 interface ParamsControlPanelProps {
   params: ShaderParam[];
   setParams: React.Dispatch<React.SetStateAction<ShaderParam[]>>;
   description?: string;
+  children?: React.ReactNode; // Extra sections below the params (e.g. the light list)
 }
 
-export const ParamsControlPanel: React.FC<ParamsControlPanelProps> = ({ params, setParams, description }) => {
+export const ParamsControlPanel: React.FC<ParamsControlPanelProps> = ({ params, setParams, description, children }) => {
   const [isOpen, setIsOpen] = useState(true);
 
   const handleFloatChange = (id: string, newVal: number) => {
@@ -64,10 +114,7 @@ export const ParamsControlPanel: React.FC<ParamsControlPanelProps> = ({ params,
   };
 
   const handleColorChange = (id: string, hex: string) => {
-    const r = parseInt(hex.slice(1, 3), 16) / 255;
-    const g = parseInt(hex.slice(3, 5), 16) / 255;
-    const b = parseInt(hex.slice(5, 7), 16) / 255;
-    const newColor: [number, number, number] = [r, g, b];
+    const newColor = hexToRgb(hex);
 
     setParams(prev => prev.map(p => {
       if (p.id === id && (p.type === 'color' || p.type === 'vec3')) {
@@ -77,14 +124,6 @@ export const ParamsControlPanel: React.FC<ParamsControlPanelProps> = ({ params,
     }));
   };
 
-  const rgbToHex = (rgb: [number, number, number]) => {
-    const toHex = (c: number) => {
-      const hex = Math.round(c * 255).toString(16);
-      return hex.length === 1 ? '0' + hex : hex;
-    };
-    return `#${toHex(rgb[0])}${toHex(rgb[1])}${toHex(rgb[2])}`;
-  };
-
   return (
     <div className={`fixed right-0 top-1/2 -translate-y-1/2 z-40 transition-transform duration-500 ease-[cubic-bezier(0.16,1,0.3,1)] flex items-start ${isOpen ? 'translate-x-0' : 'translate-x-[calc(100%-40px)]'}`}>
         
@@ -179,6 +218,8 @@ export const ParamsControlPanel: React.FC<ParamsControlPanelProps> = ({ params,
                 </div>
                 ))}
             </div>
+
+            {children}
         </div>
     </div>
   );
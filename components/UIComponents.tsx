@@ -1,8 +1,15 @@
 
 
-import React, { useState, useEffect, useRef } from 'react';
-import { ShaderError, VideoConfig, ShotType } from '../types';
-import Editor, { useMonaco, Monaco } from '@monaco-editor/react';
+import React, { useState, useEffect, useMemo, useRef } from 'react';
+import { DenoiserSettings, ParamTimeline, ShaderDiagnostic, ShaderError, ShaderFile, SourceRange, VideoConfig, ShotType, ExportFormat } from '../types';
+import Editor, { useMonaco, Monaco, OnMount } from '@monaco-editor/react';
+import { calculateUniformLayout } from './ShaderParams';
+import { parseShaderParams } from '../utils/paramAnnotations';
+import { preprocessShader } from '../utils/shaderPreprocessor';
+import { WGSL_LANGUAGE_ID, registerWgslLanguage, setWgslMarkers, setWgslUniformFields } from '../utils/wgslLanguage';
+import { parseTimeline, serializeTimeline } from '../utils/paramTimeline';
+import { downloadBlob } from '../utils/frameSinks';
+import { EncoderProbe, probeEncoderBackends } from '../utils/encoders';
 
 // --- Types ---
 export interface MenuItem {
@@ -20,15 +27,31 @@ export interface MenuGroup {
 
 interface ErrorDisplayProps {
   error: ShaderError | null;
+  diagnostics: ShaderDiagnostic[]; // Listed when the build produced any
+  onNavigate: (diagnostic: ShaderDiagnostic) => void; // Jump to a diagnostic's source range
   onClose: () => void;
 }
 
-export const ErrorDisplay: React.FC<ErrorDisplayProps> = ({ error, onClose }) => {
+const diagnosticLocation = (d: ShaderDiagnostic) => [
+  d.pass && `${d.pass}${d.entryPoint ? ` (${d.entryPoint})` : ''}`,
+  d.range && `${d.range.file ? `${d.range.file}:` : 'L'}${d.range.startLine}:${d.range.startColumn}`,
+].filter(Boolean).join(' ');
+
+const diagnosticColors = { error: 'text-red-500', warning: 'text-yellow-500', info: 'text-white/40' };
+
+export const ErrorDisplay: React.FC<ErrorDisplayProps> = ({ error, diagnostics, onNavigate, onClose }) => {
   const [copied, setCopied] = useState(false);
+  const [selected, setSelected] = useState(0);
+  useEffect(() => { setSelected(0); }, [diagnostics]);
   if (!error) return null;
 
+  const current = diagnostics[Math.min(selected, diagnostics.length - 1)];
+  const step = (delta: number) => setSelected(i => (i + delta + diagnostics.length) % diagnostics.length);
+
   const handleCopy = () => {
-    const text = `${error.type.toUpperCase()} ERROR:\n${error.message}\n${error.lineNum ? `Line: ${error.lineNum}, Pos: ${error.linePos}` : ''}`;
+    const text = diagnostics.length > 0
+      ? diagnostics.map(d => `${d.severity.toUpperCase()} [${d.stage}] ${diagnosticLocation(d)}\n${d.message}`).join('\n\n')
+      : `${error.type.toUpperCase()} ERROR:\n${error.message}\n${error.lineNum ? `${error.file ? `File: ${error.file}, ` : ''}Line: ${error.lineNum}, Pos: ${error.linePos}` : ''}`;
     navigator.clipboard.writeText(text).then(() => {
         setCopied(true);
         setTimeout(() => setCopied(false), 2000);
@@ -51,13 +74,47 @@ export const ErrorDisplay: React.FC<ErrorDisplayProps> = ({ error, onClose }) =>
                     <svg className="w-6 h-6" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={1} d="M6 18L18 6M6 6l12 12" /></svg>
                 </button>
             </div>
-            <div className="bg-red-950/10 border border-red-900/30 p-4 font-mono text-xs text-red-400 overflow-x-auto whitespace-pre-wrap max-h-64 custom-scrollbar mb-6">
-                {error.message}
-            </div>
+            {current ? (
+                <>
+                    <div className="max-h-40 overflow-y-auto custom-scrollbar border border-red-900/30 mb-3">
+                        {diagnostics.map((d, i) => (
+                            <button
+                                key={i}
+                                onClick={() => setSelected(i)}
+                                onDoubleClick={() => d.range && onNavigate(d)}
+                                className={`w-full flex items-baseline gap-3 px-3 py-1.5 text-left font-mono text-[10px] uppercase tracking-widest transition-colors ${d === current ? 'bg-red-950/40' : 'hover:bg-red-950/20'}`}
+                            >
+                                <span className={`shrink-0 w-14 ${diagnosticColors[d.severity]}`}>{d.severity}</span>
+                                <span className="shrink-0 w-16 text-white/40">{d.stage}</span>
+                                <span className="flex-1 min-w-0 truncate normal-case tracking-normal text-red-400">{d.message}</span>
+                                <span className="shrink-0 text-white/40">{diagnosticLocation(d)}</span>
+                            </button>
+                        ))}
+                    </div>
+                    <div className="bg-red-950/10 border border-red-900/30 p-4 font-mono text-xs text-red-400 overflow-x-auto whitespace-pre-wrap max-h-40 custom-scrollbar mb-6">
+                        {current.message}
+                    </div>
+                </>
+            ) : (
+                <div className="bg-red-950/10 border border-red-900/30 p-4 font-mono text-xs text-red-400 overflow-x-auto whitespace-pre-wrap max-h-64 custom-scrollbar mb-6">
+                    {error.message}
+                </div>
+            )}
             <div className="flex justify-between items-center">
-                 {error.lineNum ? (
+                 {current ? (
+                     <div className="flex items-center gap-2 text-xs font-mono text-red-500">
+                         <button onClick={() => step(-1)} className="px-2 py-1 border border-red-900 hover:bg-red-900/20 transition-colors">&lt;</button>
+                         <span className="bg-red-950/30 px-2 py-1">{selected + 1} / {diagnostics.length}</span>
+                         <button onClick={() => step(1)} className="px-2 py-1 border border-red-900 hover:bg-red-900/20 transition-colors">&gt;</button>
+                         {current.range && (
+                             <button onClick={() => onNavigate(current)} className="px-2 py-1 uppercase hover:text-white transition-colors">
+                                 [ GO TO {current.range.file ? `${current.range.file} ` : ''}LINE {current.range.startLine} : COL {current.range.startColumn} ]
+                             </button>
+                         )}
+                     </div>
+                 ) : error.lineNum ? (
                      <div className="text-xs font-mono text-red-500 bg-red-950/30 px-2 py-1">
-                         AT LINE {error.lineNum} : COL {error.linePos}
+                         AT {error.file ? `${error.file} ` : ''}LINE {error.lineNum} : COL {error.linePos}
                      </div>
                  ) : <div></div>}
                  
@@ -75,21 +132,64 @@ interface VideoExportOverlayProps {
   isOpen: boolean;
   onClose: () => void;
   onStartRecord: (config: VideoConfig) => void;
+  getAutoTimeline?: (duration: number) => ParamTimeline | undefined; // Saved as a starting point when no timeline is loaded
 }
 
-export const VideoExportOverlay: React.FC<VideoExportOverlayProps> = ({ isOpen, onClose, onStartRecord }) => {
+export const VideoExportOverlay: React.FC<VideoExportOverlayProps> = ({ isOpen, onClose, onStartRecord, getAutoTimeline }) => {
     const [config, setConfig] = useState<VideoConfig>({
         duration: 5,
         fps: 60,
         bitrate: 25,
+        subframes: 4,
         shotType: 'orbit',
         orchestrate: false,
         postProcess: { grain: 0.1, aberration: 0.2 },
-        format: 'webm'
+        format: 'mp4'
     });
+    const [timelineError, setTimelineError] = useState<string | null>(null);
+    const [encoderProbes, setEncoderProbes] = useState<EncoderProbe[]>([]);
+    const timelineInputRef = useRef<HTMLInputElement>(null);
+
+    // Check which encoder backends this browser supports for the current settings
+    useEffect(() => {
+        if (!isOpen) return;
+        let stale = false;
+        probeEncoderBackends({ width: 1920, height: 1080, fps: config.fps, frameCount: config.duration * config.fps, bitrate: config.bitrate })
+            .then(probes => { if (!stale) setEncoderProbes(probes); });
+        return () => { stale = true; };
+    }, [isOpen, config.fps, config.bitrate, config.duration]);
 
     if (!isOpen) return null;
 
+    const formats: { id: ExportFormat, label: string }[] = [
+        { id: 'mp4', label: 'MP4' },
+        { id: 'webm', label: 'WebM' },
+        { id: 'png', label: 'PNG Seq' },
+    ];
+    const chosenBackend = encoderProbes.find(p => p.supported && p.backend.format === config.format)
+        ?? encoderProbes.find(p => p.backend.format === 'png');
+
+    const handleTimelineFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+        const file = e.target.files?.[0];
+        e.target.value = '';
+        if (!file) return;
+        try {
+            const timeline = parseTimeline(await file.text());
+            setConfig(prev => ({ ...prev, orchestrate: true, timeline }));
+            setTimelineError(null);
+        } catch (err: any) {
+            setTimelineError(err?.message ?? String(err));
+        }
+    };
+
+    // The loaded timeline, or the auto one for the current params and duration to edit and load back
+    const saveTimeline = () => {
+        const timeline = config.timeline ?? getAutoTimeline?.(config.duration);
+        if (!timeline) return;
+        const name = (timeline.name ?? 'timeline').replace(/[^a-z0-9-_]+/gi, '_').toLowerCase();
+        downloadBlob(new Blob([serializeTimeline(timeline)], { type: 'application/json' }), `${name}.timeline.json`);
+    };
+
     const shotTypes: { id: ShotType, label: string }[] = [
         { id: 'orbit', label: 'Classic Orbit' },
         { id: 'sweep', label: 'Low Sweep' },
@@ -142,6 +242,36 @@ export const VideoExportOverlay: React.FC<VideoExportOverlayProps> = ({ isOpen,
                             </div>
                         </div>
 
+                        <div className="space-y-1">
+                            <label className="text-xs font-mono uppercase text-gray-400">Format</label>
+                            <div className="flex gap-2">
+                                {formats.map(f => {
+                                    const available = encoderProbes.length === 0 || encoderProbes.some(p => p.supported && p.backend.format === f.id);
+                                    return (
+                                        <button key={f.id} onClick={() => setConfig({...config, format: f.id})} className={`flex-1 py-2 font-mono text-xs border ${config.format === f.id ? 'bg-white text-black border-white' : 'border-white/20 text-white/50 hover:border-white'} ${available ? '' : 'line-through opacity-50'}`}>
+                                            {f.label}
+                                        </button>
+                                    );
+                                })}
+                            </div>
+                            {chosenBackend && (
+                                <div className={`font-mono text-[10px] ${chosenBackend.backend.format === config.format ? 'text-white/40' : 'text-red-500'}`}>
+                                    Encoder: {chosenBackend.backend.label}{chosenBackend.backend.format !== config.format ? ' (fallback)' : ''}
+                                </div>
+                            )}
+                        </div>
+
+                        <div className="space-y-1">
+                            <label className="text-xs font-mono uppercase text-gray-400">Accumulation (Sub-frames)</label>
+                            <div className="flex gap-2">
+                                {[1, 4, 8, 16].map(n => (
+                                    <button key={n} onClick={() => setConfig({...config, subframes: n})} className={`flex-1 py-2 font-mono text-xs border ${config.subframes === n ? 'bg-white text-black border-white' : 'border-white/20 text-white/50 hover:border-white'}`}>
+                                        {n}x
+                                    </button>
+                                ))}
+                            </div>
+                        </div>
+
                         <div className="space-y-1">
                             <label className="text-xs font-mono uppercase text-gray-400">Camera Movement</label>
                             <div className="grid grid-cols-2 gap-2">
@@ -152,6 +282,41 @@ export const VideoExportOverlay: React.FC<VideoExportOverlayProps> = ({ isOpen,
                                 ))}
                             </div>
                         </div>
+
+                        <div className="grid grid-cols-2 gap-4">
+                            <div className="space-y-1">
+                                <label className="text-xs font-mono uppercase text-gray-400">Export Grain</label>
+                                <input type="range" min="0" max="2" step="0.05" value={config.postProcess.grain} onChange={e => setConfig({...config, postProcess: {...config.postProcess, grain: Number(e.target.value)}})} />
+                                <div className="text-right font-mono text-xs">{config.postProcess.grain.toFixed(2)}</div>
+                            </div>
+                            <div className="space-y-1">
+                                <label className="text-xs font-mono uppercase text-gray-400">Export Aberration</label>
+                                <input type="range" min="0" max="1" step="0.01" value={config.postProcess.aberration} onChange={e => setConfig({...config, postProcess: {...config.postProcess, aberration: Number(e.target.value)}})} />
+                                <div className="text-right font-mono text-xs">{config.postProcess.aberration.toFixed(2)}</div>
+                            </div>
+                        </div>
+
+                        <div className="space-y-1">
+                            <label className="text-xs font-mono uppercase text-gray-400">Scene Orchestration</label>
+                            <input type="file" ref={timelineInputRef} className="hidden" accept="application/json,.json" onChange={handleTimelineFile} />
+                            <div className="flex gap-2">
+                                <button onClick={() => setConfig({...config, orchestrate: !config.orchestrate})} className={`flex-1 py-2 font-mono text-xs border ${config.orchestrate ? 'bg-white text-black border-white' : 'border-white/20 text-white/50 hover:border-white'}`}>
+                                    {config.orchestrate ? `ON // ${config.timeline?.name ?? (config.timeline ? 'custom' : 'auto')}` : 'OFF'}
+                                </button>
+                                <button onClick={() => timelineInputRef.current?.click()} className="px-3 py-2 font-mono text-xs border border-white/20 text-white/50 hover:border-white">
+                                    Load Timeline
+                                </button>
+                                <button onClick={saveTimeline} className="px-3 py-2 font-mono text-xs border border-white/20 text-white/50 hover:border-white">
+                                    Save Timeline
+                                </button>
+                                {config.timeline && (
+                                    <button onClick={() => setConfig({...config, timeline: undefined})} className="px-3 py-2 font-mono text-xs border border-white/20 text-white/50 hover:border-white">
+                                        Auto
+                                    </button>
+                                )}
+                            </div>
+                            {timelineError && <div className="font-mono text-[10px] text-red-500">{timelineError}</div>}
+                        </div>
                     </div>
 
                     <button onClick={() => onStartRecord(config)} className="w-full py-4 bg-white text-black font-bold uppercase tracking-widest hover:bg-acid transition-colors flex items-center justify-center gap-2">
@@ -188,15 +353,17 @@ export const VideoExportOverlay: React.FC<VideoExportOverlayProps> = ({ isOpen,
 interface RecordingIndicatorProps {
   isRecording: boolean;
   timeLeft: number;
+  backend?: string;
   onStop: () => void;
 }
 
-export const RecordingIndicator: React.FC<RecordingIndicatorProps> = ({ isRecording, timeLeft, onStop }) => {
+export const RecordingIndicator: React.FC<RecordingIndicatorProps> = ({ isRecording, timeLeft, backend, onStop }) => {
     if (!isRecording) return null;
     return (
         <div className="absolute top-6 left-1/2 -translate-x-1/2 bg-red-600 text-white px-6 py-2 flex items-center gap-4 shadow-[0_0_30px_rgba(220,38,38,0.5)] animate-pulse-fast z-50">
             <div className="w-2 h-2 bg-white rounded-full"></div>
             <span className="font-mono font-bold tracking-widest text-sm">REC {timeLeft.toFixed(1)}s</span>
+            {backend && <span className="font-mono text-[10px] uppercase tracking-widest text-white/70">{backend}</span>}
             <button onClick={onStop} className="ml-2 w-6 h-6 flex items-center justify-center bg-white text-red-600 rounded hover:scale-110 transition-transform">
                 <div className="w-2 h-2 bg-current"></div>
             </button>
@@ -204,6 +371,25 @@ export const RecordingIndicator: React.FC<RecordingIndicatorProps> = ({ isRecord
     );
 };
 
+interface CaptureIndicatorProps {
+  progress: number | null; // 0-1, null when idle
+  label?: string;
+}
+
+export const CaptureIndicator: React.FC<CaptureIndicatorProps> = ({ progress, label }) => {
+    if (progress === null) return null;
+    return (
+        <div className="absolute top-6 left-1/2 -translate-x-1/2 bg-black border border-acid text-white px-6 py-2 flex items-center gap-4 shadow-[0_0_30px_rgba(204,255,0,0.3)] z-50">
+            <div className="w-2 h-2 bg-acid animate-pulse"></div>
+            <span className="font-mono font-bold tracking-widest text-sm uppercase">Capture {label}</span>
+            <div className="w-32 h-[2px] bg-white/20 relative">
+                <div className="absolute inset-y-0 left-0 bg-acid transition-all duration-75" style={{ width: `${progress * 100}%` }} />
+            </div>
+            <span className="font-mono text-[10px] text-white/60">{Math.round(progress * 100)}%</span>
+        </div>
+    );
+};
+
 // --- Documentation Overlay ---
 interface DocumentationOverlayProps {
   isOpen: boolean;
@@ -248,12 +434,12 @@ export const DocumentationOverlay: React.FC<DocumentationOverlayProps> = ({ isOp
                     <div className="p-4 border border-white/10 hover:border-acid/50 transition-colors">
                         <div className="font-mono text-xs text-acid mb-2">PASS 01</div>
                         <h3 className="font-bold mb-1">Integrator</h3>
-                        <p className="text-xs text-gray-400">Raymarches scene geometry. Calculates direct lighting. Traces 1 bounce for GI. Resamples reservoirs temporally and spatially.</p>
+                        <p className="text-xs text-gray-400">Raymarches scene geometry. Resamples direct light over the scene's light list (ReSTIR DI). Traces GI paths up to Max Bounces deep (1-8), ended early by Russian roulette; capture presets raise the depth. Resamples reservoirs temporally and spatially.</p>
                     </div>
                     <div className="p-4 border border-white/10 hover:border-acid/50 transition-colors">
                         <div className="font-mono text-xs text-acid mb-2">PASS 02</div>
                         <h3 className="font-bold mb-1">Display</h3>
-                        <p className="text-xs text-gray-400">Applies Bilateral Denoising, ACES Tonemapping, Chromatic Aberration, and Dithering.</p>
+                        <p className="text-xs text-gray-400">Applies the selected denoiser (SVGF or bilateral), ACES Tonemapping, Chromatic Aberration, and Dithering.</p>
                     </div>
                 </div>
             </div>
@@ -316,7 +502,7 @@ export const ResearchOverlay: React.FC<ResearchOverlayProps> = ({ isOpen, onClos
                         <ul className="text-xs text-gray-400 space-y-2 font-mono">
                            <li>• Spatial Radius: 10px (Tightened to prevent bleeding)</li>
                            <li>• Max Temporal History: 12 Frames (Reduced ghosting)</li>
-                           <li>• Denoising: Bilateral Filter (Edge-preserving blur)</li>
+                           <li>• Denoising: SVGF à-trous wavelet (variance-guided) or 5x5 bilateral</li>
                            <li>• Bias: 0.05 Ray Offset (Prevents shadow acne)</li>
                         </ul>
                     </div>
@@ -330,48 +516,129 @@ export const ResearchOverlay: React.FC<ResearchOverlayProps> = ({ isOpen, onClos
 interface ShaderEditorProps {
     isOpen: boolean;
     onClose: () => void;
-    code: string;
-    onCodeChange: (code: string) => void;
+    files: ShaderFile[]; // One tab each, main.wgsl first
+    onCodeChange: (file: string, code: string) => void;
     error: ShaderError | null;
+    diagnostics: ShaderDiagnostic[]; // From the last compile, shown as markers in their file
+    reveal?: SourceRange | null; // Opened, selected and scrolled into view whenever it changes
 }
 
-export const ShaderEditor: React.FC<ShaderEditorProps> = ({ isOpen, onClose, code, onCodeChange, error }) => {
+export const ShaderEditor: React.FC<ShaderEditorProps> = ({ isOpen, onClose, files, onCodeChange, error, diagnostics, reveal }) => {
+    const editorRef = useRef<Parameters<OnMount>[0] | null>(null);
+    const monaco = useMonaco();
+    const [activeName, setActiveName] = useState(files[0]?.name ?? '');
+    const [pendingReveal, setPendingReveal] = useState<SourceRange | null>(null);
+    const active = files.find(f => f.name === activeName) ?? files[0];
+
+    // Completion and hover follow the Uniforms struct the whole project declares
+    const uniformFields = useMemo(() => calculateUniformLayout(parseShaderParams(preprocessShader(files).code).params).fields, [files]);
+    useEffect(() => { setWgslUniformFields(uniformFields); }, [uniformFields]);
+
+    // Each tab is its own model (switched by `path`); only the visible one needs markers
+    const fileDiagnostics = (name: string) => diagnostics.filter(d => d.range?.file === name);
+    useEffect(() => {
+        const model = editorRef.current?.getModel();
+        if (monaco && model && active) setWgslMarkers(monaco, model, fileDiagnostics(active.name));
+    }, [monaco, diagnostics, active?.name]);
+
+    const counts = { error: 0, warning: 0, info: 0 };
+    diagnostics.forEach(d => counts[d.severity]++);
+    const headline: { message: string; range?: SourceRange } | null = diagnostics.find(d => d.severity === 'error')
+        ?? (error && { message: error.message, range: error.lineNum ? { file: error.file, startLine: error.lineNum, startColumn: error.linePos ?? 1, endLine: error.lineNum, endColumn: error.linePos ?? 1 } : undefined });
+    const failed = counts.error > 0 || !!error;
+
+    // Switches tabs first when the range is in another file; the effect below reveals it
+    // once that file's model is showing
+    const revealRange = (range?: SourceRange) => {
+        if (!range) return;
+        if (range.file && files.some(f => f.name === range.file)) setActiveName(range.file);
+        setPendingReveal({ ...range });
+    };
+
+    useEffect(() => {
+        const editor = editorRef.current;
+        if (!editor || !pendingReveal || (pendingReveal.file && pendingReveal.file !== active?.name)) return;
+        const selection = { startLineNumber: pendingReveal.startLine, startColumn: pendingReveal.startColumn, endLineNumber: pendingReveal.endLine, endColumn: pendingReveal.endColumn };
+        editor.revealRangeInCenter(selection);
+        editor.setSelection(selection);
+        editor.focus();
+        setPendingReveal(null);
+    }, [pendingReveal, active?.name]);
+
+    useEffect(() => { if (reveal) revealRange(reveal); }, [reveal]);
+
     return (
         <div className={`fixed inset-y-0 left-0 w-[600px] bg-[#1e1e1e] shadow-2xl transform transition-transform duration-500 ease-[cubic-bezier(0.16,1,0.3,1)] z-40 flex flex-col border-r border-white/10 ${isOpen ? 'translate-x-0' : '-translate-x-full'}`}>
             <div className="flex items-center justify-between p-4 bg-[#252526] border-b border-white/5">
                 <div className="flex items-center gap-3">
                     <div className="w-3 h-3 rounded-full bg-yellow-500"></div>
-                    <span className="font-mono text-xs text-gray-400 uppercase tracking-widest">constants.ts / WGSL</span>
+                    <span className="font-mono text-xs text-gray-400 uppercase tracking-widest">Shader / WGSL</span>
                 </div>
                 <button onClick={onClose} className="text-gray-500 hover:text-white transition-colors">
                      <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" /></svg>
                 </button>
             </div>
+
+            <div className="flex overflow-x-auto custom-scrollbar bg-[#252526] border-b border-white/5">
+                {files.map(file => {
+                    const errors = fileDiagnostics(file.name).filter(d => d.severity === 'error').length;
+                    return (
+                        <button
+                            key={file.name}
+                            onClick={() => setActiveName(file.name)}
+                            className={`shrink-0 flex items-center gap-2 px-3 py-2 font-mono text-[10px] tracking-wider border-r border-white/5 transition-colors ${file === active ? 'bg-[#1e1e1e] text-white' : 'text-gray-500 hover:text-gray-300'}`}
+                        >
+                            {file.name}
+                            {errors > 0 && <span className="text-red-500">{errors}</span>}
+                        </button>
+                    );
+                })}
+            </div>
             
             <div className="flex-1 relative">
-                <Editor 
-                    height="100%"
-                    defaultLanguage="rust" // WGSL isn't standard in Monaco yet, Rust provides decent highlighting
-                    theme="vs-dark"
-                    value={code}
-                    onChange={(value) => onCodeChange(value || '')}
-                    options={{
-                        minimap: { enabled: false },
-                        fontSize: 12,
-                        fontFamily: 'JetBrains Mono',
-                        padding: { top: 20 },
-                        scrollBeyondLastLine: false,
-                        smoothScrolling: true,
-                    }}
-                />
+                {active && (
+                    <Editor 
+                        height="100%"
+                        language={WGSL_LANGUAGE_ID}
+                        theme="vs-dark"
+                        path={active.name}
+                        value={active.code}
+                        beforeMount={registerWgslLanguage}
+                        onMount={(editor, m) => {
+                            editorRef.current = editor;
+                            const model = editor.getModel();
+                            if (model) setWgslMarkers(m, model, fileDiagnostics(active.name));
+                        }}
+                        onChange={(value) => onCodeChange(active.name, value || '')}
+                        options={{
+                            minimap: { enabled: false },
+                            fontSize: 12,
+                            fontFamily: 'JetBrains Mono',
+                            padding: { top: 20 },
+                            scrollBeyondLastLine: false,
+                            smoothScrolling: true,
+                        }}
+                    />
+                )}
             </div>
 
-            {error && (
-                <div className="p-4 bg-red-900/20 border-t border-red-900/50">
-                    <div className="text-red-500 font-mono text-xs flex items-center gap-2">
+            {(error || diagnostics.length > 0) && (
+                <div className={`p-4 border-t ${failed ? 'bg-red-900/20 border-red-900/50' : 'bg-yellow-900/10 border-yellow-900/40'}`}>
+                    <div className={`font-mono text-xs flex items-center gap-2 ${failed ? 'text-red-500' : 'text-yellow-500'}`}>
                         <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 9v2m0 4h.01m-6.938 4h13.856c1.54 0 2.502-1.667 1.732-3L13.732 4c-.77-1.333-2.694-1.333-3.464 0L3.34 16c-.77 1.333.192 3 1.732 3z" /></svg>
-                        COMPILATION FAILED
+                        {failed ? 'COMPILATION FAILED' : 'COMPILED'}
+                        <span className="ml-auto text-[10px] text-white/40 tracking-widest">
+                            {counts.error} ERRORS // {counts.warning} WARNINGS // {counts.info} INFO
+                        </span>
                     </div>
+                    {headline && (
+                        <button
+                            onClick={() => revealRange(headline.range)}
+                            className="mt-2 w-full text-left font-mono text-[10px] text-red-400 truncate hover:text-white transition-colors"
+                        >
+                            {headline.range ? `${headline.range.file ? `${headline.range.file}:` : 'L'}${headline.range.startLine}: ` : ''}{headline.message}
+                        </button>
+                    )}
                 </div>
             )}
         </div>
@@ -381,10 +648,13 @@ export const ShaderEditor: React.FC<ShaderEditorProps> = ({ isOpen, onClose, cod
 // --- Menu Bar ---
 interface MenuBarProps {
     menus: MenuGroup[];
+    denoiser: DenoiserSettings;
 }
 
-export const MenuBar: React.FC<MenuBarProps> = ({ menus }) => {
+export const MenuBar: React.FC<MenuBarProps> = ({ menus, denoiser }) => {
     const [activeMenu, setActiveMenu] = useState<string | null>(null);
+    const litBars = denoiser.mode === 'svgf' ? denoiser.iterations : denoiser.mode === 'bilateral' ? 1 : 0;
+    const denoiserLabel = denoiser.mode === 'svgf' ? `SVGF x${denoiser.iterations}` : denoiser.mode === 'bilateral' ? 'Bilateral Denoise' : 'Denoising Off';
 
     // Click outside to close
     useEffect(() => {
@@ -425,15 +695,15 @@ export const MenuBar: React.FC<MenuBarProps> = ({ menus }) => {
                 ))}
             </div>
 
-             {/* Accumulation Indicator (Right Side) */}
+             {/* Denoiser Indicator (Right Side): one lit bar per filter pass */}
             <div className="ml-auto flex items-center gap-4">
                  <div className="hidden md:flex items-center gap-2">
                     <div className="flex gap-0.5">
                          {[...Array(5)].map((_, i) => (
-                             <div key={i} className={`w-0.5 h-3 bg-acid ${i < 3 ? 'opacity-100' : 'opacity-20 animate-pulse'}`}></div>
+                             <div key={i} className={`w-0.5 h-3 bg-acid ${i < litBars ? 'opacity-100' : 'opacity-20'}`}></div>
                          ))}
                     </div>
-                    <span className="text-[10px] font-mono text-white/40 uppercase tracking-widest">Denoising Active</span>
+                    <span className="text-[10px] font-mono text-white/40 uppercase tracking-widest">{denoiserLabel}</span>
                  </div>
             </div>
         </div>
@@ -1,102 +1,136 @@
 
 
+import { CapturePreset, RenderQuality, ShaderFile } from './types';
+
+export const LIVE_QUALITY: RenderQuality = { spatialTaps: 6, bounces: 1, jitter: false };
+
+// Keyed by the quality level passed to capture()
+export const CAPTURE_PRESETS: Record<number, CapturePreset> = {
+  1: { label: 'Standard', width: 3840, height: 2160, frames: 32, spatialTaps: 6, bounces: 1, jitter: false },
+  2: { label: 'Ultra', width: 3840, height: 2160, frames: 256, spatialTaps: 12, bounces: 3, jitter: true },
+};
+
 export const BOILERPLATE_SHADER_WGSL = `
 // --- ReSTIR GI (Robust Implementation) ---
 // Scene: Dark Alley (Procedural SDF)
+// main.wgsl: #include pulls in the other tabs before compiling (#define / #ifdef work too)
 
-struct Uniforms {
-  resolution: vec2f,
-  time: f32,
-  frameIndex: f32,    
-  cameraPos: vec4f,
-  mouse: vec4f,
-  
-  // App Params
-  animSpeed: f32,
-  roughness: f32,
-  indirectIntensity: f32, 
-  grainStrength: f32,
-  
-  baseColor: vec3f,
-  _pad1: f32,
-  
-  lightAz: f32,
-  lightEl: f32,
-  aberration: f32,
-  debugMode: f32,
-  
-  audio: vec4f,
-};
+// struct Uniforms is generated and prepended at compile time: built-in header
+// fields, then one member per @param below (in order), then audio.
+// Add, remove or retune params here; the panel rebuilds on recompile.
+// @param animSpeed: f32 = 0.8 min=0 max=5 label="Animation Speed"
+// @param indirectIntensity: f32 = 1.8 min=0 max=10 label="Light Intensity"
+// @param grainStrength: f32 = 0.5 min=0 max=2 label="Film Grain"
+// @param diCandidates: f32 = 8 min=1 max=32 step=1 label="Light Candidates"
+// @param aberrationStrength: f32 = 0.02 min=0 max=1 label="Aberration"
+// @param debugMode: f32 = 0 min=0 max=6 step=1 label="Debug Mode"
+// @param texAlbedo: f32 = 1 min=0 max=1 label="Texture → Albedo"
+// @param texRoughness: f32 = 1 min=0 max=1 label="Texture → Roughness"
+// @param texScale: f32 = 0.25 min=0.02 max=2 label="Texture Scale"
+// @param unbiasedReuse: f32 = 1 min=0 max=1 step=1 label="Unbiased Reuse"
+// @param maxBounces: f32 = 1 min=1 max=8 step=1 label="Max Bounces"
+// @param rouletteStart: f32 = 2 min=1 max=8 step=1 label="Roulette After Bounce"
+// @param fireflyPolicy: f32 = 1 min=0 max=2 step=1 label="Firefly Policy"
+// @param fireflyClamp: f32 = 3 min=0.5 max=50 label="Firefly Clamp"
+
+// Render graph: resources are allocated per frame size and bound to the variables
+// they name, passes run top to bottom. Add a pass (and its targets) here to extend the frame.
+// @texture geometry: rgba32float pingpong bind=gGeometry prev=prevGeometry clear=0,0,0,-1
+// @texture albedo: rgba8unorm bind=gAlbedo
+// @texture material: rgba16float bind=gMaterial
+// @texture history: rgba16float bind=historyTexture,historyOut
+// @texture moments: rgba16float pingpong prev=prevMoments
+// @texture filtered: rgba16float pingpong bind=gFiltered prev=prevFiltered
+// @texture direct: rgba16float bind=gDirect
+// @buffer reservoirs: 32 pingpong bind=currReservoirs prev=prevReservoirs
+// @buffer scratch: 32 bind=scratchReservoirs
+// @buffer diReservoirs: 16 pingpong bind=currDIReservoirs prev=prevDIReservoirs
+// @pass gbuffer: render fs_gbuffer out=geometry,albedo,material
+// @pass direct: render fs_direct out=direct bind=prevGeometry,gGeometry,gAlbedo,gMaterial,prevDIReservoirs,currDIReservoirs
+// @pass integrate: render fs_main integrator=render out=history bind=prevGeometry,gGeometry,gAlbedo,gMaterial,prevReservoirs,currReservoirs
+// @pass initial: compute cs_initial integrator=compute bind=gGeometry,currReservoirs
+// @pass temporal: compute cs_temporal integrator=compute bind=prevGeometry,gGeometry,prevReservoirs,currReservoirs,scratchReservoirs
+// @pass spatial: compute cs_spatial integrator=compute bind=gGeometry,scratchReservoirs,currReservoirs
+// @pass shade: compute cs_shade integrator=compute bind=gGeometry,gAlbedo,gMaterial,currReservoirs,historyOut
+// @pass bilateral: render fs_bilateral denoiser=bilateral out=filtered bind=historyTexture
+// @pass svgfMoments: render fs_svgf_moments denoiser=svgf out=moments,filtered bind=historyTexture,prevMoments,prevGeometry,gGeometry
+// @pass atrous: render fs_atrous denoiser=svgf iterate out=filtered bind=prevFiltered,gGeometry
+// @pass display: render fs_display out=screen bind=historyTexture,gGeometry,gAlbedo,gMaterial,gFiltered,gDirect
 
 @group(0) @binding(0) var<uniform> u: Uniforms;
 @group(0) @binding(1) var historyTexture: texture_2d<f32>; 
 @group(0) @binding(2) var textureSampler: sampler;
 
+// User texture channels (default noise when nothing is loaded)
+@group(0) @binding(3) var iChannel0: texture_2d<f32>;
+@group(0) @binding(4) var iChannel1: texture_2d<f32>;
+@group(0) @binding(5) var iChannel2: texture_2d<f32>;
+@group(0) @binding(6) var iChannel3: texture_2d<f32>;
+
+// G-Buffer (written by fs_gbuffer). Geometry is ping-ponged so reuse can test against last frame.
+@group(0) @binding(7) var prevGeometry: texture_2d<f32>; // Previous frame: xyz = normal, w = view depth (< 0 for sky)
+@group(0) @binding(8) var gGeometry: texture_2d<f32>;    // Current frame:  xyz = normal, w = view depth (< 0 for sky)
+@group(0) @binding(9) var gAlbedo: texture_2d<f32>;      // rgb = surface albedo (textured)
+@group(0) @binding(10) var gMaterial: texture_2d<f32>;   // x = material ID, y = roughness, z = metallic, w = IOR
+
+// Per-pixel GI reservoirs, ping-ponged like the geometry (row-major, resolution.x wide)
+@group(0) @binding(11) var<storage, read> prevReservoirs: array<PackedReservoir>;
+@group(0) @binding(12) var<storage, read_write> currReservoirs: array<PackedReservoir>;
+
+// Compute path only: temporal results feeding spatial reuse, and the resolved indirect output
+@group(0) @binding(13) var<storage, read_write> scratchReservoirs: array<PackedReservoir>;
+@group(0) @binding(14) var historyOut: texture_storage_2d<rgba16float, write>;
+
+// Denoiser: luminance moments (x: mean, y: mean square, z: history length) and the
+// filtered indirect (rgb) with its luminance variance (a)
+@group(0) @binding(15) var prevMoments: texture_2d<f32>;
+@group(0) @binding(16) var gFiltered: texture_2d<f32>;
+@group(0) @binding(17) var prevFiltered: texture_2d<f32>;
+
+// Scene lights, uploaded by the renderer from the Lights panel (never empty: a scene
+// without lights gets one black entry). Bound in every pass like the uniforms.
+@group(0) @binding(18) var<storage, read> lights: array<Light>;
+
+// ReSTIR DI: per-pixel light reservoirs and the resolved direct light
+@group(0) @binding(19) var<storage, read> prevDIReservoirs: array<PackedDIReservoir>;
+@group(0) @binding(20) var<storage, read_write> currDIReservoirs: array<PackedDIReservoir>;
+@group(0) @binding(21) var gDirect: texture_2d<f32>;
+
+// Material table, indexed by map()'s material ID - 1 (Materials panel, never empty)
+@group(0) @binding(22) var<storage, read> materials: array<Material>;
+
 struct VertexOutput {
   @builtin(position) position: vec4f,
   @location(0) uv: vec2f,
 };
 
-// --- RESERVOIR STRUCT ---
-struct Reservoir {
-    y: vec3f,       // The light sample (Radiance)
-    w_sum: f32,     // Sum of weights
-    M: f32,         // Number of samples seen
-};
-
-// --- ROBUST RANDOM NUMBER GENERATOR (PCG) ---
-fn pcg_hash(seed: u32) -> u32 {
-    let state = seed * 747796405u + 2891336453u;
-    let word = ((state >> ((state >> 28u) + 4u)) ^ state) * 277803737u;
-    return (word >> 22u) ^ word;
-}
+#include "lib/reservoir.wgsl"
+#include "lib/rng.wgsl"
+#include "lib/sdf.wgsl"
 
-fn rng_float(pixel: vec2f, frame: f32, slot: u32) -> f32 {
-    let seed = u32(pixel.x) + u32(pixel.y) * u32(u.resolution.x) + u32(frame) * 719393u + slot;
-    return f32(pcg_hash(seed)) / 4294967295.0;
-}
-
-// --- SDF SCENE: DARK ALLEY ---
-fn sdBox(p: vec3f, b: vec3f) -> f32 {
-  let q = abs(p) - b;
-  return length(max(q, vec3f(0.0))) + min(max(q.x, max(q.y, q.z)), 0.0);
-}
-
-// Map returns vec2(dist, materialID)
-// ID 1.0 = Wet Floor
-// ID 2.0 = Artifact
-// ID 3.0 = Walls/Pillars
+// @scene begin: generated from the scene "Dark Alley" (Scene panel), edits here are overwritten
+// Returns vec2(dist, materialID): 1-based rows of the material table
 fn map(p: vec3f) -> vec2f {
-  // 1. Floor
-  let dFloor = p.y + 2.0;
-  
-  // 2. Artifact (Twisting Box)
-  var p2 = p - vec3f(0.0, 0.0, 0.0);
-  let pulse = u.audio.x * 0.2; 
-  let twistAmt = sin(p2.y * 1.5 + u.time * u.animSpeed) * (0.8 + pulse);
-  let c = cos(twistAmt); let s = sin(twistAmt);
-  p2 = vec3f(c * p2.x - s * p2.z, p2.y, s * p2.x + c * p2.z);
-  let dArtifact = sdBox(p2, vec3f(0.9, 2.5, 0.9)) - 0.2; // Rounded box
-  
-  // 3. Walls (Corridor)
-  let corridorWidth = 5.0;
-  let dWallL = p.x + corridorWidth;
-  let dWallR = corridorWidth - p.x;
-  let dWalls = min(dWallL, dWallR); // Infinite planes X
-  
-  // 4. Pillars (Repetition)
-  // Repeat every 6 units along Z
-  let zRep = p.z - 6.0 * floor(p.z / 6.0) - 3.0; 
-  let pPillar = vec3f(abs(p.x) - (corridorWidth - 0.5), p.y, zRep);
-  let dPillars = sdBox(pPillar, vec3f(0.6, 10.0, 0.6));
-  
-  let dStructure = min(dWalls, dPillars);
-  
-  // Composition
-  if (dArtifact < dFloor && dArtifact < dStructure) { return vec2f(dArtifact, 2.0); }
-  if (dFloor < dStructure) { return vec2f(dFloor, 1.0); }
-  return vec2f(dStructure, 3.0);
+  let p1 = p - vec3f(0.0, -2.0, 0.0); // Floor
+  let d2 = vec2f(p1.y, 1.0);
+  let a3 = sin(p.y * 1.5 + u.time * u.animSpeed) * (0.8 + u.audio.x * 0.2); // Artifact Twist
+  let c3 = cos(a3); let s3 = sin(a3);
+  let p3 = vec3f(c3 * p.x - s3 * p.z, p.y, s3 * p.x + c3 * p.z);
+  let d4 = vec2f(sdBox(p3, vec3f(0.9, 2.5, 0.9)), 2.0); // Artifact
+  let d5 = vec2f(d4.x - 0.2, d4.y);
+  let p6 = mat3x3f(0.0, 1.0, 0.0, -1.0, 0.0, 0.0, 0.0, 0.0, 1.0) * (p - vec3f(-5.0, 0.0, 0.0)); // Left Wall
+  let d7 = vec2f(p6.y, 3.0);
+  let p8 = mat3x3f(0.0, -1.0, 0.0, 1.0, 0.0, 0.0, 0.0, 0.0, 1.0) * (p - vec3f(5.0, 0.0, 0.0)); // Right Wall
+  let d9 = vec2f(p8.y, 3.0);
+  let p10 = vec3f(abs(p.x), p.y, p.z); // Pillars
+  let p11 = p10 - vec3f(4.5, 0.0, 3.0);
+  var p12 = p11;
+  p12.z = p12.z - 6.0 * round(p12.z / 6.0);
+  let d13 = vec2f(sdBox(p12, vec3f(0.6, 10.0, 0.6)), 3.0);
+  let d14 = opUnion(opUnion(opUnion(opUnion(d2, d5, 0.0), d7, 0.0), d9, 0.0), d13, 0.0);
+  return d14;
 }
+// @scene end
 
 fn calcNormal(p: vec3f) -> vec3f {
   let e = 0.001;
@@ -122,6 +156,122 @@ fn raymarch(ro: vec3f, rd: vec3f, maxDist: f32) -> vec2f {
     return vec2f(t, m);
 }
 
+// --- TEXTURE CHANNELS ---
+// Triplanar projection. textureSampleLevel needs no derivatives, so it is safe
+// inside the non-uniform control flow that follows a raymarch.
+fn triplanar(t: texture_2d<f32>, p: vec3f, n: vec3f) -> vec4f {
+    var w = abs(n);
+    w = w / (w.x + w.y + w.z);
+    let s = u.texScale;
+    let x = textureSampleLevel(t, textureSampler, p.yz * s, 0.0);
+    let y = textureSampleLevel(t, textureSampler, p.xz * s, 0.0);
+    let z = textureSampleLevel(t, textureSampler, p.xy * s, 0.0);
+    return x * w.x + y * w.y + z * w.z;
+}
+
+fn channelBound(i: u32) -> bool {
+    return u.channels[i].z > 0.5;
+}
+
+// Modulates environment albedo (floor + walls) by iChannel0
+fn texturedAlbedo(base: vec3f, p: vec3f, n: vec3f) -> vec3f {
+    if (!channelBound(0u)) { return base; }
+    let tex = triplanar(iChannel0, p, n).rgb;
+    return mix(base, base * tex * 2.0, u.texAlbedo);
+}
+
+// Overrides roughness with iChannel1's red channel
+fn texturedRoughness(base: f32, p: vec3f, n: vec3f) -> f32 {
+    if (!channelBound(1u)) { return base; }
+    return mix(base, triplanar(iChannel1, p, n).r, u.texRoughness);
+}
+
+// --- MATERIALS ---
+// One table row per material ID, shared by the G-buffer and the path tracer
+struct Material {
+    albedo: vec3f,
+    roughness: f32,  // Perceptual (GGX alpha = roughness^2)
+    emission: vec3f, // Radiance
+    metallic: f32,
+    ior: f32,        // Dielectric Fresnel: F0 = ((ior - 1) / (ior + 1))^2
+    wetness: f32,    // Puddles: how far roughness drops towards 0.05 in the wet spots
+    textured: f32,   // 1: iChannel0/1 modulate albedo/roughness (Texture -> params)
+    pad: f32,
+};
+
+// A material at a surface point: the table row plus procedural detail
+struct SurfaceMaterial {
+    albedo: vec3f,
+    roughness: f32,
+    emission: vec3f,
+    metallic: f32,
+    ior: f32,
+};
+
+fn materialRow(id: f32) -> Material {
+    return materials[min(u32(max(id, 1.0)) - 1u, arrayLength(&materials) - 1u)];
+}
+
+// Procedural puddles: sine waves mark the wet spots (1 = standing water)
+fn puddleMask(p: vec3f) -> f32 {
+    let noise = sin(p.x * 2.0) * sin(p.z * 2.5) + sin(p.x * 0.5 + p.z * 0.5);
+    return clamp((0.3 - noise) / 0.75, 0.0, 1.0);
+}
+
+fn surfaceMaterial(id: f32, p: vec3f, n: vec3f) -> SurfaceMaterial {
+    let row = materialRow(id);
+    var m: SurfaceMaterial;
+    m.albedo = row.albedo;
+    m.roughness = mix(row.roughness, 0.05, row.wetness * puddleMask(p));
+    m.emission = row.emission;
+    m.metallic = row.metallic;
+    m.ior = row.ior;
+    if (row.textured > 0.5) {
+        m.albedo = texturedAlbedo(m.albedo, p, n);
+        m.roughness = texturedRoughness(m.roughness, p, n);
+    }
+    return m;
+}
+
+// GGX microfacet specular (height-correlated Smith visibility, Schlick Fresnel from
+// the IOR, or the albedo for metals) plus Lambertian diffuse for the energy the
+// specular lobe doesn't reflect. Returns f(wo, wi) * cos(wi).
+fn evalBrdfCos(m: SurfaceMaterial, n: vec3f, wo: vec3f, wi: vec3f) -> vec3f {
+    let NdotL = dot(n, wi);
+    if (NdotL <= 0.0) { return vec3f(0.0); }
+    let NdotV = max(dot(n, wo), 1e-4);
+    let h = normalize(wi + wo);
+    let NdotH = max(dot(n, h), 0.0);
+    let VdotH = max(dot(wo, h), 0.0);
+    
+    let a = max(m.roughness * m.roughness, 1e-3);
+    let a2 = a * a;
+    let d = NdotH * NdotH * (a2 - 1.0) + 1.0;
+    let D = a2 / (3.14159265 * d * d);
+    let vis = 0.5 / max(NdotL * sqrt(NdotV * NdotV * (1.0 - a2) + a2) + NdotV * sqrt(NdotL * NdotL * (1.0 - a2) + a2), 1e-6);
+    
+    let f0 = (m.ior - 1.0) / (m.ior + 1.0);
+    let F0 = mix(vec3f(f0 * f0), m.albedo, m.metallic);
+    let F = F0 + (1.0 - F0) * pow(1.0 - VdotH, 5.0);
+    
+    let diffuse = (1.0 - F) * (1.0 - m.metallic) * m.albedo / 3.14159265;
+    return (diffuse + D * vis * F) * NdotL;
+}
+
+// Directional albedo of evalBrdfCos: the split-sum GGX term (Karis' analytic fit) plus
+// the diffuse base. The indirect passes store their BRDF-weighted estimate divided by it
+// and the display pass multiplies it back, so the denoisers filter illumination, not texture.
+fn demodulationAlbedo(m: SurfaceMaterial, n: vec3f, wo: vec3f) -> vec3f {
+    let NdotV = max(dot(n, wo), 1e-4);
+    let r = clamp(m.roughness, 0.0, 1.0) * vec4f(-1.0, -0.0275, -0.572, 0.022) + vec4f(1.0, 0.0425, 1.04, -0.04);
+    let a004 = min(r.x * r.x, exp2(-9.28 * NdotV)) * r.x + r.y;
+    let ab = vec2f(-1.04, 1.04) * a004 + r.zw;
+    let f0 = (m.ior - 1.0) / (m.ior + 1.0);
+    let specular = mix(vec3f(f0 * f0), m.albedo, m.metallic) * ab.x + ab.y;
+    let diffuse = (1.0 - specular) * (1.0 - m.metallic) * m.albedo;
+    return max(diffuse + specular, vec3f(1e-3));
+}
+
 // --- ENVIRONMENT: COLD MOONLIGHT ---
 fn getSkyColor(rd: vec3f) -> vec3f {
     let horizon = pow(1.0 - abs(rd.y), 4.0);
@@ -131,53 +281,481 @@ fn getSkyColor(rd: vec3f) -> vec3f {
     return mix(top, glow, horizon);
 }
 
-// --- RESERVOIR LOGIC ---
-fn luminance(c: vec3f) -> f32 {
-    return dot(c, vec3f(0.2126, 0.7152, 0.0722));
+// --- LIGHTS ---
+// Kinds: point, spot, area (one-sided rectangle) and emissive SDF (a glowing capsule,
+// e.g. a neon tube). None of them are part of map(), so they cast no shadows.
+const LIGHT_POINT = 0u;
+const LIGHT_SPOT = 1u;
+const LIGHT_AREA = 2u;
+const LIGHT_EMISSIVE = 3u;
+
+struct Light {
+    position: vec3f, // Point / spot position, area / capsule center
+    kind: u32,
+    emission: vec3f, // Point / spot: intensity, area / emissive: radiance
+    cdf: f32,        // Running sum of light power / total power
+    axis: vec3f,     // Spot direction, area normal, capsule half-segment
+    p0: f32,         // Spot: cos(outer angle), emissive: radius
+    tangent: vec3f,  // Area: half-extent along its width
+    p1: f32,         // Spot: cos(inner angle), area: half-height
+};
+
+// A point on a light. uv parameterizes the light's surface, so a sample names the
+// same point whichever pixel reuses it (DI reuse needs no Jacobian).
+struct LightSample {
+    pos: vec3f,
+    normal: vec3f, // Zero for point and spot lights
+    pdfArea: f32,  // 1 / area (1 for point and spot lights)
+};
+
+fn lightCount() -> u32 {
+    return arrayLength(&lights);
 }
 
-fn update_reservoir(r: ptr<function, Reservoir>, x: vec3f, w: f32, randVal: f32) {
-    (*r).w_sum += w;
-    (*r).M += 1.0;
-    
-    // Protection against NaN/Zero weights
-    if ((*r).w_sum <= 1e-6) {
-        (*r).y = x;
-        return;
+// Half the picks are power-proportional (binary search over the CDF), half uniform,
+// so dim lights right next to a surface still get proposed
+fn pickLight(r: f32) -> u32 {
+    let count = lightCount();
+    if (r < 0.5) { return min(u32(r * 2.0 * f32(count)), count - 1u); }
+    let rPower = (r - 0.5) * 2.0;
+    var lo = 0u;
+    var hi = count - 1u;
+    while (lo < hi) {
+        let mid = (lo + hi) / 2u;
+        if (lights[mid].cdf < rPower) { lo = mid + 1u; } else { hi = mid; }
     }
-    
-    if (randVal < (w / (*r).w_sum)) {
-        (*r).y = x;
+    return lo;
+}
+
+fn lightPickPdf(i: u32) -> f32 {
+    var below = 0.0;
+    if (i > 0u) { below = lights[i - 1u].cdf; }
+    return 0.5 * (lights[i].cdf - below) + 0.5 / f32(lightCount());
+}
+
+fn sampleLight(i: u32, uv: vec2f) -> LightSample {
+    let l = lights[i];
+    var s: LightSample;
+    s.pos = l.position;
+    s.pdfArea = 1.0;
+    if (l.kind == LIGHT_AREA) {
+        let bitangent = normalize(cross(l.axis, l.tangent)) * l.p1;
+        s.pos += l.tangent * (uv.x * 2.0 - 1.0) + bitangent * (uv.y * 2.0 - 1.0);
+        s.normal = l.axis;
+        s.pdfArea = 1.0 / max(4.0 * length(l.tangent) * l.p1, 1e-6);
+    } else if (l.kind == LIGHT_EMISSIVE) {
+        // Capsule side (the caps are left out): uv.x along the segment, uv.y around it
+        let axis = normalize(l.axis);
+        let helper = select(vec3f(1.0, 0.0, 0.0), vec3f(0.0, 1.0, 0.0), abs(axis.x) > 0.9);
+        let b1 = normalize(cross(axis, helper));
+        let b2 = cross(axis, b1);
+        let phi = uv.y * 6.2831853;
+        s.normal = b1 * cos(phi) + b2 * sin(phi);
+        s.pos += l.axis * (uv.x * 2.0 - 1.0) + s.normal * l.p0;
+        s.pdfArea = 1.0 / max(6.2831853 * l.p0 * 2.0 * length(l.axis), 1e-6);
     }
+    return s;
 }
 
-fn combine_reservoirs(r: ptr<function, Reservoir>, other: Reservoir, randVal: f32) {
-    // CLAMPING: Prevent "Boiling" / Fireflies
-    // In a dark scene, one bright pixel is huge. We clamp rigorously.
-    let maxW = max((*r).w_sum * 15.0, 0.1); 
-    let otherW = min(other.w_sum, maxW);
+// Unshadowed light arriving at x: radiance times the geometry term for area and
+// emissive lights, intensity with a softened inverse-square falloff for point and
+// spot lights. Neither the BRDF nor the cosine at x is included.
+fn incidentLight(i: u32, s: LightSample, x: vec3f) -> vec3f {
+    let l = lights[i];
+    let toLight = s.pos - x;
+    let d2 = max(dot(toLight, toLight), 1e-4);
+    let wi = toLight * inverseSqrt(d2);
+    if (l.kind == LIGHT_AREA || l.kind == LIGHT_EMISSIVE) {
+        return l.emission * max(dot(s.normal, -wi), 0.0) / d2;
+    }
+    var falloff = 1.0 / (d2 + 1.0);
+    if (l.kind == LIGHT_SPOT) { falloff *= smoothstep(l.p0, l.p1, dot(l.axis, -wi)); }
+    return l.emission * falloff;
+}
 
-    (*r).M += other.M;
-    (*r).w_sum += otherW;
+fn isLightVisible(s: LightSample, x: vec3f, n: vec3f) -> bool {
+    let origin = x + n * 0.05; // Same bias as the primary shadow ray always used
+    let toLight = s.pos - origin;
+    let dist = length(toLight);
+    return raymarch(origin, toLight / max(dist, 1e-6), dist).y <= 0.0;
+}
+
+// Next-event estimation at a path vertex: RIS over a few pickLight candidates,
+// then one shadow ray. Returns the light reflected towards wo.
+// RNG slots: slot .. slot + 15
+const BOUNCE_LIGHT_CANDIDATES = 4u;
+
+fn sampleBounceLight(pixel: vec2f, slot: u32, x: vec3f, n: vec3f, m: SurfaceMaterial, wo: vec3f) -> vec3f {
+    var chosen: LightSample;
+    var chosenLi = vec3f(0.0);
+    var w_sum = 0.0;
+    for (var i = 0u; i < BOUNCE_LIGHT_CANDIDATES; i++) {
+        let base = slot + i * 4u;
+        let li = pickLight(rng_float(pixel, u.frameIndex, base));
+        let s = sampleLight(li, vec2f(rng_float(pixel, u.frameIndex, base + 1u), rng_float(pixel, u.frameIndex, base + 2u)));
+        let Li = incidentLight(li, s, x) * evalBrdfCos(m, n, wo, normalize(s.pos - x));
+        let w = luminance(Li) / max(lightPickPdf(li) * s.pdfArea, 1e-8);
+        w_sum += w;
+        if (rng_float(pixel, u.frameIndex, base + 3u) * w_sum < w) {
+            chosen = s;
+            chosenLi = Li;
+        }
+    }
+    let p_hat = luminance(chosenLi);
+    if (p_hat <= 0.0 || !isLightVisible(chosen, x, n)) { return vec3f(0.0); }
+    return chosenLi * w_sum / (f32(BOUNCE_LIGHT_CANDIDATES) * p_hat);
+}
+
+// Primary visibility of area and emissive lights. Returns (t, light index) of the
+// nearest one closer than tMax, or t = -1.
+fn intersectCapsule(ro: vec3f, rd: vec3f, pa: vec3f, pb: vec3f, r: f32) -> f32 {
+    let ba = pb - pa;
+    let oa = ro - pa;
+    let baba = dot(ba, ba);
+    let bard = dot(ba, rd);
+    let baoa = dot(ba, oa);
+    let a = baba - bard * bard;
+    let b = baba * dot(rd, oa) - baoa * bard;
+    let c = baba * dot(oa, oa) - baoa * baoa - r * r * baba;
+    let h = b * b - a * c;
+    if (h < 0.0) { return -1.0; }
+    let t = (-b - sqrt(h)) / a;
+    let y = baoa + t * bard;
+    if (y > 0.0 && y < baba) { return t; }
+    // Caps
+    let oc = select(ro - pb, oa, y <= 0.0);
+    let bc = dot(rd, oc);
+    let hc = bc * bc - (dot(oc, oc) - r * r);
+    return select(-1.0, -bc - sqrt(hc), hc > 0.0);
+}
+
+fn intersectRect(ro: vec3f, rd: vec3f, l: Light) -> f32 {
+    let denom = dot(rd, l.axis);
+    if (abs(denom) < 1e-6) { return -1.0; }
+    let t = dot(l.position - ro, l.axis) / denom;
+    let local = ro + rd * t - l.position;
+    let bitangent = normalize(cross(l.axis, l.tangent));
+    let inside = abs(dot(local, l.tangent)) <= dot(l.tangent, l.tangent) && abs(dot(local, bitangent)) <= l.p1;
+    return select(-1.0, t, inside);
+}
+
+// The renderer packs area and emissive lights first, so the loop stops at the first other
+// kind and never tests more than MAX_VISIBLE_EMITTERS, however many lights there are
+const MAX_VISIBLE_EMITTERS = 16u;
+
+fn intersectEmitters(ro: vec3f, rd: vec3f, tMax: f32) -> vec2f {
+    var best = vec2f(-1.0, 0.0);
+    var tBest = tMax;
+    for (var i = 0u; i < min(lightCount(), MAX_VISIBLE_EMITTERS); i++) {
+        let l = lights[i];
+        if (l.kind != LIGHT_AREA && l.kind != LIGHT_EMISSIVE) { break; }
+        var t = -1.0;
+        if (l.kind == LIGHT_AREA) { t = intersectRect(ro, rd, l); }
+        if (l.kind == LIGHT_EMISSIVE) { t = intersectCapsule(ro, rd, l.position - l.axis, l.position + l.axis, l.p0); }
+        if (t > 0.0 && t < tBest) {
+            tBest = t;
+            best = vec2f(t, f32(i));
+        }
+    }
+    return best;
+}
+
+fn emitterNormal(i: u32, p: vec3f) -> vec3f {
+    let l = lights[i];
+    if (l.kind == LIGHT_AREA) { return l.axis; }
+    let pa = p - (l.position - l.axis);
+    let ba = 2.0 * l.axis;
+    let h = clamp(dot(pa, ba) / dot(ba, ba), 0.0, 1.0);
+    return normalize(pa - ba * h);
+}
+
+// --- CAMERA ---
+struct Camera {
+    ro: vec3f,
+    uu: vec3f,
+    vv: vec3f,
+    ww: vec3f,
+};
+
+fn currentCamera() -> Camera {
+    var cam: Camera;
+    cam.ro = u.cameraPos.xyz;
+    cam.ww = normalize(u.cameraTarget.xyz - cam.ro);
+    cam.uu = normalize(cross(cam.ww, vec3f(0.0, 1.0, 0.0)));
+    cam.vv = normalize(cross(cam.uu, cam.ww));
+    return cam;
+}
+
+// Primary ray through a screen uv, including the sub-pixel jitter
+fn primaryRay(cam: Camera, uv: vec2f) -> vec3f {
+    let resolution = u.resolution;
+    let jitteredUv = uv + u.quality.zw / resolution;
+    let p = (-resolution + 2.0 * jitteredUv * resolution) / resolution.y;
+    return normalize(p.x * cam.uu + p.y * cam.vv + 1.5 * cam.ww);
+}
+
+// World position of a G-buffer sample from its view depth
+fn surfacePosition(cam: Camera, rd: vec3f, viewDepth: f32) -> vec3f {
+    return cam.ro + rd * (viewDepth / dot(rd, cam.ww));
+}
+
+// Where a world point landed in the previous frame: xy = pixel, z = view depth (<= 0 if behind the camera)
+fn reprojectToPrevious(p: vec3f, resolution: vec2f) -> vec3f {
+    let c = (u.prevView * vec4f(p, 1.0)).xyz;
+    if (c.z <= 0.001) { return vec3f(-1.0, -1.0, 0.0); }
+    let ndc = c.xy * 1.5 / c.z; // Same focal length as the primary rays
+    let uvPrev = (ndc * resolution.y + resolution) / (2.0 * resolution);
+    return vec3f(uvPrev.x * resolution.x, (1.0 - uvPrev.y) * resolution.y, c.z);
+}
+
+// Inverse of reprojectToPrevious: world position of a previous-frame pixel at a view depth
+fn previousPixelToWorld(pixel: vec2f, viewDepth: f32, resolution: vec2f) -> vec3f {
+    let uvPrev = vec2f(pixel.x / resolution.x, 1.0 - pixel.y / resolution.y);
+    let ndc = (2.0 * uvPrev * resolution - resolution) / resolution.y;
+    let c = vec3f(ndc / 1.5 * viewDepth, viewDepth);
+    let rot = mat3x3f(u.prevView[0].xyz, u.prevView[1].xyz, u.prevView[2].xyz);
+    return transpose(rot) * (c - u.prevView[3].xyz);
+}
+
+// --- PIXEL SURFACES ---
+// A pixel's visible point, rebuilt from a G-buffer (depth <= 0: sky)
+struct PixelSurface {
+    pos: vec3f,
+    n: vec3f,
+    depth: f32,
+};
+
+fn pixelIndex(coord: vec2u) -> u32 {
+    return coord.y * u32(u.resolution.x) + coord.x;
+}
+
+fn currentSurface(coord: vec2u) -> PixelSurface {
+    let g = textureLoad(gGeometry, coord, 0);
+    let cam = currentCamera();
+    let c = vec2f(coord) + 0.5;
+    let uv = vec2f(c.x / u.resolution.x, 1.0 - c.y / u.resolution.y);
+    var s: PixelSurface;
+    s.pos = surfacePosition(cam, primaryRay(cam, uv), g.w);
+    s.n = g.xyz;
+    s.depth = g.w;
+    return s;
+}
+
+fn previousSurface(coord: vec2u) -> PixelSurface {
+    let g = textureLoad(prevGeometry, coord, 0);
+    var s: PixelSurface;
+    s.pos = previousPixelToWorld(vec2f(coord) + 0.5, g.w, u.resolution);
+    s.n = g.xyz;
+    s.depth = g.w;
+    return s;
+}
+
+// Where 'here' was last frame; (-1, -1) when off-screen or behind the camera
+fn previousPixel(here: PixelSurface) -> vec2f {
+    let prev = reprojectToPrevious(here.pos, u.resolution);
+    let dim = vec2f(textureDimensions(prevGeometry));
+    if (prev.z > 0.0 && all(prev.xy >= vec2f(0.0)) && all(prev.xy < dim)) { return prev.xy; }
+    return vec2f(-1.0);
+}
+
+// Geometric similarity: 'other' must lie on this point's tangent plane and face the same way
+fn isSameSurface(here: PixelSurface, other: PixelSurface) -> bool {
+    if (other.depth <= 0.0) { return false; }
+    let planeDist = abs(dot(other.pos - here.pos, here.n));
+    return planeDist < 0.02 * other.depth + 0.02 && dot(other.n, here.n) > 0.9;
+}
+
+// --- PASS 0: G-BUFFER (Primary Visibility) ---
+struct GBufferOutput {
+    @location(0) geometry: vec4f, // xyz: normal, w: view depth (< 0 for sky)
+    @location(1) albedo: vec4f,   // rgb: surface albedo
+    @location(2) material: vec4f, // x: material ID (-1 light), y: roughness (lights: index), z: metallic, w: IOR
+};
+
+@fragment
+fn fs_gbuffer(@builtin(position) fragCoord: vec4f, @location(0) uv: vec2f) -> GBufferOutput {
+    let cam = currentCamera();
+    let rd = primaryRay(cam, uv);
+    let hit = raymarch(cam.ro, rd, 40.0);
+    let emitter = intersectEmitters(cam.ro, rd, select(40.0, hit.x, hit.y > 0.0));
     
-    if ((*r).w_sum <= 1e-6) {
-        (*r).y = other.y;
-        return;
+    var out: GBufferOutput;
+    out.geometry = vec4f(0.0, 0.0, 0.0, -1.0);
+    if (emitter.x > 0.0) {
+        let pos = cam.ro + rd * emitter.x;
+        let e = lights[u32(emitter.y)].emission;
+        out.geometry = vec4f(emitterNormal(u32(emitter.y), pos), dot(pos - cam.ro, cam.ww));
+        out.albedo = vec4f(e / max(max(e.r, max(e.g, e.b)), 1e-6), 1.0); // Light color, for the albedo view
+        out.material = vec4f(EMITTER_ID, emitter.y, 0.0, 0.0);
+        return out;
     }
+    if (hit.y <= 0.0) { return out; }
+    
+    let pos = cam.ro + rd * hit.x;
+    let n = calcNormal(pos);
+    
+    // PBR inputs from the material table (wet puddles and textures included)
+    let m = surfaceMaterial(hit.y, pos, n);
     
-    if (randVal < (otherW / (*r).w_sum)) {
-        (*r).y = other.y;
+    out.geometry = vec4f(n, dot(pos - cam.ro, cam.ww));
+    out.albedo = vec4f(m.albedo, 1.0);
+    out.material = vec4f(hit.y, m.roughness, m.metallic, m.ior);
+    return out;
+}
+
+// --- PASS 0b: DIRECT LIGHT (ReSTIR DI) ---
+// A sample is a point on a light: its index plus the uv sampleLight maps onto the
+// light's surface. Each pixel runs RIS over u.diCandidates pickLight candidates,
+// drops the winner if it is occluded, then merges last frame's reservoir and a few
+// spatial neighbors. The cost per pixel is fixed however many lights the scene holds.
+const DI_MAX_CANDIDATES = 32u;
+const DI_SPATIAL_TAPS = 3u;
+const DI_HISTORY_LIMIT = 20.0; // Reused M is clamped to this many frames' worth of candidates
+const EMITTER_ID = -1.0;       // G-buffer material ID of a directly visible light
+
+struct DISample {
+    light: u32,
+    uv: vec2f,
+};
+
+struct DIReservoir {
+    y: DISample,
+    w_sum: f32,
+    M: f32,
+    W: f32,
+};
+
+// 16 bytes per pixel. w_sum isn't stored: reuse weighs a reservoir by p_hat W M.
+struct PackedDIReservoir {
+    light: u32,
+    uv: u32, // unorm16x2
+    W: f32,
+    M: f32,
+};
+
+fn pack_di_reservoir(r: DIReservoir) -> PackedDIReservoir {
+    return PackedDIReservoir(r.y.light, pack2x16unorm(r.y.uv), r.W, r.M);
+}
+
+fn unpack_di_reservoir(p: PackedDIReservoir) -> DIReservoir {
+    var r: DIReservoir;
+    r.y = DISample(p.light, unpack2x16unorm(p.uv));
+    r.W = p.W;
+    r.M = p.M;
+    return r;
+}
+
+// What the BRDF needs at a pixel's visible point
+struct ShadingPoint {
+    pos: vec3f,
+    n: vec3f,
+    view: vec3f,
+    m: SurfaceMaterial, // From the G-buffer (emission is looked up separately)
+};
+
+fn shadingPoint(here: PixelSurface, coord: vec2u) -> ShadingPoint {
+    let mat = textureLoad(gMaterial, coord, 0);
+    var sp: ShadingPoint;
+    sp.pos = here.pos;
+    sp.n = here.n;
+    sp.view = normalize(currentCamera().ro - here.pos);
+    sp.m.albedo = textureLoad(gAlbedo, coord, 0).rgb;
+    sp.m.roughness = mat.y;
+    sp.m.metallic = mat.z;
+    sp.m.ior = mat.w;
+    return sp;
+}
+
+// Unshadowed contribution of a light sample; its luminance is the DI target function
+fn lightContribution(y: DISample, sp: ShadingPoint) -> vec3f {
+    if (y.light >= lightCount()) { return vec3f(0.0); } // Reused after the light list shrank
+    let s = sampleLight(y.light, y.uv);
+    return evalBrdfCos(sp.m, sp.n, sp.view, normalize(s.pos - sp.pos)) * incidentLight(y.light, s, sp.pos);
+}
+
+fn combine_di_reservoirs(r: ptr<function, DIReservoir>, other: DIReservoir, sp: ShadingPoint, maxM: f32, randVal: f32) {
+    if (other.M <= 0.0) { return; }
+    let M = min(other.M, maxM);
+    let w = luminance(lightContribution(other.y, sp)) * other.W * M;
+    (*r).w_sum += w;
+    (*r).M += M;
+    if (randVal * (*r).w_sum < w) { (*r).y = other.y; }
+}
+
+// W = w_sum / (M p_hat): the biased 1/M normalization, cheap enough for direct light
+fn finalize_di_reservoir(r: ptr<function, DIReservoir>, sp: ShadingPoint) {
+    let p_hat = luminance(lightContribution((*r).y, sp));
+    (*r).W = select(0.0, (*r).w_sum / ((*r).M * p_hat), p_hat > 0.0 && (*r).M > 0.0);
+    if ((*r).W != (*r).W || (*r).W > 65000.0) { (*r).W = 0.0; }
+}
+
+// RNG slots: 256 + 4i .. 259 + 4i for candidate i (up to 32)
+fn initialDIReservoir(pixel: vec2f, sp: ShadingPoint, count: u32) -> DIReservoir {
+    var r: DIReservoir;
+    for (var i = 0u; i < count; i++) {
+        let slot = 256u + i * 4u;
+        let li = pickLight(rng_float(pixel, u.frameIndex, slot));
+        let y = DISample(li, vec2f(rng_float(pixel, u.frameIndex, slot + 1u), rng_float(pixel, u.frameIndex, slot + 2u)));
+        let w = luminance(lightContribution(y, sp)) / max(lightPickPdf(li) * sampleLight(li, y.uv).pdfArea, 1e-8);
+        r.w_sum += w;
+        r.M += 1.0;
+        if (rng_float(pixel, u.frameIndex, slot + 3u) * r.w_sum < w) { r.y = y; }
     }
+    finalize_di_reservoir(&r, sp);
+    return r;
 }
 
-fn getCosHemisphereSample(n: vec3f, rand1: f32, rand2: f32) -> vec3f {
-    let theta = 6.283185 * rand1;
-    let phi = acos(sqrt(rand2));
-    let local = vec3f(sin(phi)*cos(theta), cos(phi), sin(phi)*sin(theta));
-    let up = select(vec3f(1.0, 0.0, 0.0), vec3f(0.0, 0.0, 1.0), abs(n.z) < 0.999);
-    let x = normalize(cross(up, n));
-    let z = cross(n, x);
-    return x * local.x + n * local.y + z * local.z;
+// Merges run on last frame's reservoirs (RNG slots 384 temporal, 385+ spatial) and
+// the result is resolved with one shadow ray.
+@fragment
+fn fs_direct(@builtin(position) fragCoord: vec4f, @location(0) uv: vec2f) -> @location(0) vec4f {
+    let pixel = fragCoord.xy;
+    let coord = vec2u(pixel);
+    let here = currentSurface(coord);
+    let mat = textureLoad(gMaterial, coord, 0);
+    if (here.depth <= 0.0 || mat.x == EMITTER_ID) {
+        currDIReservoirs[pixelIndex(coord)] = pack_di_reservoir(DIReservoir());
+        if (here.depth <= 0.0) { return vec4f(0.0); }
+        // A light seen directly shows its radiance (area lights only from the front)
+        let l = lights[min(u32(mat.y), lightCount() - 1u)];
+        let facing = l.kind != LIGHT_AREA || dot(here.n, currentCamera().ro - here.pos) > 0.0;
+        return vec4f(select(vec3f(0.0), l.emission, facing), 1.0);
+    }
+    
+    let sp = shadingPoint(here, coord);
+    let count = clamp(u32(u.diCandidates), 1u, DI_MAX_CANDIDATES);
+    let maxM = DI_HISTORY_LIMIT * f32(count);
+    
+    // Visibility reuse: an occluded winner must not spread to neighbors
+    var initial = initialDIReservoir(pixel, sp, count);
+    if (initial.W > 0.0 && !isLightVisible(sampleLight(initial.y.light, initial.y.uv), sp.pos, sp.n)) { initial.W = 0.0; }
+    
+    var r: DIReservoir;
+    combine_di_reservoirs(&r, initial, sp, maxM, 0.0);
+    
+    let prev = previousPixel(here);
+    if (u.frameIndex > 0.0 && prev.x >= 0.0) {
+        let prevCoord = vec2u(prev);
+        if (isSameSurface(here, previousSurface(prevCoord))) {
+            combine_di_reservoirs(&r, unpack_di_reservoir(prevDIReservoirs[pixelIndex(prevCoord)]), sp, maxM, rng_float(pixel, u.frameIndex, 384u));
+        }
+    }
+    if (u.frameIndex > 0.0) {
+        let center = select(pixel, prev, prev.x >= 0.0);
+        for (var i = 0u; i < DI_SPATIAL_TAPS; i++) {
+            let nCoord = spatialTap(pixel, center, i);
+            if (!isSameSurface(here, previousSurface(nCoord))) { continue; }
+            combine_di_reservoirs(&r, unpack_di_reservoir(prevDIReservoirs[pixelIndex(nCoord)]), sp, maxM, rng_float(pixel, u.frameIndex, 385u + i));
+        }
+    }
+    
+    finalize_di_reservoir(&r, sp);
+    currDIReservoirs[pixelIndex(coord)] = pack_di_reservoir(r);
+    
+    // Emissive materials glow on top of the light they reflect
+    let emitted = materialRow(mat.x).emission;
+    if (r.W <= 0.0 || !isLightVisible(sampleLight(r.y.light, r.y.uv), sp.pos, sp.n)) { return vec4f(emitted, 1.0); }
+    return vec4f(emitted + lightContribution(r.y, sp) * r.W, 1.0);
 }
 
 // --- PASS 1: INTEGRATOR (Indirect Only) ---
@@ -193,245 +771,663 @@ fn vs_main(@builtin(vertex_index) vertexIndex: u32) -> VertexOutput {
   return output;
 }
 
-@fragment
-fn fs_main(@builtin(position) fragCoord: vec4f, @location(0) uv: vec2f) -> @location(0) vec4f {
-    let resolution = u.resolution;
-    
-    let ro = u.cameraPos.xyz;
-    let ta = vec3f(0.0);
-    let ww = normalize(ta - ro);
-    let uu = normalize(cross(ww, vec3f(0.0, 1.0, 0.0)));
-    let vv = normalize(cross(uu, ww));
-    let p = (-resolution + 2.0 * uv * resolution) / resolution.y;
-    let rd = normalize(p.x * uu + p.y * vv + 1.5 * ww);
+// --- INITIAL SAMPLING ---
+struct Candidate {
+    z: GISample,
+    pdf: f32, // Source pdf (cosine-weighted hemisphere)
+};
+
+// --- FIREFLY POLICY ---
+// Candidate radiance is limited before it enters the reservoirs, trading a little
+// energy (bias) for stable reuse. u.fireflyPolicy: 0 off (unbiased), 1 scale the
+// color down to luminance u.fireflyClamp (keeps the hue), 2 clamp each channel to it.
+fn applyFireflyPolicy(radiance: vec3f) -> vec3f {
+    let policy = u32(u.fireflyPolicy);
+    if (policy == 1u) {
+        let lum = luminance(radiance);
+        return select(radiance, radiance * (u.fireflyClamp / lum), lum > u.fireflyClamp);
+    }
+    if (policy == 2u) { return min(radiance, vec3f(u.fireflyClamp)); }
+    return radiance;
+}
+
+// Path traces one candidate from the visible point. The first bounce is the
+// reconnection vertex; the remaining bounces feed its outgoing radiance.
+// Depth is u.maxBounces, raised to quality.y by capture presets. After
+// u.rouletteStart bounces, Russian roulette ends paths with probability
+// 1 - max(throughput) and reweights the survivors, so the estimate stays unbiased.
+fn traceCandidate(pixel: vec2f, here: PixelSurface) -> Candidate {
+    var c: Candidate;
+    c.pdf = 1.0;
+    var indirectSample = vec3f(0.0);
     
-    let hit = raymarch(ro, rd, 40.0);
-    let pos = ro + rd * hit.x;
-    let n = calcNormal(pos);
+    // RNG slots: 0, 1 for the first direction; bounce b samples its continuation with
+    // 416 + 2b, 417 + 2b and rolls roulette with 24 + b (up to 8 bounces). Both ranges stay
+    // clear of reuse (16-18), spatial taps (32-127), bounce lights (128-255) and DI (256-387).
+    var throughput = vec3f(1.0);
+    var rayPos = here.pos + here.n * 0.05; // Ray Bias is critical here to prevent black floor artifacts
+    var rayDir = getCosHemisphereSample(here.n, rng_float(pixel, u.frameIndex, 0u), rng_float(pixel, u.frameIndex, 1u));
+    let bounces = clamp(max(u32(u.maxBounces), u32(u.quality.y)), 1u, 8u);
     
-    // --- PATH TRACING (INDIRECT) ---
-    var indirectSample = vec3f(0.0);
+    c.pdf = max(dot(here.n, rayDir), 0.0) / 3.14159265; // Cosine-weighted hemisphere
+    c.z.pos = rayDir;
     
-    if (hit.y > 0.0) {
-        let r1 = rng_float(fragCoord.xy, u.frameIndex, 0u);
-        let r2 = rng_float(fragCoord.xy, u.frameIndex, 1u);
-        
-        // Ray Bias is critical here to prevent black floor artifacts
-        let bounceDir = getCosHemisphereSample(n, r1, r2);
-        let bounceHit = raymarch(pos + n * 0.05, bounceDir, 20.0);
+    for (var b = 0u; b < bounces; b++) {
+        let bounceHit = raymarch(rayPos, rayDir, 20.0);
         
-        if (bounceHit.y > 0.0) {
-            let bPos = pos + n * 0.05 + bounceDir * bounceHit.x;
-            let bN = calcNormal(bPos);
-            
-            // Street Lamp approx position
-            let lightPos = vec3f(15.0 * cos(u.lightAz * 6.28), 10.0 * u.lightEl + 5.0, 15.0 * sin(u.lightAz * 6.28));
-            let blDir = normalize(lightPos - bPos);
-            var bShadow = 1.0;
-            if (raymarch(bPos + bN * 0.08, blDir, distance(bPos, lightPos)).y > 0.0) { bShadow = 0.0; }
-            
-            let bDiff = max(dot(bN, blDir), 0.0);
-            
-            // Material Colors for Bounce
-            // 1=Floor (Asphalt), 2=Artifact, 3=Walls
-            var bAlbedo = vec3f(0.1); // Default Asphalt
-            if (bounceHit.y == 2.0) { bAlbedo = u.baseColor; }
-            if (bounceHit.y == 3.0) { bAlbedo = vec3f(0.2, 0.2, 0.25); } // Concrete
-            
-            indirectSample = (bAlbedo * bDiff * bShadow * 6.0) * u.indirectIntensity; 
-        } else {
+        if (bounceHit.y <= 0.0) {
             // SKY HIT
-            indirectSample = getSkyColor(bounceDir) * u.indirectIntensity * 0.5;
+            indirectSample += throughput * getSkyColor(rayDir) * 0.5;
+            break;
+        }
+        
+        let bPos = rayPos + rayDir * bounceHit.x;
+        let bN = calcNormal(bPos);
+        if (b == 0u) {
+            c.z.pos = bPos;
+            c.z.normal = bN;
         }
+        
+        // Same material table as the G-buffer. Emission plus direct light at the
+        // bounce: one light picked from the scene list (RNG slots 128 + 16b ..)
+        let bMat = surfaceMaterial(bounceHit.y, bPos, bN);
+        let wo = -rayDir;
+        indirectSample += throughput * (bMat.emission + sampleBounceLight(pixel, 128u + b * 16u, bPos, bN, bMat, wo));
+        if (b + 1u >= bounces) { break; }
+        
+        // Cosine-sampled continuation: the path weight is f cos / pdf = f pi
+        let nextDir = getCosHemisphereSample(bN, rng_float(pixel, u.frameIndex, 416u + 2u * b), rng_float(pixel, u.frameIndex, 417u + 2u * b));
+        throughput *= evalBrdfCos(bMat, bN, wo, nextDir) * 3.14159265 / max(dot(bN, nextDir), 1e-4);
+        
+        // RUSSIAN ROULETTE
+        if (b + 1u >= u32(u.rouletteStart)) {
+            let survive = clamp(max(throughput.r, max(throughput.g, throughput.b)), 0.05, 0.95);
+            if (rng_float(pixel, u.frameIndex, 24u + b) >= survive) { break; }
+            throughput /= survive;
+        }
+        rayPos = bPos + bN * 0.05;
+        rayDir = nextDir;
     }
+    indirectSample *= u.indirectIntensity;
     
-    // Clamp to prevent fireflies in dark scene
-    indirectSample = min(indirectSample, vec3f(3.0)); 
+    c.z.radiance = applyFireflyPolicy(indirectSample);
+    return c;
+}
 
-    // --- ReSTIR ACCUMULATION ---
+// Candidate weight: p_hat / source pdf
+fn initialReservoir(pixel: vec2f, here: PixelSurface) -> Reservoir {
+    let c = traceCandidate(pixel, here);
     var r: Reservoir;
-    r.y = indirectSample;
-    let p_hat = luminance(indirectSample);
-    r.w_sum = p_hat; 
-    r.M = 1.0;
+    update_reservoir(&r, c.z, target_pdf(c.z, here.pos, here.n) / max(c.pdf, 1e-6), rng_float(pixel, u.frameIndex, 16u));
+    return r;
+}
+
+// --- REUSE ---
+// Where each merged reservoir came from, for the unbiased normalization
+struct ReuseInputs {
+    surfaces: array<PixelSurface, 33>,
+    M: array<f32, 33>,
+    count: u32,
+};
+
+// Streams a reservoir resampled at 'src' into r, re-targeting its sample to 'here'
+fn reuseReservoir(r: ptr<function, Reservoir>, inputs: ptr<function, ReuseInputs>, neighbor: Reservoir, maxM: f32, here: PixelSurface, src: PixelSurface, randVal: f32) {
+    if (neighbor.M <= 0.0 || (*inputs).count >= 33u) { return; }
+    var rN = neighbor;
+    rN.M = min(rN.M, maxM);
+    
+    let jacobian = reconnection_jacobian(rN.z, here.pos, src.pos);
+    var p_hat = target_pdf(rN.z, here.pos, here.n) / max(jacobian, 1e-6);
     
-    let randRes = rng_float(fragCoord.xy, u.frameIndex, 2u);
+    if (u.unbiasedReuse > 0.5) {
+        if (p_hat > 0.0 && !isSampleVisible(rN.z, here.pos, here.n)) { p_hat = 0.0; }
+    } else if (jacobian > 10.0 || jacobian < 0.1) {
+        return; // Biased mode drops badly distorted shifts instead of testing visibility
+    }
+    
+    combine_reservoirs(r, rN, p_hat, randVal);
+    let i = (*inputs).count;
+    (*inputs).surfaces[i] = src;
+    (*inputs).M[i] = rN.M;
+    (*inputs).count = i + 1u;
+}
 
-    // TEMPORAL REUSE
-    if (u.frameIndex > 0.0 && hit.y > 0.0) {
-        let prevCoord = vec2u(fragCoord.xy);
-        let prevData = textureLoad(historyTexture, prevCoord, 0); 
-        
-        var rPrev: Reservoir;
-        rPrev.y = prevData.rgb;
-        
-        // Clamp M history. Lower M = less ghosting on moving objects
-        rPrev.M = min(prevData.a, 12.0); 
-        
-        rPrev.w_sum = luminance(rPrev.y) * rPrev.M; 
-        
-        combine_reservoirs(&r, rPrev, randRes);
+// TEMPORAL REUSE: last frame's reservoir at the reprojected pixel, if the same surface was visible there
+fn reuseTemporal(r: ptr<function, Reservoir>, inputs: ptr<function, ReuseInputs>, here: PixelSurface, pixel: vec2f, prev: vec2f) {
+    if (u.frameIndex <= 0.0 || prev.x < 0.0) { return; }
+    let coord = vec2u(prev);
+    let src = previousSurface(coord);
+    if (!isSameSurface(here, src)) { return; }
+    
+    // Clamp M history. Lower M = less ghosting on moving objects
+    let rPrev = unpack_reservoir(prevReservoirs[pixelIndex(coord)]);
+    reuseReservoir(r, inputs, rPrev, 12.0, here, src, rng_float(pixel, u.frameIndex, 17u));
+}
+
+// Spatial tap i: within 20px of 'center'. RNG slots: 32+i, 64+i here, 96+i for the merge (up to 32 taps)
+fn spatialTap(pixel: vec2f, center: vec2f, i: u32) -> vec2u {
+    let rS = rng_float(pixel, u.frameIndex, 32u + i);
+    let rAngle = rng_float(pixel, u.frameIndex, 64u + i) * 6.28;
+    let offset = vec2f(cos(rAngle), sin(rAngle)) * pow(rS, 0.5) * 20.0;
+    return vec2u(clamp(center + offset, vec2f(0.0), u.resolution - 1.0));
+}
+
+// W = w_sum / (Z p_hat). Biased: Z = M. Unbiased: Z is this pixel's own M plus the M of every
+// input whose domain could have produced the chosen sample (p_hat_i > 0 and visible).
+fn finalizeReservoir(r: ptr<function, Reservoir>, inputs: ptr<function, ReuseInputs>, ownM: f32, here: PixelSurface) {
+    let p_hat_q = target_pdf((*r).z, here.pos, here.n);
+    var Z = (*r).M;
+    if (u.unbiasedReuse > 0.5) {
+        Z = ownM;
+        for (var i = 0u; i < (*inputs).count; i++) {
+            let s = (*inputs).surfaces[i];
+            if (target_pdf((*r).z, s.pos, s.n) > 0.0 && isSampleVisible((*r).z, s.pos, s.n)) { Z += (*inputs).M[i]; }
+        }
     }
+    (*r).W = select(0.0, (*r).w_sum / (Z * p_hat_q), p_hat_q > 0.0 && Z > 0.0);
     
-    // SPATIAL REUSE
-    if (hit.y > 0.0) {
-        let texDim = vec2u(textureDimensions(historyTexture));
-        let centerLum = luminance(r.y);
+    // Validation
+    let isBad = (*r).W != (*r).W || (*r).W > 65000.0 || any((*r).z.radiance != (*r).z.radiance);
+    if (isBad) { *r = Reservoir(); }
+}
 
-        for (var i = 0u; i < 6u; i++) { 
-            let rS = rng_float(fragCoord.xy, u.frameIndex, 3u + i);
-            let rAngle = rng_float(fragCoord.xy, u.frameIndex, 10u + i) * 6.28;
-            
-            // Radius: 20px
-            let radius = pow(rS, 0.5) * 20.0; 
-            let offset = vec2f(cos(rAngle), sin(rAngle)) * radius;
-            let neighborCoord = vec2u(clamp(vec2f(fragCoord.xy) + offset, vec2f(0.0), vec2f(texDim) - 1.0));
-            
-            let nData = textureLoad(historyTexture, neighborCoord, 0);
-            var rN: Reservoir;
-            rN.y = nData.rgb;
-            rN.M = min(nData.a, 8.0); 
-            rN.w_sum = luminance(rN.y) * rN.M;
-            
-            // Edge Stopping (Luminance Geometry)
-            let lNeighbor = luminance(rN.y);
-            let diff = abs(centerLum - lNeighbor) / (max(centerLum, lNeighbor) + 0.1); 
+// Resolved estimate f(z) W, with f = L_o times the primary surface's BRDF and cosine,
+// stored demodulated (see demodulationAlbedo) for the denoisers and the display pass
+fn shadeReservoir(r: Reservoir, sp: ShadingPoint) -> vec4f {
+    let f = evalBrdfCos(sp.m, sp.n, sp.view, sampleDirection(r.z, sp.pos));
+    let indirect = r.z.radiance * f * r.W / demodulationAlbedo(sp.m, sp.n, sp.view);
+    return vec4f(indirect, r.M);
+}
+
+// Render-pipeline path: the whole integrator in one fragment pass. Spatial taps
+// come from last frame's reservoirs around the reprojected pixel.
+@fragment
+fn fs_main(@builtin(position) fragCoord: vec4f, @location(0) uv: vec2f) -> @location(0) vec4f {
+    let pixel = fragCoord.xy;
+    let coord = vec2u(pixel);
+    let here = currentSurface(coord);
+    if (here.depth <= 0.0) {
+        currReservoirs[pixelIndex(coord)] = pack_reservoir(Reservoir());
+        return vec4f(0.0);
+    }
+    
+    var r = initialReservoir(pixel, here);
+    var inputs: ReuseInputs;
+    
+    let prev = previousPixel(here);
+    reuseTemporal(&r, &inputs, here, pixel, prev);
+    
+    // SPATIAL REUSE
+    if (u.frameIndex > 0.0) {
+        let center = select(pixel, prev, prev.x >= 0.0);
+        let taps = min(u32(u.quality.x), 32u);
+        for (var i = 0u; i < taps; i++) { 
+            let nCoord = spatialTap(pixel, center, i);
+            let src = previousSurface(nCoord);
             
-            // Only merge if neighbors are somewhat similar brightness
-            if (diff < 0.2) { 
-                combine_reservoirs(&r, rN, rng_float(fragCoord.xy, u.frameIndex, 20u + i));
+            // Edge Stopping (Geometry): only reuse from the same surface
+            if (!isSameSurface(here, src)) { continue; }
+            reuseReservoir(&r, &inputs, unpack_reservoir(prevReservoirs[pixelIndex(nCoord)]), 8.0, here, src, rng_float(pixel, u.frameIndex, 96u + i));
+        }
+    }
+    
+    finalizeReservoir(&r, &inputs, 1.0, here);
+    currReservoirs[pixelIndex(coord)] = pack_reservoir(r);
+    return shadeReservoir(r, shadingPoint(here, coord));
+}
+
+// --- PASS 1 (COMPUTE PATH): one dispatch per ReSTIR stage ---
+// initial -> currReservoirs, temporal -> scratchReservoirs, spatial -> currReservoirs, shade -> historyOut.
+// Spatial taps read this frame's temporal reservoirs.
+override WORKGROUP_SIZE_X: u32 = 8;
+override WORKGROUP_SIZE_Y: u32 = 8;
+
+fn inBounds(id: vec3u) -> bool {
+    return f32(id.x) < u.resolution.x && f32(id.y) < u.resolution.y;
+}
+
+@compute @workgroup_size(WORKGROUP_SIZE_X, WORKGROUP_SIZE_Y)
+fn cs_initial(@builtin(global_invocation_id) id: vec3u) {
+    if (!inBounds(id)) { return; }
+    let here = currentSurface(id.xy);
+    var r: Reservoir;
+    if (here.depth > 0.0) { r = initialReservoir(vec2f(id.xy) + 0.5, here); }
+    currReservoirs[pixelIndex(id.xy)] = pack_reservoir(r);
+}
+
+@compute @workgroup_size(WORKGROUP_SIZE_X, WORKGROUP_SIZE_Y)
+fn cs_temporal(@builtin(global_invocation_id) id: vec3u) {
+    if (!inBounds(id)) { return; }
+    let pixel = vec2f(id.xy) + 0.5;
+    let here = currentSurface(id.xy);
+    var r = unpack_reservoir(currReservoirs[pixelIndex(id.xy)]);
+    
+    if (here.depth > 0.0) {
+        var inputs: ReuseInputs;
+        reuseTemporal(&r, &inputs, here, pixel, previousPixel(here));
+        finalizeReservoir(&r, &inputs, 1.0, here);
+    }
+    scratchReservoirs[pixelIndex(id.xy)] = pack_reservoir(r);
+}
+
+@compute @workgroup_size(WORKGROUP_SIZE_X, WORKGROUP_SIZE_Y)
+fn cs_spatial(@builtin(global_invocation_id) id: vec3u) {
+    if (!inBounds(id)) { return; }
+    let pixel = vec2f(id.xy) + 0.5;
+    let here = currentSurface(id.xy);
+    let center = unpack_reservoir(scratchReservoirs[pixelIndex(id.xy)]);
+    if (here.depth <= 0.0) {
+        currReservoirs[pixelIndex(id.xy)] = pack_reservoir(center);
+        return;
+    }
+    
+    // The pixel's own temporal reservoir is already in this domain (|J| = 1)
+    var r: Reservoir;
+    var inputs: ReuseInputs;
+    combine_reservoirs(&r, center, target_pdf(center.z, here.pos, here.n), rng_float(pixel, u.frameIndex, 18u));
+    
+    let taps = min(u32(u.quality.x), 32u);
+    for (var i = 0u; i < taps; i++) {
+        let nCoord = spatialTap(pixel, pixel, i);
+        let src = currentSurface(nCoord);
+        if (!isSameSurface(here, src)) { continue; }
+        reuseReservoir(&r, &inputs, unpack_reservoir(scratchReservoirs[pixelIndex(nCoord)]), 8.0, here, src, rng_float(pixel, u.frameIndex, 96u + i));
+    }
+    
+    finalizeReservoir(&r, &inputs, center.M, here);
+    currReservoirs[pixelIndex(id.xy)] = pack_reservoir(r);
+}
+
+@compute @workgroup_size(WORKGROUP_SIZE_X, WORKGROUP_SIZE_Y)
+fn cs_shade(@builtin(global_invocation_id) id: vec3u) {
+    if (!inBounds(id)) { return; }
+    let here = currentSurface(id.xy);
+    var out = vec4f(0.0);
+    if (here.depth > 0.0) { out = shadeReservoir(unpack_reservoir(currReservoirs[pixelIndex(id.xy)]), shadingPoint(here, id.xy)); }
+    textureStore(historyOut, id.xy, out);
+}
+
+#include "passes/denoise.wgsl"
+
+#include "passes/display.wgsl"
+`
+
+// --- Shader Library ---
+// Modules main.wgsl pulls in with #include, editable in their own editor tabs.
+// Libraries guard themselves with #ifndef so a second #include is a no-op.
+
+export const RESERVOIR_WGSL = `
+#ifndef LIB_RESERVOIR
+#define LIB_RESERVOIR
+// isSampleVisible() traces with raymarch(), which the including file provides
+
+// --- RESERVOIR STRUCT (ReSTIR GI) ---
+// A sample is a reconnection vertex: the secondary hit x_s seen from the
+// pixel's visible point x_v, plus the radiance leaving x_s towards x_v.
+struct GISample {
+    pos: vec3f,      // x_s (for sky samples: the direction)
+    normal: vec3f,   // n_s (zero for sky samples)
+    radiance: vec3f, // L_o(x_s -> x_v)
+};
+
+struct Reservoir {
+    z: GISample,
+    w_sum: f32,     // Sum of resampling weights
+    M: f32,         // Number of candidates seen
+    W: f32,         // Unbiased contribution weight
+};
+
+// 32 bytes per pixel so 4K reservoirs stay within storage binding limits
+struct PackedReservoir {
+    pos: vec3f,
+    W: f32,
+    normal: u32,     // snorm8x4: xyz = n_s, w = 1 for surface samples
+    radianceRG: u32, // f16x2
+    radianceBM: u32, // f16x2: b, M
+    w_sum: f32,
+};
+
+// --- RESERVOIR LOGIC ---
+fn luminance(c: vec3f) -> f32 {
+    return dot(c, vec3f(0.2126, 0.7152, 0.0722));
+}
+
+fn pack_reservoir(r: Reservoir) -> PackedReservoir {
+    var p: PackedReservoir;
+    p.pos = r.z.pos;
+    p.W = r.W;
+    p.normal = pack4x8snorm(vec4f(r.z.normal, select(0.0, 1.0, dot(r.z.normal, r.z.normal) > 0.5)));
+    p.radianceRG = pack2x16float(r.z.radiance.rg);
+    p.radianceBM = pack2x16float(vec2f(r.z.radiance.b, r.M));
+    p.w_sum = r.w_sum;
+    return p;
+}
+
+fn unpack_reservoir(p: PackedReservoir) -> Reservoir {
+    var r: Reservoir;
+    let nm = unpack4x8snorm(p.normal);
+    let bm = unpack2x16float(p.radianceBM);
+    r.z.pos = p.pos;
+    r.z.normal = select(vec3f(0.0), normalize(nm.xyz), nm.w > 0.5);
+    r.z.radiance = vec3f(unpack2x16float(p.radianceRG), bm.x);
+    r.M = bm.y;
+    r.W = p.W;
+    r.w_sum = p.w_sum;
+    return r;
+}
+
+fn isSkySample(s: GISample) -> bool {
+    return dot(s.normal, s.normal) < 0.5;
+}
+
+fn sampleDirection(s: GISample, xv: vec3f) -> vec3f {
+    if (isSkySample(s)) { return s.pos; }
+    return normalize(s.pos - xv);
+}
+
+// Target pdf at visible point (xv, nv): luminance of the Lambertian integrand L_o * cos
+fn target_pdf(s: GISample, xv: vec3f, nv: vec3f) -> f32 {
+    return luminance(s.radiance) * max(dot(nv, sampleDirection(s, xv)), 0.0);
+}
+
+// Is the reconnection vertex unoccluded from (xv, nv)?
+fn isSampleVisible(s: GISample, xv: vec3f, nv: vec3f) -> bool {
+    let origin = xv + nv * 0.05;
+    if (isSkySample(s)) { return raymarch(origin, s.pos, 20.0).y <= 0.0; }
+    let d = distance(s.pos, origin);
+    return raymarch(origin, normalize(s.pos - origin), d - 0.1).y <= 0.0;
+}
+
+// Solid-angle Jacobian |J| for shifting a reconnection from visible point xvFrom to xvTo:
+// (cos phi_to / cos phi_from) * (|x_s - xvFrom|^2 / |x_s - xvTo|^2), angles measured at x_s
+fn reconnection_jacobian(s: GISample, xvTo: vec3f, xvFrom: vec3f) -> f32 {
+    if (isSkySample(s)) { return 1.0; } // Directions at infinity don't change
+    let toTo = xvTo - s.pos;
+    let toFrom = xvFrom - s.pos;
+    let cosTo = abs(dot(s.normal, normalize(toTo)));
+    let cosFrom = abs(dot(s.normal, normalize(toFrom)));
+    return (cosTo / max(cosFrom, 1e-4)) * (dot(toFrom, toFrom) / max(dot(toTo, toTo), 1e-6));
+}
+
+fn update_reservoir(r: ptr<function, Reservoir>, x: GISample, w: f32, randVal: f32) {
+    (*r).w_sum += w;
+    (*r).M += 1.0;
+    if (w > 0.0 && randVal * (*r).w_sum < w) {
+        (*r).z = x;
+    }
+}
+
+// Streams another reservoir in, with its sample already re-targeted (p_hat includes 1/|J|)
+fn combine_reservoirs(r: ptr<function, Reservoir>, other: Reservoir, p_hat: f32, randVal: f32) {
+    let w = p_hat * other.W * other.M;
+    (*r).w_sum += w;
+    (*r).M += other.M;
+    if (w > 0.0 && randVal * (*r).w_sum < w) {
+        (*r).z = other.z;
+    }
+}
+
+fn getCosHemisphereSample(n: vec3f, rand1: f32, rand2: f32) -> vec3f {
+    let theta = 6.283185 * rand1;
+    let phi = acos(sqrt(rand2));
+    let local = vec3f(sin(phi)*cos(theta), cos(phi), sin(phi)*sin(theta));
+    let up = select(vec3f(1.0, 0.0, 0.0), vec3f(0.0, 0.0, 1.0), abs(n.z) < 0.999);
+    let x = normalize(cross(up, n));
+    let z = cross(n, x);
+    return x * local.x + n * local.y + z * local.z;
+}
+#endif
+`;
+
+export const RNG_WGSL = `
+#ifndef LIB_RNG
+#define LIB_RNG
+// --- ROBUST RANDOM NUMBER GENERATOR (PCG) ---
+fn pcg_hash(seed: u32) -> u32 {
+    let state = seed * 747796405u + 2891336453u;
+    let word = ((state >> ((state >> 28u) + 4u)) ^ state) * 277803737u;
+    return (word >> 22u) ^ word;
+}
+
+fn rng_float(pixel: vec2f, frame: f32, slot: u32) -> f32 {
+    let seed = u32(pixel.x) + u32(pixel.y) * u32(u.resolution.x) + u32(frame) * 719393u + slot;
+    return f32(pcg_hash(seed)) / 4294967295.0;
+}
+#endif
+`;
+
+export const SDF_WGSL = `
+#ifndef LIB_SDF
+#define LIB_SDF
+// --- SDF SCENE ---
+// Primitives and CSG helpers for the map() that utils/sceneCompiler.ts generates
+fn sdBox(p: vec3f, b: vec3f) -> f32 {
+  let q = abs(p) - b;
+  return length(max(q, vec3f(0.0))) + min(max(q.x, max(q.y, q.z)), 0.0);
+}
+
+fn sdCapsule(p: vec3f, r: f32, h: f32) -> f32 {
+  return length(vec3f(p.x, p.y - clamp(p.y, -h, h), p.z)) - r;
+}
+
+fn sdCylinder(p: vec3f, r: f32, h: f32) -> f32 {
+  let d = abs(vec2f(length(p.xz), p.y)) - vec2f(r, h);
+  return min(max(d.x, d.y), 0.0) + length(max(d, vec2f(0.0)));
+}
+
+fn sdTorus(p: vec3f, major: f32, minor: f32) -> f32 {
+  return length(vec2f(length(p.xz) - major, p.y)) - minor;
+}
+
+// Polynomial smooth minimum, a plain min() for k = 0
+fn smin(a: f32, b: f32, k: f32) -> f32 {
+  if (k <= 0.0) { return min(a, b); }
+  let h = clamp(0.5 + 0.5 * (b - a) / k, 0.0, 1.0);
+  return mix(b, a, h) - k * h * (1.0 - h);
+}
+
+// CSG on vec2(dist, materialID): the material of whichever surface is nearer wins
+fn opUnion(a: vec2f, b: vec2f, k: f32) -> vec2f {
+  return vec2f(smin(a.x, b.x, k), select(b.y, a.y, a.x < b.x));
+}
+
+fn opSubtract(a: vec2f, b: vec2f, k: f32) -> vec2f {
+  return vec2f(-smin(-a.x, b.x, k), a.y);
+}
+
+fn opIntersect(a: vec2f, b: vec2f, k: f32) -> vec2f {
+  return vec2f(-smin(-a.x, -b.x, k), select(b.y, a.y, a.x > b.x));
+}
+#endif
+`;
+
+export const DENOISE_WGSL = `
+#include "lib/reservoir.wgsl"
+
+// --- PASS 2: DENOISE (bilateral, or SVGF moments + a-trous iterations) ---
+// Filters the integrator's indirect into gFiltered; fs_display reads it when u.denoise.x > 0.
+
+// Bilateral: 5x5 spatial * luminance-range weights
+@fragment
+fn fs_bilateral(@builtin(position) fragCoord: vec4f, @location(0) uv: vec2f) -> @location(0) vec4f {
+    let centerL = luminance(max(textureLoad(historyTexture, vec2u(fragCoord.xy), 0).rgb, vec3f(0.0)));
+    var sum = vec3f(0.0);
+    var wTotal = 0.0;
+    
+    for (var x = -2; x <= 2; x++) {
+        for (var y = -2; y <= 2; y++) {
+            let off = vec2f(f32(x), f32(y));
+            let coord = vec2u(clamp(fragCoord.xy + off, vec2f(0.0), u.resolution - 1.0));
+            let s = max(textureLoad(historyTexture, coord, 0).rgb, vec3f(0.0));
+            let w = exp(-dot(off, off) * 0.3) * exp(-abs(centerL - luminance(s)) * 2.0);
+            sum += s * w;
+            wTotal += w;
+        }
+    }
+    return vec4f(sum / max(wTotal, 0.001), 0.0);
+}
+
+// SVGF, step 1: luminance moments accumulated over time (reprojected like the reservoirs)
+// give a per-pixel variance. Short histories estimate it from the neighborhood instead.
+const SVGF_MAX_HISTORY = 32.0;
+const SVGF_MIN_ALPHA = 0.2;
+
+struct MomentsOutput {
+    @location(0) moments: vec4f,
+    @location(1) filtered: vec4f,
+};
+
+@fragment
+fn fs_svgf_moments(@builtin(position) fragCoord: vec4f, @location(0) uv: vec2f) -> MomentsOutput {
+    let coord = vec2u(fragCoord.xy);
+    let here = currentSurface(coord);
+    let color = max(textureLoad(historyTexture, coord, 0).rgb, vec3f(0.0));
+    let l = luminance(color);
+    
+    var out: MomentsOutput;
+    out.filtered = vec4f(color, 0.0);
+    if (here.depth <= 0.0) { return out; }
+    
+    var moments = vec2f(l, l * l);
+    var historyLength = 1.0;
+    let prev = previousPixel(here);
+    if (prev.x >= 0.0 && u.frameIndex > 0.0 && isSameSurface(here, previousSurface(vec2u(prev)))) {
+        let history = textureLoad(prevMoments, vec2u(prev), 0);
+        historyLength = min(history.z + 1.0, SVGF_MAX_HISTORY);
+        moments = mix(history.xy, moments, max(1.0 / historyLength, SVGF_MIN_ALPHA));
+    }
+    out.moments = vec4f(moments, historyLength, 0.0);
+    
+    var variance = max(moments.y - moments.x * moments.x, 0.0);
+    if (historyLength < 4.0) {
+        var m = vec2f(0.0);
+        var count = 0.0;
+        for (var y = -3; y <= 3; y++) {
+            for (var x = -3; x <= 3; x++) {
+                let c = vec2u(clamp(vec2i(coord) + vec2i(x, y), vec2i(0), vec2i(u.resolution) - 1));
+                if (!isSameSurface(here, currentSurface(c))) { continue; }
+                let sl = luminance(max(textureLoad(historyTexture, c, 0).rgb, vec3f(0.0)));
+                m += vec2f(sl, sl * sl);
+                count += 1.0;
             }
         }
+        m /= max(count, 1.0);
+        variance = max(m.y - m.x * m.x, 0.0) * (4.0 / historyLength); // Distrust young pixels
     }
+    out.filtered.a = variance;
+    return out;
+}
+
+// SVGF, step 2: edge-stopping a-trous wavelet filter. Runs u.denoise.y times with the
+// step doubling each iteration, reading the previous iteration's output from prevFiltered.
+override ITERATION: u32 = 0u;
+
+fn atrousKernel(i: i32) -> f32 {
+    return select(select(1.0 / 6.0, 2.0 / 3.0, i == 1), 1.0, i == 0);
+}
+
+@fragment
+fn fs_atrous(@builtin(position) fragCoord: vec4f, @location(0) uv: vec2f) -> @location(0) vec4f {
+    let coord = vec2i(fragCoord.xy);
+    let maxCoord = vec2i(u.resolution) - 1;
+    let center = textureLoad(prevFiltered, coord, 0);
+    let here = currentSurface(vec2u(coord));
+    if (here.depth <= 0.0) { return center; }
     
-    // Validation
-    let isBad = any(r.y != r.y) || any(abs(r.y) > vec3f(65000.0));
-    if (isBad) { r.y = vec3f(0.0); r.M = 0.0; }
+    // Luminance edge-stopping scales with the (3x3 Gaussian blurred) standard deviation
+    var variance = 0.0;
+    for (var y = -1; y <= 1; y++) {
+        for (var x = -1; x <= 1; x++) {
+            let k = f32((2 - abs(x)) * (2 - abs(y))) / 16.0;
+            variance += k * textureLoad(prevFiltered, clamp(coord + vec2i(x, y), vec2i(0), maxCoord), 0).a;
+        }
+    }
+    let sigmaL = 4.0 * sqrt(max(variance, 0.0)) + 1e-4;
+    let centerL = luminance(center.rgb);
+    let step = i32(1u << ITERATION);
     
-    return vec4f(r.y, r.M);
+    var sum = center;
+    var wSum = 1.0;
+    for (var y = -2; y <= 2; y++) {
+        for (var x = -2; x <= 2; x++) {
+            if (x == 0 && y == 0) { continue; }
+            let c = coord + vec2i(x, y) * step;
+            if (any(c < vec2i(0)) || any(c > maxCoord)) { continue; }
+            let other = currentSurface(vec2u(c));
+            if (other.depth <= 0.0) { continue; }
+            
+            let s = textureLoad(prevFiltered, c, 0);
+            let wNormal = pow(max(dot(here.n, other.n), 0.0), 128.0);
+            let wPlane = exp(-abs(dot(other.pos - here.pos, here.n)) / ((0.02 * here.depth + 0.02) * f32(step)));
+            let wLum = exp(-abs(centerL - luminance(s.rgb)) / sigmaL);
+            let w = atrousKernel(abs(x)) * atrousKernel(abs(y)) * wNormal * wPlane * wLum;
+            sum += vec4f(s.rgb * w, s.a * w * w);
+            wSum += w;
+        }
+    }
+    return vec4f(sum.rgb / wSum, sum.a / (wSum * wSum));
 }
+`;
 
-// --- PASS 2: DISPLAY (Direct Light + Indirect Resolve + Denoise + Tonemap) ---
+export const DISPLAY_WGSL = `
+#include "lib/rng.wgsl"
+
+// --- PASS 3: DISPLAY (Direct Light + Indirect Resolve + Tonemap) ---
 @fragment
 fn fs_display(@builtin(position) fragCoord: vec4f, @location(0) uv: vec2f) -> @location(0) vec4f {
     let resolution = u.resolution;
     
-    let ro = u.cameraPos.xyz;
-    let ta = vec3f(0.0);
-    let ww = normalize(ta - ro);
-    let uu = normalize(cross(ww, vec3f(0.0, 1.0, 0.0)));
-    let vv = normalize(cross(uu, ww));
-    let p = (-resolution + 2.0 * uv * resolution) / resolution.y;
-    let rd = normalize(p.x * uu + p.y * vv + 1.5 * ww);
-    
-    let hit = raymarch(ro, rd, 40.0);
-    let pos = ro + rd * hit.x;
-    let n = calcNormal(pos);
+    // Primary hit and material from the G-buffer (no second primary raymarch)
+    let cam = currentCamera();
+    let rd = primaryRay(cam, uv);
+    let coord = vec2u(fragCoord.xy);
+    let g = textureLoad(gGeometry, coord, 0);
+    let mat = textureLoad(gMaterial, coord, 0);
+    let isSurface = g.w > 0.0;
+    let n = g.xyz;
     
-    // 1. Direct Lighting (PBR Approximation)
+    // 1. Direct Lighting, resolved by the ReSTIR DI pass
     var direct = vec3f(0.0);
-    var albedo = vec3f(0.0);
+    let albedo = textureLoad(gAlbedo, coord, 0).rgb;
     
-    if (hit.y > 0.0) {
-        let lightPos = vec3f(15.0 * cos(u.lightAz * 6.28), 10.0 * u.lightEl + 5.0, 15.0 * sin(u.lightAz * 6.28));
-        let lDir = normalize(lightPos - pos);
-        let viewDir = normalize(ro - pos);
-        let dist = distance(pos, lightPos);
-        
-        var shadow = 1.0;
-        // Increased bias (0.05) to fix floor flickering
-        if (raymarch(pos + n * 0.05, lDir, dist).y > 0.0) { shadow = 0.0; }
-        
-        // PBR Logic
-        // Calculate Roughness based on ID and Position (Wet Puddles)
-        var roughness = u.roughness;
-        var metallic = 0.0;
-        
-        if (hit.y == 1.0) { // Floor
-            // Procedural Puddles: Use sine waves to create wet spots (roughness ~ 0)
-            let noise = sin(pos.x * 2.0) * sin(pos.z * 2.5) + sin(pos.x * 0.5 + pos.z * 0.5);
-            roughness = clamp(noise + 0.5, 0.05, 0.8); // 0.05 = wet, 0.8 = dry asphalt
-            albedo = vec3f(0.05); // Neutral Dark Asphalt
-        } else if (hit.y == 2.0) { // Artifact
-            albedo = u.baseColor;
-            metallic = 0.8;
-            roughness = 0.2;
-        } else { // Walls
-            albedo = vec3f(0.1, 0.1, 0.12); // Concrete
-            roughness = 0.9;
-        }
-
-        let diff = max(dot(n, lDir), 0.0);
-        
-        // Specular (Blinn-Phong)
-        let halfDir = normalize(lDir + viewDir);
-        let specPower = 128.0 * (1.0 - roughness) + 2.0;
-        let spec = pow(max(dot(n, halfDir), 0.0), specPower);
-        
-        // Fresnel approximation for wet look
-        let F0 = mix(vec3f(0.04), albedo, metallic);
-        let fresnel = F0 + (1.0 - F0) * pow(1.0 - max(dot(viewDir, halfDir), 0.0), 5.0);
-        
-        let specColor = fresnel * spec * shadow * 2.0; 
-        
-        // Distance attenuation
-        let atten = 100.0 / (dist * dist + 1.0);
-        
-        direct = (albedo * diff + specColor) * shadow * atten * 4.0;
+    if (isSurface) {
+        direct = max(textureLoad(gDirect, coord, 0).rgb, vec3f(0.0));
     } else {
         // SKY
         direct = getSkyColor(rd) * 0.5; 
     }
     
-    // 2. Fetch Indirect (ReSTIR)
+    // 2. Fetch Indirect (ReSTIR), denoised when a denoiser ran this frame
     let rawIndirect = textureLoad(historyTexture, vec2u(fragCoord.xy), 0);
     var indirectSample = max(rawIndirect.rgb, vec3f(0.0));
+    if (u.denoise.x > 0.5) { indirectSample = max(textureLoad(gFiltered, coord, 0).rgb, vec3f(0.0)); }
     
-    // --- SMART DENOISE (Bilateral Filter) ---
-    // Aggressive Denoise when moving
-    if (u.frameIndex < 60.0) { 
-        var sum = vec3f(0.0);
-        var wTotal = 0.0;
-        let centerL = luminance(indirectSample);
-        
-        for(var x = -2; x <= 2; x++){ 
-            for(var y = -2; y <= 2; y++){
-                let off = vec2f(f32(x), f32(y));
-                let coord = vec2u(clamp(fragCoord.xy + off, vec2f(0.0), resolution - 1.0));
-                let s = textureLoad(historyTexture, coord, 0).rgb;
-                let l = luminance(s);
-                
-                let dist = dot(off, off);
-                let wSpace = exp(-dist * 0.3); 
-                let wRange = exp(-abs(centerL - l) * 2.0);
-                
-                let w = wSpace * wRange;
-                sum += s * w;
-                wTotal += w;
-            }
-        }
-        indirectSample = sum / max(wTotal, 0.001);
-    }
-
     // Safety
     let isBadInd = any(indirectSample != indirectSample) || any(abs(indirectSample) > vec3f(65000.0));
     if (isBadInd) { indirectSample = vec3f(0.0); }
     
+    // Remodulate: the indirect passes store it divided by the surface's directional albedo
+    var indirect = vec3f(0.0);
+    if (isSurface && mat.x != EMITTER_ID) {
+        let sp = shadingPoint(currentSurface(coord), coord);
+        indirect = indirectSample * demodulationAlbedo(sp.m, sp.n, sp.view);
+    }
+    
     // --- DEBUG MODES ---
     let mode = u32(u.debugMode);
     if (mode == 1u) { return vec4f(albedo, 1.0); } 
     if (mode == 2u) { return vec4f(n * 0.5 + 0.5, 1.0); } 
     if (mode == 3u) { return vec4f(direct, 1.0); } 
-    if (mode == 4u) { return vec4f(indirectSample, 1.0); } 
+    if (mode == 4u) { return vec4f(indirect, 1.0); } 
     if (mode == 5u) { 
         let heat = clamp(rawIndirect.a / 12.0, 0.0, 1.0); 
         return vec4f(mix(vec3f(0.0,0.0,0.5), vec3f(1.0,0.2,0.0), heat), 1.0); 
     }
     
-    var total = direct;
-    if (hit.y > 0.0) {
-        total += indirectSample;
-    }
+    let total = direct + indirect;
+    
+    // Linear HDR (pre-tonemap), used for EXR / 16-bit captures
+    if (mode == 6u) { return vec4f(total, 1.0); }
     
     // 3. Post Processing
     var color = total;
@@ -448,8 +1444,8 @@ fn fs_display(@builtin(position) fragCoord: vec4f, @location(0) uv: vec2f) -> @l
     color = pow(color, vec3f(1.0 / 2.2));
     
     // Aberration (Reduced to prevent green fringing)
-    if (u.aberration > 0.0) {
-        let off = u.aberration * 3.0; 
+    if (u.aberrationStrength > 0.0) {
+        let off = u.aberrationStrength * 3.0; 
         let rCoord = vec2u(clamp(fragCoord.xy - vec2f(off, 0.0), vec2f(0.0), resolution - 1.0));
         let rVal = textureLoad(historyTexture, rCoord, 0).r; 
         let tmR = (rVal * (6.2 * rVal + 0.5)) / (rVal * (6.2 * rVal + 1.7) + 0.06);
@@ -465,4 +1461,16 @@ fn fs_display(@builtin(position) fragCoord: vec4f, @location(0) uv: vec2f) -> @l
     
     return vec4f(color, 1.0);
 }
-`
\ No newline at end of file
+`;
+
+export const SHADER_MAIN_FILE = 'main.wgsl';
+
+// The editor's tabs, in order. #include names are these paths.
+export const DEFAULT_SHADER_FILES: ShaderFile[] = [
+  { name: SHADER_MAIN_FILE, code: BOILERPLATE_SHADER_WGSL },
+  { name: 'lib/rng.wgsl', code: RNG_WGSL },
+  { name: 'lib/sdf.wgsl', code: SDF_WGSL },
+  { name: 'lib/reservoir.wgsl', code: RESERVOIR_WGSL },
+  { name: 'passes/denoise.wgsl', code: DENOISE_WGSL },
+  { name: 'passes/display.wgsl', code: DISPLAY_WGSL },
+];
@@ -2,10 +2,50 @@
 export interface ShaderError {
   type: 'compilation' | 'validation' | 'runtime';
   message: string;
+  file?: string; // Shader file lineNum is in
   lineNum?: number;
   linePos?: number;
 }
 
+// --- Shader Files ---
+// The shader is a small project: main.wgsl plus library modules it #includes
+// (utils/shaderPreprocessor.ts), each edited in its own tab.
+export interface ShaderFile {
+  name: string; // The path #include refers to it by
+  code: string;
+}
+
+// Where a line of the preprocessed source came from
+export interface SourceLocation {
+  file: string;
+  line: number; // 1-based
+}
+
+// --- Diagnostics ---
+// Everything a shader build or a frame reported, collected by utils/gpuDiagnostics.ts:
+// annotation issues, getCompilationInfo messages (all severities), errors caught by
+// the error scopes around pipeline creation and frame submission, and device loss.
+export type DiagnosticSeverity = 'error' | 'warning' | 'info';
+
+export type DiagnosticStage = 'preprocess' | 'annotation' | 'module' | 'pipeline' | 'frame' | 'device';
+
+export interface SourceRange {
+  file?: string;     // Shader file; absent while the range is still in the preprocessed source
+  startLine: number; // 1-based (the generated Uniforms prelude is not part of any file)
+  startColumn: number;
+  endLine: number;
+  endColumn: number;
+}
+
+export interface ShaderDiagnostic {
+  severity: DiagnosticSeverity;
+  stage: DiagnosticStage;
+  message: string;
+  pass?: string;       // Render graph pass
+  entryPoint?: string;
+  range?: SourceRange; // Absent when the message points into the prelude or has no location
+}
+
 export type ParamType = 'float' | 'color' | 'vec3';
 
 export interface BaseParam {
@@ -34,22 +74,270 @@ export interface Vec3Param extends BaseParam {
 
 export type ShaderParam = FloatParam | ColorParam | Vec3Param;
 
+export type ParamValue = ShaderParam['value'];
+
+export type ParamOverrides = Record<string, ParamValue>; // Param ID -> value
+
+export interface UniformField {
+  name: string; // WGSL member name (param ID for params)
+  type: string; // WGSL type
+  align: number;
+  size: number;
+  doc?: string;
+}
+
 export interface UniformLayout {
   size: number; // Total buffer size in bytes
-  offsetMap: Record<string, number>; // Map of param ID to byte offset
+  offsetMap: Record<string, number>; // Map of field name / param ID to byte offset
+  fields: (UniformField & { offset: number })[];
+}
+
+export interface RenderQuality {
+  spatialTaps: number; // ReSTIR spatial reuse neighbors
+  bounces: number;     // Minimum indirect path depth (the Max Bounces param can go deeper)
+  jitter: boolean;     // Sub-pixel primary ray jitter (supersampling across accumulated frames)
+}
+
+// How Pass 1 (the ReSTIR integrator) runs: one fullscreen fragment pass, or
+// compute dispatches for initial sampling, temporal reuse, spatial reuse and shading
+export type IntegratorMode = 'render' | 'compute';
+
+export interface IntegratorSettings {
+  mode: IntegratorMode;
+  workgroupSize: [number, number]; // Compute path only
+}
+
+// Filters the integrator's indirect light before display. SVGF runs `iterations`
+// a-trous passes guided by temporally accumulated luminance moments.
+export type DenoiserMode = 'off' | 'bilateral' | 'svgf';
+
+export interface DenoiserSettings {
+  mode: DenoiserMode;
+  iterations: number; // SVGF only
+}
+
+// --- Scene Lights ---
+// Packed into the shader's `lights` storage buffer (see utils/sceneLights.ts);
+// direct light picks among them with ReSTIR DI.
+export type LightKind = 'point' | 'spot' | 'area' | 'emissive';
+
+export interface SceneLight {
+  id: string;
+  label: string;
+  kind: LightKind;
+  enabled: boolean;
+  position: [number, number, number];  // Center for area and emissive lights
+  color: [number, number, number];     // RGB 0-1
+  intensity: number;                   // Point / spot: intensity. Area / emissive: radiance
+  direction: [number, number, number]; // Spot axis, area facing, emissive tube axis
+  size: [number, number];              // Area: width, height. Emissive: tube length, radius
+  coneAngle: number;                   // Spot outer half-angle in degrees (the inner one is 80% of it)
+}
+
+// --- Scene Materials ---
+// One row per map() material ID (row i is ID i + 1), packed into the shader's
+// `materials` storage buffer (see utils/sceneMaterials.ts). The G-buffer and the
+// path tracer shade with the same table.
+export interface SceneMaterial {
+  label: string;
+  albedo: [number, number, number];   // RGB 0-1 (F0 for metals)
+  roughness: number;                  // Perceptual, 0-1
+  metallic: number;                   // 0-1
+  emission: [number, number, number]; // Radiance
+  ior: number;                        // Dielectric Fresnel
+  wetness: number;                    // Puddle strength, 0-1
+  textured: boolean;                  // iChannel0/1 modulate albedo / roughness
+}
+
+// --- Scene Description ---
+// A JSON tree of SDF nodes that utils/sceneCompiler.ts turns into the shader's map()
+// and the material table. Fields with per-type meaning follow SceneLight's `size`.
+export type SdfShape = 'sphere' | 'box' | 'plane' | 'capsule' | 'cylinder' | 'torus';
+export type CsgOp = 'union' | 'subtract' | 'intersect';
+export type DeformKind = 'twist' | 'bend' | 'displace' | 'round' | 'onion';
+
+interface SceneNodeBase {
+  label?: string;
+}
+
+export interface PrimitiveNode extends SceneNodeBase {
+  type: 'primitive';
+  shape: SdfShape;
+  size: [number, number, number]; // Box: half extents. Sphere: radius. Capsule / cylinder: radius, half height. Torus: major, minor radius. Plane: unused (y-up through the origin)
+  material: number;               // Row of the scene's material table
+}
+
+export interface CsgNode extends SceneNodeBase {
+  type: 'csg';
+  op: CsgOp;       // Subtract: the first child minus the rest
+  smooth: number;  // Blend radius, 0 = hard
+  children: SceneNode[];
+}
+
+export interface TransformNode extends SceneNodeBase {
+  type: 'transform';
+  position: [number, number, number];
+  rotation: [number, number, number]; // Euler degrees, applied X then Y then Z
+  scale: number;                      // Uniform, keeps the distance a bound
+  child: SceneNode;
+}
+
+export interface RepeatNode extends SceneNodeBase {
+  type: 'repeat';
+  period: [number, number, number]; // Cell size per axis, 0 = no repetition
+  count: [number, number, number];  // Copies either side of the origin, 0 = infinite
+  child: SceneNode;
+}
+
+export interface MirrorNode extends SceneNodeBase {
+  type: 'mirror';
+  axes: [boolean, boolean, boolean]; // Folds the negative half onto the positive one
+  child: SceneNode;
 }
 
+export interface DeformNode extends SceneNodeBase {
+  type: 'deform';
+  deform: DeformKind;
+  amount: number;    // Twist / bend: radians per unit (or wave amplitude). Displace: amplitude. Round / onion: radius / thickness
+  frequency: number; // Twist / displace: wave frequency, 0 = a plain twist
+  speed: number;     // Wave speed, times u.time * u.animSpeed
+  audio: number;     // Added to amount per unit of u.audio.x
+  child: SceneNode;
+}
+
+export type SceneNode = PrimitiveNode | CsgNode | TransformNode | RepeatNode | MirrorNode | DeformNode;
+
+export interface SceneDescription {
+  version: 1;
+  name?: string;
+  materials: SceneMaterial[];
+  root: SceneNode;
+}
+
+// --- Sessions & Presets ---
+// Everything a reload would lose (utils/sessionStore.ts). The renderer owns params, lights,
+// the orbit camera and its integrator / denoiser settings; App owns the shader and the scene.
+// The debug view is the shader's `debugMode` param.
+export interface RendererSession {
+  params: ParamOverrides; // Params not listed take the shader's defaults
+  lights: SceneLight[];
+  camera: { theta: number; phi: number; radius: number };
+  integrator: IntegratorSettings;
+  denoiser: DenoiserSettings;
+}
+
+export interface SessionPreset extends RendererSession {
+  version: 1;
+  name: string;
+  savedAt: string; // ISO timestamp
+  shaderFiles: ShaderFile[];
+  scene: SceneDescription;
+}
+
+// --- Render Graph ---
+// Declared by the shader (see utils/renderGraph.ts), allocated and run by the renderer.
+export type GraphView = 'current' | 'previous';
+
+export interface GraphResourceBase {
+  name: string;
+  scale: number;     // Size relative to the render resolution
+  pingpong: boolean; // Keeps last frame's contents as the 'previous' view
+}
+
+export interface GraphTexture extends GraphResourceBase {
+  kind: 'texture';
+  format: string;
+  clear: [number, number, number, number]; // Clear value when used as a render target
+}
+
+export interface GraphBuffer extends GraphResourceBase {
+  kind: 'buffer';
+  bytesPerPixel: number;
+}
+
+export type GraphResource = GraphTexture | GraphBuffer;
+
+export type GraphBindingType = 'uniform' | 'sampler' | 'texture' | 'storage-texture' | 'read-only-storage' | 'storage';
+
+export interface GraphBinding {
+  name: string; // Shader variable
+  binding: number;
+  type: GraphBindingType;
+  writes: boolean;
+  sampleType?: 'float' | 'unfilterable-float' | 'uint' | 'sint'; // Sampled textures
+  format?: string; // Storage textures
+  access?: 'write-only' | 'read-only' | 'read-write'; // Storage textures
+  channel?: number; // iChannel0..3
+  scene?: string;    // Renderer-owned scene buffer (see SCENE_BUFFERS)
+  resource?: string; // Graph resource bound here (absent for globals)
+  view?: GraphView;
+}
+
+export interface GraphPass {
+  name: string;
+  type: 'render' | 'compute';
+  entryPoint: string;
+  integrator?: IntegratorMode; // Only runs in this integrator mode
+  denoiser?: DenoiserMode[];   // Only runs with one of these denoisers
+  iterate?: boolean;           // Runs once per denoiser iteration (render passes only)
+  targets: string[]; // Render targets in @location order: resource names or 'screen'
+  bindings: GraphBinding[]; // Includes the globals every pass gets
+}
+
+export interface RenderGraph {
+  resources: GraphResource[];
+  passes: GraphPass[];
+}
+
+export interface CapturePreset extends RenderQuality {
+  label: string;
+  width: number;
+  height: number;
+  frames: number; // Accumulation frames before the still is taken
+}
+
+export interface HdrCaptureOptions {
+  format: 'exr' | 'png16';
+  aovs: boolean;    // Add albedo, normal, direct and indirect layers
+  quality?: number; // CAPTURE_PRESETS key, defaults to Standard
+}
+
+export type ExportFormat = 'webm' | 'mp4' | 'png'; // 'png' = numbered PNG sequence in a ZIP
+
 export type ShotType = 'orbit' | 'sweep' | 'dolly' | 'breathing' | 'chaos';
 
 export interface VideoConfig {
   duration: number; // Seconds
   fps: number;
   bitrate: number; // Mbps
+  subframes: number; // Accumulation steps per output frame (ReSTIR convergence)
   shotType: ShotType; // Camera Movement
   orchestrate: boolean; // Auto-animate scene params?
+  timeline?: ParamTimeline; // Custom orchestration, falls back to the auto timeline
   postProcess: {
       grain: number;
       aberration: number;
   };
-  format: 'webm' | 'mp4';
+  format: ExportFormat;
+}
+
+export type Interpolation = 'linear' | 'ease' | 'hold';
+
+export type KeyframeValue = ParamValue;
+
+export interface Keyframe {
+  time: number; // Seconds from recording start
+  value: KeyframeValue;
+  interpolation?: Interpolation; // How to travel to the NEXT keyframe (default: linear)
+}
+
+export interface ParamTrack {
+  paramId: string;
+  keyframes: Keyframe[];
+}
+
+export interface ParamTimeline {
+  version: 1;
+  name?: string;
+  tracks: ParamTrack[];
 }
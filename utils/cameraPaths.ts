@@ -0,0 +1,110 @@
+import { ShotType } from '../types';
+
+// --- Procedural Camera Shots ---
+// Every shot is a pure function of recorded time, so re-rendering the same
+// config always produces the same camera path regardless of frame pacing.
+
+export interface OrbitCamera {
+  theta: number;
+  phi: number;
+  radius: number;
+}
+
+export interface CameraPose extends OrbitCamera {
+  target: [number, number, number];
+}
+
+export interface CameraEye {
+  eye: [number, number, number];
+  target: [number, number, number];
+}
+
+const TAU = Math.PI * 2;
+const ORIGIN: [number, number, number] = [0, 0, 0];
+
+const clamp = (x: number, lo: number, hi: number) => Math.min(hi, Math.max(lo, x));
+const smoothstep = (x: number) => { const t = clamp(x, 0, 1); return t * t * (3 - 2 * t); };
+
+// Cheap band-limited noise: a sum of incommensurate sines. Deterministic, no seed state.
+const wobble = (t: number, seed: number) =>
+  (Math.sin(t * 1.31 + seed * 12.9898) * 0.5 +
+   Math.sin(t * 2.77 + seed * 78.233) * 0.3 +
+   Math.sin(t * 5.13 + seed * 37.719) * 0.2);
+
+export const evaluateCameraShot = (shot: ShotType, time: number, duration: number, origin: OrbitCamera): CameraPose => {
+  const progress = duration > 0 ? clamp(time / duration, 0, 1) : 0;
+  const { theta, phi, radius } = origin;
+
+  switch (shot) {
+    case 'orbit':
+      // One full revolution over the clip, preserving the user's framing
+      return { theta: theta + TAU * progress, phi, radius, target: ORIGIN };
+
+    case 'sweep': {
+      // Low lateral pass that rises slightly mid-shot
+      const s = smoothstep(progress);
+      return {
+        theta: theta + (s - 0.5) * 1.4,
+        phi: 0.02 + Math.sin(Math.PI * progress) * 0.25,
+        radius: radius * 0.85,
+        target: [0, -0.5 + Math.sin(Math.PI * progress) * 0.4, 0],
+      };
+    }
+
+    case 'dolly': {
+      // Push in to ~55% distance and pull back out
+      const push = Math.sin(Math.PI * smoothstep(progress));
+      return { theta, phi, radius: radius * (1.25 - push * 0.7), target: ORIGIN };
+    }
+
+    case 'breathing': {
+      // Slow 4s cycle, matching the export dialog preview
+      const b = Math.sin(TAU * time / 4.0);
+      return { theta: theta + b * 0.03, phi: phi + b * 0.02, radius: radius * (1.0 - b * 0.05), target: ORIGIN };
+    }
+
+    case 'chaos': {
+      // Handheld: jitter both the eye and the aim point
+      return {
+        theta: theta + wobble(time, 1) * 0.08,
+        phi: clamp(phi + wobble(time, 2) * 0.05, -1.5, 1.5),
+        radius: radius * (1.0 + wobble(time, 3) * 0.04),
+        target: [wobble(time * 1.7, 4) * 0.15, wobble(time * 1.7, 5) * 0.1, wobble(time * 1.7, 6) * 0.15],
+      };
+    }
+
+    default:
+      return { theta, phi, radius, target: ORIGIN };
+  }
+};
+
+export const poseToEye = (pose: CameraPose): CameraEye => {
+  const [tx, ty, tz] = pose.target;
+  return {
+    eye: [
+      tx + pose.radius * Math.cos(pose.phi) * Math.sin(pose.theta),
+      ty + pose.radius * Math.sin(pose.phi),
+      tz + pose.radius * Math.cos(pose.phi) * Math.cos(pose.theta),
+    ],
+    target: pose.target,
+  };
+};
+
+// World -> camera space (x right, y up, z forward) as a column-major mat4x4f,
+// using the same look-at basis the shader builds from cameraPos/cameraTarget
+export const cameraViewMatrix = ({ eye, target }: CameraEye): number[] => {
+  const sub = (a: number[], b: number[]) => [a[0] - b[0], a[1] - b[1], a[2] - b[2]];
+  const dot = (a: number[], b: number[]) => a[0] * b[0] + a[1] * b[1] + a[2] * b[2];
+  const cross = (a: number[], b: number[]) => [a[1] * b[2] - a[2] * b[1], a[2] * b[0] - a[0] * b[2], a[0] * b[1] - a[1] * b[0]];
+  const normalize = (a: number[]) => { const l = Math.hypot(a[0], a[1], a[2]) || 1; return [a[0] / l, a[1] / l, a[2] / l]; };
+
+  const ww = normalize(sub(target, eye));
+  const uu = normalize(cross(ww, [0, 1, 0]));
+  const vv = normalize(cross(uu, ww));
+  return [
+    uu[0], vv[0], ww[0], 0,
+    uu[1], vv[1], ww[1], 0,
+    uu[2], vv[2], ww[2], 0,
+    -dot(uu, eye), -dot(vv, eye), -dot(ww, eye), 1,
+  ];
+};
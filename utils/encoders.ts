@@ -0,0 +1,62 @@
+import { ExportFormat } from '../types';
+import { FrameSink, FrameSinkInfo, createMediaRecorderSink, createPngSequenceSink, createWebCodecsSink, findSupportedCodec } from './frameSinks';
+
+// --- Encoder Backends ---
+// Each export format lists its backends in order of preference. The first
+// supported one wins; the PNG sequence is the universal fallback.
+
+export interface EncoderBackend {
+  id: string;
+  label: string;
+  format: ExportFormat;
+  isSupported: (info: FrameSinkInfo) => Promise<boolean>;
+  createSink: () => FrameSink;
+}
+
+export interface EncoderProbe {
+  backend: EncoderBackend;
+  supported: boolean;
+}
+
+const WEBM_MIME = 'video/webm;codecs=vp9';
+
+export const ENCODER_BACKENDS: EncoderBackend[] = [
+  {
+    id: 'webcodecs-mp4',
+    label: 'WebCodecs H.264 (MP4)',
+    format: 'mp4',
+    isSupported: async (info) => (await findSupportedCodec('mp4', info)) !== null,
+    createSink: () => createWebCodecsSink('mp4'),
+  },
+  {
+    id: 'webcodecs-webm',
+    label: 'WebCodecs VP9 (WebM)',
+    format: 'webm',
+    isSupported: async (info) => (await findSupportedCodec('webm', info)) !== null,
+    createSink: () => createWebCodecsSink('webm'),
+  },
+  {
+    id: 'mediarecorder-webm',
+    label: 'MediaRecorder (WebM)',
+    format: 'webm',
+    isSupported: async () => typeof MediaRecorder !== 'undefined' && MediaRecorder.isTypeSupported(WEBM_MIME),
+    createSink: () => createMediaRecorderSink(WEBM_MIME),
+  },
+  {
+    id: 'png-zip',
+    label: 'PNG Sequence (ZIP)',
+    format: 'png',
+    isSupported: async () => true,
+    createSink: () => createPngSequenceSink(),
+  },
+];
+
+export const probeEncoderBackends = async (info: FrameSinkInfo): Promise<EncoderProbe[]> =>
+  Promise.all(ENCODER_BACKENDS.map(async backend => ({ backend, supported: await backend.isSupported(info) })));
+
+export const resolveEncoderBackend = async (format: ExportFormat, info: FrameSinkInfo): Promise<EncoderBackend> => {
+  for (const backend of ENCODER_BACKENDS) {
+    if (backend.format === format && await backend.isSupported(info)) return backend;
+  }
+  return ENCODER_BACKENDS[ENCODER_BACKENDS.length - 1];
+};
@@ -0,0 +1,203 @@
+import { ZipWriter, createZipWriter } from './zip';
+
+// --- Frame Sinks ---
+// The offline renderer hands every finished output frame to a FrameSink.
+// Sinks must snapshot the canvas synchronously inside addFrame (before their
+// first await): the WebGPU swap chain texture is only valid for the current task.
+
+export interface FrameSinkInfo {
+  width: number;
+  height: number;
+  fps: number;
+  frameCount: number;
+  bitrate: number; // Mbps
+}
+
+export interface FrameSink {
+  readonly label: string;
+  readonly fileExtension: string;
+  begin: (canvas: HTMLCanvasElement, info: FrameSinkInfo) => Promise<void>;
+  addFrame: (canvas: HTMLCanvasElement, index: number, timestamp: number) => Promise<void>;
+  finish: () => Promise<Blob>;
+  abort: () => void;
+}
+
+export const downloadBlob = (blob: Blob, filename: string) => {
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement('a');
+  a.href = url; a.download = filename; a.click();
+  URL.revokeObjectURL(url);
+};
+
+const sleep = (ms: number) => new Promise<void>(resolve => setTimeout(resolve, ms));
+
+// MediaRecorder only knows wall-clock time. To keep the output timeline exact
+// no matter how slowly frames render, the recorder stays paused while the GPU
+// works and is resumed for exactly one frame period after each pushed frame.
+export const createMediaRecorderSink = (mimeType = 'video/webm;codecs=vp9'): FrameSink => {
+  let recorder: MediaRecorder | null = null;
+  let track: CanvasCaptureMediaStreamTrack | null = null;
+  let chunks: Blob[] = [];
+  let framePeriod = 1000 / 60;
+
+  return {
+    label: 'MediaRecorder (WebM)',
+    fileExtension: 'webm',
+    begin: async (canvas, info) => {
+      chunks = [];
+      framePeriod = 1000 / info.fps;
+      const stream = canvas.captureStream(0); // Manual frame pushing
+      track = stream.getVideoTracks()[0] as CanvasCaptureMediaStreamTrack;
+      recorder = new MediaRecorder(stream, { mimeType, videoBitsPerSecond: info.bitrate * 1000000 });
+      recorder.ondataavailable = (e) => { if (e.data.size > 0) chunks.push(e.data); };
+      recorder.start();
+      recorder.pause();
+    },
+    addFrame: async () => {
+      if (!recorder || !track) return;
+      track.requestFrame();
+      recorder.resume();
+      await sleep(framePeriod);
+      recorder.pause();
+    },
+    finish: () => new Promise<Blob>((resolve) => {
+      if (!recorder || recorder.state === 'inactive') { resolve(new Blob(chunks, { type: 'video/webm' })); return; }
+      recorder.onstop = () => resolve(new Blob(chunks, { type: 'video/webm' }));
+      recorder.stop();
+    }),
+    abort: () => {
+      if (recorder && recorder.state !== 'inactive') recorder.stop();
+      recorder = null; track = null; chunks = [];
+    },
+  };
+};
+
+// --- WebCodecs ---
+// Frames are timestamped from their index, so the container timeline is exact.
+export type WebCodecsContainer = 'mp4' | 'webm';
+
+export const WEBCODECS_CANDIDATES: Record<WebCodecsContainer, string[]> = {
+  mp4: ['avc1.640033', 'avc1.4d0033', 'avc1.42003e'], // H.264 High / Main / Baseline
+  webm: ['vp09.00.41.08', 'vp8'],
+};
+
+const encoderConfig = (codec: string, info: FrameSinkInfo): VideoEncoderConfig => ({
+  codec,
+  width: info.width,
+  height: info.height,
+  bitrate: info.bitrate * 1000000,
+  framerate: info.fps,
+  avc: codec.startsWith('avc1') ? { format: 'avc' } : undefined,
+});
+
+export const findSupportedCodec = async (container: WebCodecsContainer, info: FrameSinkInfo): Promise<string | null> => {
+  if (typeof VideoEncoder === 'undefined') return null;
+  for (const codec of WEBCODECS_CANDIDATES[container]) {
+    try {
+      const support = await VideoEncoder.isConfigSupported(encoderConfig(codec, info));
+      if (support.supported) return codec;
+    } catch (e) { /* Malformed config on this platform, try the next one */ }
+  }
+  return null;
+};
+
+export const createWebCodecsSink = (container: WebCodecsContainer): FrameSink => {
+  let encoder: VideoEncoder | null = null;
+  let finalizeMuxer: (() => ArrayBuffer) | null = null;
+  let encodeError: any = null;
+  let frameDuration = 0;
+  let keyInterval = 60;
+
+  const mimeType = container === 'mp4' ? 'video/mp4' : 'video/webm';
+
+  return {
+    label: `WebCodecs (${container.toUpperCase()})`,
+    fileExtension: container,
+    begin: async (_canvas, info) => {
+      const codec = await findSupportedCodec(container, info);
+      if (!codec) throw new Error(`No WebCodecs encoder available for ${container.toUpperCase()}`);
+      frameDuration = Math.round(1000000 / info.fps);
+      keyInterval = info.fps * 2;
+      encodeError = null;
+
+      let addChunk: (chunk: EncodedVideoChunk, meta?: EncodedVideoChunkMetadata) => void;
+      if (container === 'mp4') {
+        const { Muxer, ArrayBufferTarget } = await import('mp4-muxer');
+        const target = new ArrayBufferTarget();
+        const muxer = new Muxer({ target, video: { codec: 'avc', width: info.width, height: info.height, frameRate: info.fps }, fastStart: 'in-memory' });
+        addChunk = (chunk, meta) => muxer.addVideoChunk(chunk, meta);
+        finalizeMuxer = () => { muxer.finalize(); return target.buffer; };
+      } else {
+        const { Muxer, ArrayBufferTarget } = await import('webm-muxer');
+        const target = new ArrayBufferTarget();
+        const muxer = new Muxer({ target, video: { codec: codec === 'vp8' ? 'V_VP8' : 'V_VP9', width: info.width, height: info.height, frameRate: info.fps } });
+        addChunk = (chunk, meta) => muxer.addVideoChunk(chunk, meta);
+        finalizeMuxer = () => { muxer.finalize(); return target.buffer; };
+      }
+
+      encoder = new VideoEncoder({
+        output: (chunk, meta) => addChunk(chunk, meta),
+        error: (e) => { encodeError = e; },
+      });
+      encoder.configure(encoderConfig(codec, info));
+    },
+    addFrame: async (canvas, index) => {
+      if (!encoder) return;
+      if (encodeError) throw encodeError;
+      const frame = new VideoFrame(canvas, { timestamp: index * frameDuration, duration: frameDuration });
+      encoder.encode(frame, { keyFrame: index % keyInterval === 0 });
+      frame.close();
+      // Backpressure: don't let the encoder fall far behind the GPU
+      while (encoder.encodeQueueSize > 4) {
+        await new Promise(resolve => encoder!.addEventListener('dequeue', resolve, { once: true }));
+      }
+    },
+    finish: async () => {
+      if (!encoder || !finalizeMuxer) throw new Error('Encoder was not started');
+      await encoder.flush();
+      if (encodeError) throw encodeError;
+      encoder.close();
+      const buffer = finalizeMuxer();
+      encoder = null; finalizeMuxer = null;
+      return new Blob([buffer], { type: mimeType });
+    },
+    abort: () => {
+      if (encoder && encoder.state !== 'closed') encoder.close();
+      encoder = null; finalizeMuxer = null;
+    },
+  };
+};
+
+// --- PNG Sequence ---
+// Lossless numbered frames packed into a store-only ZIP. Frames join the archive as they
+// arrive instead of being held until the end.
+export const createPngSequenceSink = (prefix = 'frame'): FrameSink => {
+  let zip: ZipWriter | null = null;
+  let digits = 4;
+
+  const canvasToPng = (canvas: HTMLCanvasElement) => new Promise<Blob>((resolve, reject) => {
+    // toBlob copies the bitmap synchronously, encoding happens afterwards
+    canvas.toBlob(blob => blob ? resolve(blob) : reject(new Error('PNG encoding failed')), 'image/png');
+  });
+
+  return {
+    label: 'PNG Sequence (ZIP)',
+    fileExtension: 'zip',
+    begin: async (_canvas, info) => {
+      zip = createZipWriter();
+      digits = Math.max(4, String(info.frameCount - 1).length);
+    },
+    addFrame: async (canvas, index) => {
+      if (!zip) throw new Error('PNG sequence was not started');
+      const png = await canvasToPng(canvas);
+      zip.add({ name: `${prefix}_${String(index).padStart(digits, '0')}.png`, data: new Uint8Array(await png.arrayBuffer()) });
+    },
+    finish: async () => {
+      if (!zip) throw new Error('PNG sequence was not started');
+      const blob = zip.finish();
+      zip = null;
+      return blob;
+    },
+    abort: () => { zip = null; },
+  };
+};
@@ -0,0 +1,67 @@
+import { describe, expect, it } from 'vitest';
+import { createDiagnosticsCollector, entryPointRange, offsetToRange } from './gpuDiagnostics';
+
+// A device whose error scopes record the order of calls and resolve to queued errors
+const createMockDevice = (errors: Record<string, unknown> = {}) => {
+  const calls: string[] = [];
+  const stack: string[] = [];
+  return {
+    calls,
+    pushErrorScope: (filter: string) => { calls.push(`push ${filter}`); stack.push(filter); },
+    popErrorScope: () => {
+      const filter = stack.pop()!;
+      calls.push(`pop ${filter}`);
+      return Promise.resolve(errors[filter] ?? null);
+    },
+  };
+};
+
+describe('offsetToRange', () => {
+  const source = 'struct U {}\nfn main() {\n  let x = 1;\n}';
+
+  it('maps offsets to 1-based lines and columns', () => {
+    const offset = source.indexOf('let');
+    expect(offsetToRange(source, offset, 3)).toEqual({ startLine: 3, startColumn: 3, endLine: 3, endColumn: 6 });
+  });
+
+  it('shifts by the prelude and drops spans inside it', () => {
+    expect(offsetToRange(source, source.indexOf('fn'), 2, 1)).toEqual({ startLine: 1, startColumn: 1, endLine: 1, endColumn: 3 });
+    expect(offsetToRange(source, 0, 6, 1)).toBeUndefined();
+  });
+
+  it('finds entry point declarations', () => {
+    expect(entryPointRange(source, 'main')).toEqual({ startLine: 2, startColumn: 1, endLine: 2, endColumn: 8 });
+    expect(entryPointRange(source, 'missing')).toBeUndefined();
+  });
+});
+
+describe('createDiagnosticsCollector', () => {
+  it('closes its scopes before awaiting the work', async () => {
+    const device = createMockDevice();
+    const collector = createDiagnosticsCollector(device);
+    let resolve!: (value: string) => void;
+    const result = collector.scope({ stage: 'pipeline' }, () => {
+      device.calls.push('work');
+      return new Promise<string>(r => { resolve = r; });
+    });
+    expect(device.calls).toEqual(['push validation', 'push out-of-memory', 'work', 'pop out-of-memory', 'pop validation']);
+    resolve('pipeline');
+    expect(await result).toBe('pipeline');
+    expect(collector.diagnostics).toEqual([]);
+  });
+
+  it('reports throws, rejections and scope errors with their context', async () => {
+    const device = createMockDevice({ validation: { message: 'bad layout' } });
+    const collector = createDiagnosticsCollector(device, range => ({ ...range, file: 'lib.wgsl' }));
+    const range = { startLine: 1, startColumn: 1, endLine: 1, endColumn: 2 };
+
+    expect(await collector.scope({ stage: 'pipeline', pass: 'a' }, () => { throw new Error('threw'); })).toBeNull();
+    expect(await collector.scope({ stage: 'pipeline', pass: 'b', range }, () => Promise.reject(new Error('rejected')))).toBeNull();
+    expect(collector.hasErrors()).toBe(true);
+    expect(collector.diagnostics.map(d => [d.pass, d.message])).toEqual([
+      ['a', 'threw'], ['a', 'bad layout'],
+      ['b', 'rejected'], ['b', 'bad layout'],
+    ]);
+    expect(collector.diagnostics[2].range).toEqual({ ...range, file: 'lib.wgsl' });
+  });
+});
@@ -0,0 +1,98 @@
+import { ShaderDiagnostic, SourceRange } from '../types';
+
+// --- GPU Diagnostics ---
+// Collects every message a shader build produces instead of keeping the last one.
+// Device calls run inside 'validation' + 'out-of-memory' error scopes, so failures
+// that never throw (bind group layouts, bind groups, submit) still surface, tagged
+// with the stage, pass and entry point they came from. Scopes only ever wrap
+// synchronous calls; async pipeline creation reports through its rejection.
+
+type GPUDevice = any;
+type GPUError = any;
+
+const messageOf = (err: any): string => (typeof err === 'string' ? err : err?.message !== undefined ? String(err.message) : String(err));
+
+// Maps a [offset, offset + length) span of `source` to 1-based lines and columns,
+// shifted up by `lineOffset` lines (the prelude). Spans that start in the prelude get no range.
+export const offsetToRange = (source: string, offset: number, length: number, lineOffset = 0): SourceRange | undefined => {
+  const position = (index: number) => {
+    const before = source.slice(0, Math.max(0, Math.min(index, source.length)));
+    const lineStart = before.lastIndexOf('\n') + 1;
+    return { line: before.split('\n').length - lineOffset, column: before.length - lineStart + 1 };
+  };
+  const start = position(offset);
+  if (start.line < 1) return undefined;
+  const end = position(offset + Math.max(length, 1));
+  return { startLine: start.line, startColumn: start.column, endLine: end.line, endColumn: end.column };
+};
+
+// The `fn <name>` declaration of an entry point, where pipeline errors point
+export const entryPointRange = (code: string, entryPoint: string): SourceRange | undefined => {
+  const match = new RegExp(`\\bfn\\s+${entryPoint}\\b`).exec(code);
+  return match ? offsetToRange(code, match.index, match[0].length) : undefined;
+};
+
+type DiagnosticContext = Omit<ShaderDiagnostic, 'severity' | 'message'>;
+
+export interface DiagnosticsCollector {
+  diagnostics: ShaderDiagnostic[];
+  add: (diagnostic: ShaderDiagnostic) => void;
+  // Runs `work` inside error scopes, which close as soon as it returns. A promise it returns
+  // (create*PipelineAsync) is awaited outside them: its rejection is the pipeline's error.
+  // A throw, a rejection and anything the scopes catch become errors with `context`;
+  // the result is null on a throw or rejection.
+  scope: <T>(context: DiagnosticContext, work: () => T) => Promise<Awaited<T> | null>;
+  hasErrors: () => boolean;
+}
+
+// `locate` moves ranges in the preprocessed source to their shader file (utils/shaderPreprocessor.ts);
+// ranges that already name a file are kept
+export const createDiagnosticsCollector = (device: GPUDevice, locate?: (range: SourceRange) => SourceRange | undefined): DiagnosticsCollector => {
+  const diagnostics: ShaderDiagnostic[] = [];
+  const add = (diagnostic: ShaderDiagnostic) => {
+    const { range } = diagnostic;
+    diagnostics.push(range && !range.file && locate ? { ...diagnostic, range: locate(range) } : diagnostic);
+  };
+
+  const scope = async <T,>(context: DiagnosticContext, work: () => T): Promise<Awaited<T> | null> => {
+    device.pushErrorScope('validation');
+    device.pushErrorScope('out-of-memory');
+    let pending: T | undefined;
+    let threw = false;
+    try {
+      pending = work();
+    } catch (err) {
+      threw = true;
+      add({ ...context, severity: 'error', message: messageOf(err) });
+    }
+    // Popped in reverse (out-of-memory first) before anything awaits: the scope stack is
+    // shared by the whole device, so a scope left open would catch other callers' errors
+    const popped = [device.popErrorScope(), device.popErrorScope()];
+
+    let result: Awaited<T> | null = null;
+    if (!threw) {
+      try {
+        result = await pending!;
+      } catch (err) {
+        add({ ...context, severity: 'error', message: messageOf(err) });
+      }
+    }
+    const [outOfMemory, validation]: (GPUError | null)[] = await Promise.all(popped);
+    if (outOfMemory) add({ ...context, severity: 'error', message: `Out of memory: ${messageOf(outOfMemory)}` });
+    if (validation) add({ ...context, severity: 'error', message: messageOf(validation) });
+    return result;
+  };
+
+  return { diagnostics, add, scope, hasErrors: () => diagnostics.some(d => d.severity === 'error') };
+};
+
+// Frame submission can't wait on its scope without stalling the loop: this opens one before
+// encoding and returns the close, which reports whatever the scope caught once it resolves.
+export const openFrameScope = (device: GPUDevice, onError: (diagnostic: ShaderDiagnostic) => void) => {
+  device.pushErrorScope('validation');
+  return () => {
+    device.popErrorScope().then((error: GPUError | null) => {
+      if (error) onError({ stage: 'frame', severity: 'error', message: messageOf(error) });
+    });
+  };
+};
@@ -0,0 +1,91 @@
+import { describe, expect, it } from 'vitest';
+import { encodeExr, encodePng16, floatToHalf, mapHalfImage } from './hdrImage';
+import { HalfImage, halfToFloat } from './textureReadback';
+
+const image = (width: number, height: number, values: number[]): HalfImage =>
+  ({ width, height, data: Uint16Array.from(values, floatToHalf) });
+
+const chunkTypes = (png: Uint8Array) => {
+  const view = new DataView(png.buffer);
+  const chunks: { type: string; data: Uint8Array }[] = [];
+  for (let p = 8; p < png.length;) {
+    const length = view.getUint32(p);
+    chunks.push({ type: String.fromCharCode(...png.subarray(p + 4, p + 8)), data: png.subarray(p + 8, p + 8 + length) });
+    p += 12 + length;
+  }
+  return chunks;
+};
+
+describe('floatToHalf', () => {
+  it('encodes normal, subnormal and out-of-range values', () => {
+    expect(floatToHalf(0)).toBe(0);
+    expect(floatToHalf(-0)).toBe(0x8000);
+    expect(floatToHalf(1)).toBe(0x3C00);
+    expect(floatToHalf(-2)).toBe(0xC000);
+    expect(floatToHalf(65504)).toBe(0x7BFF);
+    expect(floatToHalf(1e6)).toBe(0x7C00);
+    expect(floatToHalf(2 ** -24)).toBe(1);
+    expect(floatToHalf(Infinity)).toBe(0x7C00);
+    expect(floatToHalf(NaN) & 0x7C00).toBe(0x7C00);
+  });
+
+  it('round-trips through halfToFloat', () => {
+    // Within half a unit in the last place of the 10-bit mantissa
+    [0.5, 0.1, 3.14159, 1234.5].forEach(v => expect(Math.abs(halfToFloat(floatToHalf(v)) - v) / v).toBeLessThanOrEqual(2 ** -11));
+  });
+});
+
+describe('mapHalfImage', () => {
+  it('maps every component', () => {
+    const mapped = mapHalfImage(image(1, 1, [0, 0.5, 1, 1]), v => v * 2 - 1);
+    expect(Array.from(mapped.data, halfToFloat)).toEqual([-1, 0, 1, 1]);
+  });
+});
+
+describe('encodeExr', () => {
+  it('writes a scanline header with layer channels sorted by name', async () => {
+    const beauty = image(2, 1, [1, 2, 3, 1, 4, 5, 6, 1]);
+    const blob = encodeExr([
+      { name: '', channels: ['R', 'G', 'B', 'A'], image: beauty },
+      { name: 'albedo', channels: ['R', 'G', 'B'], image: beauty },
+    ]);
+    const data = new Uint8Array(await blob.arrayBuffer());
+    const view = new DataView(data.buffer);
+    expect(view.getInt32(0, true)).toBe(20000630);
+    expect(view.getInt32(4, true)).toBe(2);
+
+    const text = new TextDecoder('latin1').decode(data);
+    const names = ['A', 'B', 'G', 'R', 'albedo.B', 'albedo.G', 'albedo.R'];
+    const positions = names.map(n => text.indexOf(`${n}\0`, text.indexOf('chlist')));
+    expect(positions.every(p => p > 0)).toBe(true);
+    expect([...positions].sort((a, b) => a - b)).toEqual(positions);
+
+    // One scanline: its offset table entry, then y, size and 7 half channels x 2 pixels
+    const lineBytes = 7 * 2 * 2;
+    const block = data.length - 8 - lineBytes;
+    expect(Number(view.getBigUint64(block - 8, true))).toBe(block);
+    expect(view.getInt32(block, true)).toBe(0);
+    expect(view.getInt32(block + 4, true)).toBe(lineBytes);
+    expect(view.getUint16(block + 8, true)).toBe(floatToHalf(1)); // A of the first pixel
+    expect(view.getUint16(block + 8 + 4, true)).toBe(floatToHalf(3)); // B of the first pixel
+  });
+
+  it('needs a layer', () => {
+    expect(() => encodeExr([])).toThrow();
+  });
+});
+
+describe('encodePng16', () => {
+  it('writes 16-bit RGB tagged with gamma 1.0', async () => {
+    const png = new Uint8Array(await (await encodePng16(image(1, 1, [0.25, 0.5, 2, 1]))).arrayBuffer());
+    expect(Array.from(png.subarray(0, 8))).toEqual([137, 80, 78, 71, 13, 10, 26, 10]);
+
+    const chunks = chunkTypes(png);
+    expect(chunks.map(c => c.type)).toEqual(['IHDR', 'gAMA', 'IDAT', 'IEND']);
+    const ihdr = new DataView(chunks[0].data.buffer, chunks[0].data.byteOffset);
+    expect(ihdr.getUint32(0)).toBe(1);
+    expect(chunks[0].data[8]).toBe(16);
+    expect(chunks[0].data[9]).toBe(2);
+    expect(new DataView(chunks[1].data.buffer, chunks[1].data.byteOffset).getUint32(0)).toBe(100000);
+  });
+});
@@ -0,0 +1,166 @@
+import { HalfImage, getHalfTable } from './textureReadback';
+import { crc32 } from './zip';
+
+// --- HDR Image Encoders ---
+// OpenEXR (scanline, uncompressed, half float, multi-layer) and 16-bit PNG.
+// Both take linear data straight from rgba16float readbacks.
+
+export interface ExrLayer {
+  name: string;       // '' for the beauty layer, otherwise the layer prefix ("albedo" -> "albedo.R")
+  channels: string[]; // Channel names mapped to RGBA components in order, e.g. ['R', 'G', 'B']
+  image: HalfImage;
+}
+
+// number -> IEEE 754 binary16 bits (round to nearest even)
+const f32 = new Float32Array(1);
+const u32 = new Uint32Array(f32.buffer);
+export const floatToHalf = (value: number): number => {
+  f32[0] = value;
+  const x = u32[0];
+  const sign = (x >>> 16) & 0x8000;
+  const exp = (x >>> 23) & 0xFF;
+  let mant = x & 0x7FFFFF;
+
+  if (exp === 0xFF) return sign | 0x7C00 | (mant ? 0x200 : 0); // Inf / NaN
+  let e = exp - 127 + 15;
+  if (e >= 0x1F) return sign | 0x7C00;                       // Overflow -> Inf
+  if (e <= 0) {                                              // Subnormal / zero
+    if (e < -10) return sign;
+    mant |= 0x800000;
+    const shift = 14 - e;
+    let half = mant >> shift;
+    const rem = mant & ((1 << shift) - 1);
+    const halfway = 1 << (shift - 1);
+    if (rem > halfway || (rem === halfway && (half & 1))) half++;
+    return sign | half;
+  }
+  let half = sign | (e << 10) | (mant >> 13);
+  const rem = mant & 0x1FFF;
+  if (rem > 0x1000 || (rem === 0x1000 && (half & 1))) half++; // May carry into the exponent, which is correct
+  return half;
+};
+
+// --- OpenEXR ---
+const HALF = 1;
+
+export const encodeExr = (layers: ExrLayer[]): Blob => {
+  if (layers.length === 0) throw new Error('EXR needs at least one layer');
+  const { width, height } = layers[0].image;
+
+  // Channel list, sorted by full name as the format requires
+  const channels = layers.flatMap(layer => layer.channels.map((c, component) => ({
+    name: layer.name ? `${layer.name}.${c}` : c,
+    data: layer.image.data,
+    component,
+  }))).sort((a, b) => (a.name < b.name ? -1 : a.name > b.name ? 1 : 0));
+
+  const bytes: number[] = [];
+  const text = new TextEncoder();
+  const u8 = (v: number) => bytes.push(v & 0xFF);
+  const i32 = (v: number) => { u8(v); u8(v >> 8); u8(v >> 16); u8(v >> 24); };
+  const f32le = (v: number) => { const b = new Uint8Array(new Float32Array([v]).buffer); b.forEach(u8); };
+  const str = (s: string) => { text.encode(s).forEach(u8); u8(0); };
+  const attr = (name: string, type: string, size: number, write: () => void) => { str(name); str(type); i32(size); write(); };
+
+  i32(20000630); // Magic
+  i32(2);        // Version 2, single-part scanline
+
+  const chlistSize = channels.reduce((sum, c) => sum + text.encode(c.name).length + 1 + 16, 0) + 1;
+  attr('channels', 'chlist', chlistSize, () => {
+    channels.forEach(c => { str(c.name); i32(HALF); u8(0); u8(0); u8(0); u8(0); i32(1); i32(1); });
+    u8(0);
+  });
+  attr('compression', 'compression', 1, () => u8(0)); // NO_COMPRESSION
+  attr('dataWindow', 'box2i', 16, () => { i32(0); i32(0); i32(width - 1); i32(height - 1); });
+  attr('displayWindow', 'box2i', 16, () => { i32(0); i32(0); i32(width - 1); i32(height - 1); });
+  attr('lineOrder', 'lineOrder', 1, () => u8(0)); // INCREASING_Y
+  attr('pixelAspectRatio', 'float', 4, () => f32le(1));
+  attr('screenWindowCenter', 'v2f', 8, () => { f32le(0); f32le(0); });
+  attr('screenWindowWidth', 'float', 4, () => f32le(1));
+  u8(0); // End of header
+
+  const header = new Uint8Array(bytes);
+  const lineBytes = width * channels.length * 2;
+  const blockSize = 8 + lineBytes;
+  const tableStart = header.length;
+  const dataStart = tableStart + height * 8;
+
+  const out = new Uint8Array(dataStart + height * blockSize);
+  out.set(header, 0);
+  const view = new DataView(out.buffer);
+
+  for (let y = 0; y < height; y++) {
+    const blockOffset = dataStart + y * blockSize;
+    view.setBigUint64(tableStart + y * 8, BigInt(blockOffset), true);
+    view.setInt32(blockOffset, y, true);
+    view.setInt32(blockOffset + 4, lineBytes, true);
+
+    let p = blockOffset + 8;
+    for (const c of channels) {
+      const row = y * width * 4 + c.component;
+      for (let x = 0; x < width; x++, p += 2) view.setUint16(p, c.data[row + x * 4], true);
+    }
+  }
+
+  return new Blob([out], { type: 'image/x-exr' });
+};
+
+// --- 16-bit PNG ---
+// Linear values are clamped to [0, 1] and tagged gamma 1.0; use EXR to keep highlights above 1.
+const pngChunk = (type: string, data: Uint8Array): Uint8Array => {
+  const chunk = new Uint8Array(12 + data.length);
+  const view = new DataView(chunk.buffer);
+  view.setUint32(0, data.length);
+  for (let i = 0; i < 4; i++) chunk[4 + i] = type.charCodeAt(i);
+  chunk.set(data, 8);
+  view.setUint32(8 + data.length, crc32(chunk.subarray(4, 8 + data.length)));
+  return chunk;
+};
+
+const deflate = async (data: Uint8Array): Promise<Uint8Array> => {
+  const stream = new Blob([data]).stream().pipeThrough(new CompressionStream('deflate')); // zlib wrapper, as PNG expects
+  return new Uint8Array(await new Response(stream).arrayBuffer());
+};
+
+export const encodePng16 = async (image: HalfImage, withAlpha = false): Promise<Blob> => {
+  const { width, height } = image;
+  const components = withAlpha ? 4 : 3;
+  const rowBytes = 1 + width * components * 2;
+  const raw = new Uint8Array(rowBytes * height);
+  const view = new DataView(raw.buffer);
+  const table = getHalfTable();
+
+  for (let y = 0; y < height; y++) {
+    let p = y * rowBytes + 1; // Filter type 0 (None)
+    for (let x = 0; x < width; x++) {
+      const src = (y * width + x) * 4;
+      for (let c = 0; c < components; c++, p += 2) {
+        const v = table[image.data[src + c]];
+        view.setUint16(p, Math.round(Math.min(1, Math.max(0, v || 0)) * 65535)); // Big-endian samples
+      }
+    }
+  }
+
+  const ihdr = new Uint8Array(13);
+  const ihdrView = new DataView(ihdr.buffer);
+  ihdrView.setUint32(0, width);
+  ihdrView.setUint32(4, height);
+  ihdr[8] = 16;                   // Bit depth
+  ihdr[9] = withAlpha ? 6 : 2;    // Color type: RGBA / RGB
+  // Compression, filter and interlace methods stay 0
+
+  // Samples are linear: gAMA 100000 (gamma 1.0) keeps viewers from treating them as sRGB
+  const gama = new Uint8Array(4);
+  new DataView(gama.buffer).setUint32(0, 100000);
+
+  const signature = new Uint8Array([137, 80, 78, 71, 13, 10, 26, 10]);
+  return new Blob([signature, pngChunk('IHDR', ihdr), pngChunk('gAMA', gama), pngChunk('IDAT', await deflate(raw)), pngChunk('IEND', new Uint8Array(0))], { type: 'image/png' });
+};
+
+// Maps each component through fn (e.g. to decode packed normals)
+export const mapHalfImage = (image: HalfImage, fn: (v: number) => number): HalfImage => {
+  const table = getHalfTable();
+  const data = new Uint16Array(image.data.length);
+  for (let i = 0; i < data.length; i++) data[i] = floatToHalf(fn(table[image.data[i]]));
+  return { width: image.width, height: image.height, data };
+};
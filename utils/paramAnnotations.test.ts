@@ -0,0 +1,82 @@
+import { describe, expect, it } from 'vitest';
+import { applyParamValues, mergeParamValues, parseAttributes, parseShaderParams } from './paramAnnotations';
+
+describe('parseShaderParams', () => {
+  it('reads f32, vec3f and color params with their attributes', () => {
+    const { params, issues } = parseShaderParams([
+      'struct Uniforms {};',
+      '// @param animSpeed: f32 = 0.8 min=0 max=5 step=0.1 label="Anim Speed"',
+      '// @param offset: vec3f = vec3f(1.5)',
+      '// @param baseColor: vec3f = vec3f(0.8, 0.85, 1.0) color',
+    ].join('\n'));
+    expect(issues).toEqual([]);
+    expect(params).toEqual([
+      { id: 'animSpeed', label: 'Anim Speed', type: 'float', value: 0.8, min: 0, max: 5, step: 0.1 },
+      { id: 'offset', label: 'offset', type: 'vec3', value: [1.5, 1.5, 1.5] },
+      { id: 'baseColor', label: 'baseColor', type: 'color', value: [0.8, 0.85, 1] },
+    ]);
+  });
+
+  it('clamps f32 defaults into [min, max], which default to [0, 1]', () => {
+    const { params } = parseShaderParams('// @param gain: f32 = 3');
+    expect(params[0]).toMatchObject({ value: 1, min: 0, max: 1 });
+  });
+
+  it('reports bad declarations on their line and skips them', () => {
+    const { params, issues } = parseShaderParams([
+      '// @param time: f32 = 0',
+      '// @param a: f32 = 0.5',
+      '// @param a: f32 = 0.5',
+      '// @param b: f32 = vec3f(1, 2, 3)',
+      '// @param c: f32 = 1 min=2 max=1',
+      '// @param d: mat4x4f = 1',
+      '// @param e: f32 = 0 max=big',
+    ].join('\n'));
+    expect(params.map(p => p.id)).toEqual(['a']);
+    expect(issues).toEqual([
+      { lineNum: 1, message: "@param: 'time' is a built-in uniform" },
+      { lineNum: 3, message: "@param: 'a' is declared twice" },
+      { lineNum: 4, message: "@param: 'b' is f32 but its default has 3 components" },
+      { lineNum: 5, message: "@param: min of 'c' is greater than max" },
+      { lineNum: 6, message: '@param: expected "<name>: f32|vec3f = <default> [attributes]"' },
+      { lineNum: 7, message: "@param: min, max and step of 'e' must be numbers" },
+    ]);
+  });
+});
+
+describe('parseAttributes', () => {
+  it('reads values, quoted strings and bare flags', () => {
+    expect(parseAttributes(' min=-1 label="Say \\"hi\\" \\u00e9" color').attrs).toEqual({ min: '-1', label: 'Say "hi" \u00e9', color: 'true' });
+  });
+
+  it('reports invalid escapes instead of throwing', () => {
+    expect(parseAttributes('label="C:\\path" max=2')).toEqual({ attrs: { max: '2' }, issues: ["label has an invalid escape '\\p' (write \\\\ for a backslash)"] });
+    expect(parseAttributes('label="half \\u00"').issues).toHaveLength(1);
+    const { params, issues } = parseShaderParams('// @param gain: f32 = 0.5 label="C:\\path"');
+    expect(params).toEqual([]);
+    expect(issues).toEqual([{ lineNum: 1, message: "@param: label has an invalid escape '\\p' (write \\\\ for a backslash)" }]);
+  });
+});
+
+describe('param values', () => {
+  const { params } = parseShaderParams([
+    '// @param gain: f32 = 0.5 min=0 max=2',
+    '// @param tint: vec3f = vec3f(1) color',
+  ].join('\n'));
+
+  it('carries previous values over by id and kind', () => {
+    const previous = [
+      { id: 'gain', label: 'gain', type: 'float' as const, value: 1.5, min: 0, max: 10 },
+      { id: 'tint', label: 'tint', type: 'float' as const, value: 0.2, min: 0, max: 1 },
+    ];
+    const merged = mergeParamValues(params, previous);
+    expect(merged[0].value).toBe(1.5);
+    expect(merged[1].value).toEqual([1, 1, 1]);
+  });
+
+  it('applies saved values, clamped, and leaves the rest alone', () => {
+    const applied = applyParamValues(params, { gain: 9, other: 1 });
+    expect(applied[0].value).toBe(2);
+    expect(applied[1]).toBe(params[1]);
+  });
+});
@@ -0,0 +1,131 @@
+import { ParamOverrides, ShaderParam } from '../types';
+import { UNIFORM_FOOTER, UNIFORM_HEADER, withParamValue } from './uniformLayout';
+
+// --- Shader-Declared Params ---
+// Params live in the shader source as annotation comments, one per uniform member:
+//
+//   // @param animSpeed: f32 = 0.8 min=0 max=5 label="Anim Speed"
+//   // @param baseColor: vec3f = vec3f(0.8, 0.85, 1.0) color label="Artifact Color"
+//
+// The id becomes the Uniforms member name. Attributes: min, max, step, label,
+// and the bare `color` flag for vec3f params edited with a color picker.
+
+export interface ParamAnnotationIssue {
+  lineNum: number; // 1-based, in the shader source
+  message: string;
+}
+
+export interface ParsedShaderParams {
+  params: ShaderParam[];
+  issues: ParamAnnotationIssue[];
+}
+
+const ANNOTATION = /^\s*\/\/\s*@param\b(.*)$/;
+const DECLARATION = /^\s*([A-Za-z_][A-Za-z0-9_]*)\s*:\s*(f32|vec3f)\s*=\s*(vec3f\s*\([^)]*\)|[-+0-9.eE]+)(.*)$/;
+const ATTRIBUTE = /([A-Za-z_]+)(?:\s*=\s*("(?:[^"\\]|\\.)*"|[^\s"]+))?/g;
+
+const RESERVED = new Set([...UNIFORM_HEADER, ...UNIFORM_FOOTER].map(f => f.name));
+
+export const parseNumber = (text: string): number | null => {
+  const n = Number(text.trim());
+  return text.trim() !== '' && Number.isFinite(n) ? n : null;
+};
+
+const parseDefault = (text: string): number[] | null => {
+  const call = text.match(/^vec3f\s*\(([^)]*)\)$/);
+  const parts = call ? call[1].split(',') : [text];
+  const values = parts.map(parseNumber);
+  if (values.some(v => v === null)) return null;
+  // vec3f(x) splats, like WGSL
+  if (call && values.length === 1) return [values[0]!, values[0]!, values[0]!];
+  return values as number[];
+};
+
+const ESCAPES: Record<string, string> = { '"': '"', '\\': '\\', '/': '/', b: '\b', f: '\f', n: '\n', r: '\r', t: '\t' };
+
+export interface ParsedAttributes {
+  attrs: Record<string, string>;
+  issues: string[];
+}
+
+// Quoted values take JSON escapes. An unknown or cut-off escape (a Windows path,
+// a half-typed \u) is reported instead of thrown, and its attribute is dropped.
+export const parseAttributes = (text: string): ParsedAttributes => {
+  const attrs: Record<string, string> = {};
+  const issues: string[] = [];
+  for (const match of text.matchAll(ATTRIBUTE)) {
+    const [, name, raw] = match;
+    if (raw === undefined || !raw.startsWith('"')) {
+      attrs[name] = raw ?? 'true';
+      continue;
+    }
+    const bad: string[] = [];
+    const value = raw.slice(1, -1).replace(/\\(u[0-9a-fA-F]{4}|.)/g, (escape, code: string) => {
+      if (code.length === 5) return String.fromCharCode(parseInt(code.slice(1), 16));
+      if (code in ESCAPES) return ESCAPES[code];
+      bad.push(escape);
+      return escape;
+    });
+    if (bad.length === 0) attrs[name] = value;
+    else issues.push(`${name} has an invalid escape '${bad[0]}' (write \\\\ for a backslash)`);
+  }
+  return { attrs, issues };
+};
+
+export const parseShaderParams = (source: string): ParsedShaderParams => {
+  const params: ShaderParam[] = [];
+  const issues: ParamAnnotationIssue[] = [];
+  const seen = new Set<string>();
+
+  source.split('\n').forEach((line, i) => {
+    const annotation = line.match(ANNOTATION);
+    if (!annotation) return;
+    const lineNum = i + 1;
+    const fail = (message: string) => issues.push({ lineNum, message: `@param: ${message}` });
+
+    const decl = annotation[1].match(DECLARATION);
+    if (!decl) return fail('expected "<name>: f32|vec3f = <default> [attributes]"');
+    const [, id, wgslType, defaultText, rest] = decl;
+
+    if (RESERVED.has(id)) return fail(`'${id}' is a built-in uniform`);
+    if (seen.has(id)) return fail(`'${id}' is declared twice`);
+
+    const value = parseDefault(defaultText);
+    if (!value) return fail(`invalid default '${defaultText}' for '${id}'`);
+
+    const { attrs, issues: attrIssues } = parseAttributes(rest);
+    if (attrIssues.length > 0) return fail(attrIssues[0]);
+    const label = attrs.label ?? id;
+
+    if (wgslType === 'f32') {
+      if (value.length !== 1) return fail(`'${id}' is f32 but its default has ${value.length} components`);
+      const min = attrs.min !== undefined ? parseNumber(attrs.min) : 0;
+      const max = attrs.max !== undefined ? parseNumber(attrs.max) : 1;
+      const step = attrs.step !== undefined ? parseNumber(attrs.step) : undefined;
+      if (min === null || max === null || step === null) return fail(`min, max and step of '${id}' must be numbers`);
+      if (min > max) return fail(`min of '${id}' is greater than max`);
+      params.push({ id, label, type: 'float', value: Math.min(max, Math.max(min, value[0])), min, max, ...(step !== undefined ? { step } : {}) });
+    } else {
+      if (value.length !== 3) return fail(`'${id}' is vec3f but its default has ${value.length} components`);
+      const v: [number, number, number] = [value[0], value[1], value[2]];
+      params.push(attrs.color === 'true' ? { id, label, type: 'color', value: v } : { id, label, type: 'vec3', value: v });
+    }
+    seen.add(id);
+  });
+
+  return { params, issues };
+};
+
+// Carries current values over to a freshly parsed param list wherever the id
+// (and value kind) still matches, so editing the shader doesn't reset the panel.
+export const mergeParamValues = (declared: ShaderParam[], previous: ShaderParam[]): ShaderParam[] => {
+  const prev = new Map(previous.map(p => [p.id, p]));
+  return declared.map(p => {
+    const old = prev.get(p.id);
+    return old ? withParamValue(p, old.value) : p;
+  });
+};
+
+// Sets the params listed in `values` (a saved session); the rest keep theirs
+export const applyParamValues = (params: ShaderParam[], values: ParamOverrides): ShaderParam[] =>
+  params.map(p => (p.id in values ? withParamValue(p, values[p.id]) : p));
@@ -0,0 +1,92 @@
+import { describe, expect, it } from 'vitest';
+import { applyTimeline, applyTimelineToLights, applyTimelineToMaterials, createAutoOrchestration, hasSceneTracks, parseTimeline, sampleTrack, serializeTimeline } from './paramTimeline';
+import { createLight } from './sceneLights';
+import { DEFAULT_MATERIALS } from './sceneMaterials';
+import { ParamTrack, ShaderParam } from '../types';
+
+const track = (interpolation?: 'linear' | 'ease' | 'hold'): ParamTrack => ({
+  paramId: 'gain',
+  keyframes: [{ time: 1, value: 0, interpolation }, { time: 3, value: 2 }],
+});
+
+describe('sampleTrack', () => {
+  it('holds the end values outside the keyframes', () => {
+    expect(sampleTrack(track(), 0)).toBe(0);
+    expect(sampleTrack(track(), 5)).toBe(2);
+    expect(sampleTrack({ paramId: 'gain', keyframes: [] }, 1)).toBeUndefined();
+  });
+
+  it('interpolates by the first keyframe of the segment', () => {
+    expect(sampleTrack(track(), 1.5)).toBe(0.5);
+    expect(sampleTrack(track('ease'), 1.5)).toBeCloseTo(2 * 0.15625);
+    expect(sampleTrack(track('hold'), 2.9)).toBe(0);
+  });
+
+  it('blends vec3 values per component', () => {
+    const colors: ParamTrack = { paramId: 'tint', keyframes: [{ time: 0, value: [0, 0, 0] }, { time: 2, value: [1, 2, 4] }] };
+    expect(sampleTrack(colors, 1)).toEqual([0.5, 1, 2]);
+  });
+});
+
+describe('applyTimeline', () => {
+  it('replaces tracked params only, clamped to their range', () => {
+    const params: ShaderParam[] = [
+      { id: 'gain', label: 'Gain', type: 'float', value: 1, min: 0, max: 1 },
+      { id: 'speed', label: 'Speed', type: 'float', value: 0.3, min: 0, max: 1 },
+    ];
+    const [gain, speed] = applyTimeline(params, { version: 1, tracks: [track()] }, 5);
+    expect(gain.value).toBe(1);
+    expect(speed).toBe(params[1]);
+  });
+
+  it('starts the auto orchestration from the live values', () => {
+    const params: ShaderParam[] = [{ id: 'animSpeed', label: 'Anim Speed', type: 'float', value: 0.8, min: 0, max: 5 }];
+    const timeline = createAutoOrchestration(params, 4);
+    expect(applyTimeline(params, timeline, 0)[0].value).toBe(0.8);
+    expect(applyTimeline(params, timeline, 4)[0].value).toBe(1.6);
+  });
+
+  it('swings the strongest light and tints the first plain material', () => {
+    const lamp = createLight('point', { position: [3, 4, 0], intensity: 100 });
+    const lights = [createLight('point', { intensity: 1 }), lamp];
+    const timeline = createAutoOrchestration([], 4, lights, DEFAULT_MATERIALS);
+    expect(hasSceneTracks(timeline)).toBe(true);
+    expect(timeline.tracks.map(t => t.paramId)).toEqual([`light:${lamp.id}.position`, 'material:1.albedo']);
+
+    expect(applyTimelineToLights(lights, timeline, 0)[1].position).toEqual([3, 4, 0]);
+    const [, end] = applyTimelineToLights(lights, timeline, 4);
+    expect(end.position[1]).toBeCloseTo(4);
+    expect(Math.atan2(end.position[2], end.position[0])).toBeCloseTo(-0.2);
+    expect(applyTimelineToLights(lights, timeline, 2)[0]).toBe(lights[0]);
+
+    const [asphalt, artifact] = applyTimelineToMaterials(DEFAULT_MATERIALS, timeline, 2);
+    expect(asphalt).toBe(DEFAULT_MATERIALS[0]);
+    expect(artifact.albedo[1]).toBeCloseTo(DEFAULT_MATERIALS[1].albedo[1] * 0.7);
+  });
+
+  it('skips scene tracks of the wrong value kind', () => {
+    const lamp = createLight('point');
+    const timeline = { version: 1 as const, tracks: [{ paramId: `light:${lamp.id}.intensity`, keyframes: [{ time: 0, value: [1, 2, 3] as [number, number, number] }] }] };
+    expect(applyTimelineToLights([lamp], timeline, 0)[0]).toEqual(lamp);
+    expect(hasSceneTracks({ version: 1, tracks: [track()] })).toBe(false);
+  });
+});
+
+describe('parseTimeline', () => {
+  it('round-trips serializeTimeline and sorts keyframes by time', () => {
+    const timeline = parseTimeline(JSON.stringify({
+      version: 1,
+      name: 'swell',
+      tracks: [{ paramId: 'gain', keyframes: [{ time: 2, value: 1 }, { time: 0, value: [0, 0, 0], interpolation: 'ease' }] }],
+    }));
+    expect(timeline.tracks[0].keyframes.map(k => k.time)).toEqual([0, 2]);
+    expect(parseTimeline(serializeTimeline(timeline))).toEqual(timeline);
+  });
+
+  it('rejects malformed timelines', () => {
+    expect(() => parseTimeline('{"version": 2, "tracks": []}')).toThrow('expected { version: 1');
+    expect(() => parseTimeline('{"version": 1, "tracks": [{"keyframes": []}]}')).toThrow('track 0 needs a paramId');
+    expect(() => parseTimeline('{"version": 1, "tracks": [{"paramId": "a", "keyframes": [{"time": 0, "value": "x"}]}]}')).toThrow('numeric time and value');
+    expect(() => parseTimeline('{"version": 1, "tracks": [{"paramId": "a", "keyframes": [{"time": 0, "value": 1, "interpolation": "cubic"}]}]}')).toThrow("unknown interpolation 'cubic'");
+  });
+});
@@ -0,0 +1,185 @@
+import { Interpolation, Keyframe, KeyframeValue, ParamTimeline, ParamTrack, SceneLight, SceneMaterial, ShaderParam } from '../types';
+import { withParamValue } from './uniformLayout';
+import { lightPower } from './sceneLights';
+
+// --- Parameter Orchestration ---
+// Keyframe tracks keyed by ShaderParam id. Sampling is a pure function of
+// recorded time so an orchestrated export is reproducible frame for frame.
+//
+// Scene tracks animate a light or material field instead, with ids of the form
+// `light:<light id>.<field>` and `material:<table row>.<field>`.
+
+const clamp = (x: number, lo: number, hi: number) => Math.min(hi, Math.max(lo, x));
+
+const ease = (t: number) => t * t * (3 - 2 * t);
+
+const shapeProgress = (t: number, mode: Interpolation) => {
+  if (mode === 'hold') return 0;
+  if (mode === 'ease') return ease(t);
+  return t;
+};
+
+const mixValue = (a: KeyframeValue, b: KeyframeValue, t: number): KeyframeValue => {
+  if (typeof a === 'number' && typeof b === 'number') return a + (b - a) * t;
+  if (Array.isArray(a) && Array.isArray(b)) {
+    return [a[0] + (b[0] - a[0]) * t, a[1] + (b[1] - a[1]) * t, a[2] + (b[2] - a[2]) * t];
+  }
+  // Mismatched kinds can't blend, step at the end of the segment
+  return t < 1 ? a : b;
+};
+
+export const sampleTrack = (track: ParamTrack, time: number): KeyframeValue | undefined => {
+  const keys = track.keyframes;
+  if (keys.length === 0) return undefined;
+  if (time <= keys[0].time) return keys[0].value;
+
+  for (let i = 0; i < keys.length - 1; i++) {
+    const k0 = keys[i];
+    const k1 = keys[i + 1];
+    if (time < k1.time) {
+      const span = k1.time - k0.time;
+      const t = span > 0 ? (time - k0.time) / span : 1;
+      return mixValue(k0.value, k1.value, shapeProgress(t, k0.interpolation ?? 'linear'));
+    }
+  }
+  return keys[keys.length - 1].value;
+};
+
+// Returns a new param list with every tracked param replaced by its sampled value.
+// Untracked params and tracks whose value kind doesn't match the param are left as-is.
+export const applyTimeline = (params: ShaderParam[], timeline: ParamTimeline, time: number): ShaderParam[] => {
+  const trackMap = new Map(timeline.tracks.map(t => [t.paramId, t]));
+  return params.map(p => {
+    const track = trackMap.get(p.id);
+    if (!track) return p;
+    const value = sampleTrack(track, time);
+    return value === undefined ? p : withParamValue(p, value);
+  });
+};
+
+type Vec3 = [number, number, number];
+
+export const LIGHT_TRACK_FIELDS = ['position', 'direction', 'color', 'intensity'] as const;
+export const MATERIAL_TRACK_FIELDS = ['albedo', 'emission', 'roughness', 'metallic', 'wetness'] as const;
+
+export const lightTrackId = (light: SceneLight, field: typeof LIGHT_TRACK_FIELDS[number]) => `light:${light.id}.${field}`;
+export const materialTrackId = (row: number, field: typeof MATERIAL_TRACK_FIELDS[number]) => `material:${row}.${field}`;
+
+export const hasSceneTracks = (timeline: ParamTimeline) =>
+  timeline.tracks.some(t => t.paramId.startsWith('light:') || t.paramId.startsWith('material:'));
+
+// Samples the tracks of `prefix.<field>` into a copy of item, skipping values of the wrong kind
+const applyFieldTracks = <T extends object>(item: T, prefix: string, fields: readonly (keyof T & string)[], tracks: Map<string, ParamTrack>, time: number): T => {
+  let next = item;
+  for (const field of fields) {
+    const track = tracks.get(`${prefix}.${field}`);
+    const value = track && sampleTrack(track, time);
+    if (value === undefined || Array.isArray(value) !== Array.isArray(item[field])) continue;
+    next = { ...next, [field]: Array.isArray(value) ? [...value] : value };
+  }
+  return next;
+};
+
+export const applyTimelineToLights = (lights: SceneLight[], timeline: ParamTimeline, time: number): SceneLight[] => {
+  const trackMap = new Map(timeline.tracks.map(t => [t.paramId, t]));
+  return lights.map(l => applyFieldTracks(l, `light:${l.id}`, LIGHT_TRACK_FIELDS, trackMap, time));
+};
+
+export const applyTimelineToMaterials = (materials: SceneMaterial[], timeline: ParamTimeline, time: number): SceneMaterial[] => {
+  const trackMap = new Map(timeline.tracks.map(t => [t.paramId, t]));
+  return materials.map((m, row) => applyFieldTracks(m, `material:${row}`, MATERIAL_TRACK_FIELDS, trackMap, time));
+};
+
+// Position after turning `p` about the vertical axis through the origin and tilting it up, in radians
+const swing = (p: Vec3, azimuth: number, elevation: number): Vec3 => {
+  const radius = Math.hypot(p[0], p[2]);
+  const distance = Math.hypot(radius, p[1]);
+  const az = Math.atan2(p[2], p[0]) + azimuth;
+  const el = clamp(Math.atan2(p[1], radius) + elevation, -1.5, 1.5);
+  return [Math.cos(az) * Math.cos(el) * distance, Math.sin(el) * distance, Math.sin(az) * Math.cos(el) * distance];
+};
+
+// Default "auto" orchestration: a GI swell, an animation ramp, a slow swing of the
+// strongest light and a tint on the first plain material (the hero object), built
+// relative to the current live values so the shot starts where the user left it.
+export const createAutoOrchestration = (params: ShaderParam[], duration: number, lights: SceneLight[] = [], materials: SceneMaterial[] = []): ParamTimeline => {
+  const tracks: ParamTrack[] = [];
+  const find = (id: string) => params.find(p => p.id === id);
+  const d = Math.max(duration, 0.001);
+
+  const floatTrack = (id: string, build: (v: number, min: number, max: number) => Keyframe[]) => {
+    const p = find(id);
+    if (p && p.type === 'float') tracks.push({ paramId: id, keyframes: build(p.value, p.min, p.max) });
+  };
+
+  floatTrack('indirectIntensity', (v, min, max) => [
+    { time: 0, value: clamp(v * 0.5, min, max), interpolation: 'ease' },
+    { time: d * 0.6, value: clamp(v * 1.5, min, max), interpolation: 'ease' },
+    { time: d, value: v },
+  ]);
+  floatTrack('animSpeed', (v, min, max) => [
+    { time: 0, value: v, interpolation: 'linear' },
+    { time: d, value: clamp(v * 2.0, min, max) },
+  ]);
+
+  const key = lights.filter(l => l.enabled).reduce<SceneLight | null>((best, l) => (!best || lightPower(l) > lightPower(best) ? l : best), null);
+  if (key) {
+    tracks.push({
+      paramId: lightTrackId(key, 'position'),
+      keyframes: [
+        { time: 0, value: [...key.position], interpolation: 'ease' },
+        { time: d * 0.5, value: swing(key.position, -0.1, 0.3), interpolation: 'ease' },
+        { time: d, value: swing(key.position, -0.2, 0) },
+      ],
+    });
+  }
+
+  const row = materials.findIndex(m => !m.textured && Math.max(...m.emission) <= 0);
+  if (row >= 0) {
+    const [r, g, b] = materials[row].albedo;
+    tracks.push({
+      paramId: materialTrackId(row, 'albedo'),
+      keyframes: [
+        { time: 0, value: [r, g, b], interpolation: 'ease' },
+        { time: d * 0.5, value: [clamp(r * 1.1, 0, 1), g * 0.7, clamp(b * 1.2, 0, 1)], interpolation: 'ease' },
+        { time: d, value: [r, g, b] },
+      ],
+    });
+  }
+
+  return { version: 1, name: 'auto', tracks };
+};
+
+// --- Serialization ---
+export const serializeTimeline = (timeline: ParamTimeline): string => JSON.stringify(timeline, null, 2);
+
+const isValue = (v: unknown): v is KeyframeValue =>
+  typeof v === 'number' || (Array.isArray(v) && v.length === 3 && v.every(c => typeof c === 'number'));
+
+const INTERPOLATIONS: Interpolation[] = ['linear', 'ease', 'hold'];
+
+export const parseTimeline = (json: string): ParamTimeline => {
+  const raw = JSON.parse(json);
+  if (!raw || raw.version !== 1 || !Array.isArray(raw.tracks)) {
+    throw new Error('Invalid timeline: expected { version: 1, tracks: [...] }');
+  }
+
+  const tracks: ParamTrack[] = raw.tracks.map((t: any, ti: number) => {
+    if (typeof t?.paramId !== 'string' || !Array.isArray(t.keyframes)) {
+      throw new Error(`Invalid timeline: track ${ti} needs a paramId and keyframes`);
+    }
+    const keyframes: Keyframe[] = t.keyframes.map((k: any, ki: number) => {
+      if (typeof k?.time !== 'number' || !isValue(k.value)) {
+        throw new Error(`Invalid timeline: keyframe ${ki} of '${t.paramId}' needs a numeric time and value`);
+      }
+      if (k.interpolation !== undefined && !INTERPOLATIONS.includes(k.interpolation)) {
+        throw new Error(`Invalid timeline: unknown interpolation '${k.interpolation}' on '${t.paramId}'`);
+      }
+      return { time: k.time, value: k.value, interpolation: k.interpolation };
+    });
+    keyframes.sort((a, b) => a.time - b.time);
+    return { paramId: t.paramId, keyframes };
+  });
+
+  return { version: 1, name: typeof raw.name === 'string' ? raw.name : undefined, tracks };
+};
@@ -0,0 +1,74 @@
+import { describe, expect, it } from 'vitest';
+import { parseRenderGraph, resourceSize } from './renderGraph';
+import { preprocessShader } from './shaderPreprocessor';
+import { DEFAULT_SHADER_FILES } from '../constants';
+
+const SHADER = [
+  '// @texture geometry: rgba32float bind=gGeometry clear=0,0,0,-1',
+  '// @texture history: rgba16float pingpong scale=0.5 bind=history prev=prevHistory',
+  '// @buffer reservoirs: 32 pingpong bind=currReservoirs prev=prevReservoirs',
+  '// @pass gbuffer: render fs_gbuffer out=geometry',
+  '// @pass restir: render fs_restir out=history bind=gGeometry,prevHistory,currReservoirs,prevReservoirs',
+  '// @pass display: render fs_display out=screen bind=gGeometry,history',
+  '@group(0) @binding(0) var<uniform> u: Uniforms;',
+  '@group(0) @binding(1) var gGeometry: texture_2d<f32>;',
+  '@group(0) @binding(2) var history: texture_2d<f32>;',
+  '@group(0) @binding(3) var prevHistory: texture_2d<f32>;',
+  '@group(0) @binding(4) var<storage, read_write> currReservoirs: array<vec4f>;',
+  '@group(0) @binding(5) var<storage, read> prevReservoirs: array<vec4f>;',
+  '@group(0) @binding(6) var<storage, read> lights: array<vec4f>;',
+].join('\n');
+
+describe('parseRenderGraph', () => {
+  it('reads resources and passes with their bindings', () => {
+    const { graph, issues } = parseRenderGraph(SHADER);
+    expect(issues).toEqual([]);
+    expect(graph.resources.map(r => r.name)).toEqual(['geometry', 'history', 'reservoirs']);
+    expect(graph.resources[0]).toMatchObject({ kind: 'texture', format: 'rgba32float', clear: [0, 0, 0, -1], pingpong: false });
+    expect(graph.resources[2]).toMatchObject({ kind: 'buffer', bytesPerPixel: 32, pingpong: true });
+    expect(graph.passes.map(p => p.name)).toEqual(['gbuffer', 'restir', 'display']);
+
+    const restir = graph.passes[1].bindings;
+    expect(restir.find(b => b.name === 'u')).toMatchObject({ type: 'uniform' });
+    expect(restir.find(b => b.name === 'lights')).toMatchObject({ scene: 'lights' });
+    // 32-bit float textures can't be filtered
+    expect(restir.find(b => b.name === 'gGeometry')).toMatchObject({ resource: 'geometry', view: 'current', sampleType: 'unfilterable-float' });
+    expect(restir.find(b => b.name === 'prevHistory')).toMatchObject({ resource: 'history', view: 'previous' });
+    expect(restir.find(b => b.name === 'currReservoirs')).toMatchObject({ type: 'storage', writes: true });
+  });
+
+  it('reports reads of this frame before any pass writes them', () => {
+    const source = SHADER.replace('// @pass gbuffer: render fs_gbuffer out=geometry\n', '').replace('@pass display', '@pass gbuffer: render fs_gbuffer out=geometry\n// @pass display');
+    const { issues } = parseRenderGraph(source);
+    expect(issues.map(i => i.message)).toEqual(["@pass: 'restir' reads 'geometry' before any pass writes it"]);
+  });
+
+  it('needs exactly one screen pass, declared last', () => {
+    const { issues } = parseRenderGraph(SHADER.replace('out=screen', 'out=geometry'));
+    expect(issues.map(i => i.message)).toContain("@pass: exactly one pass must output to 'screen'");
+  });
+
+  it('reports malformed annotations on their line', () => {
+    const { issues } = parseRenderGraph(['// @texture bad: rgb8 bind=x', '// @buffer odd: 6'].join('\n'));
+    expect(issues).toContainEqual(expect.objectContaining({ lineNum: 1, message: expect.stringContaining("unsupported format 'rgb8'") }));
+    expect(issues).toContainEqual(expect.objectContaining({ lineNum: 2, message: expect.stringContaining('multiple of 4') }));
+  });
+
+  it('reports invalid escapes in quoted attributes as graph issues', () => {
+    const { issues } = parseRenderGraph(['// @texture hdr: rgba16float bind="C:\\hdr"', '// @pass blit: render fs_blit bind="\\u12"'].join('\n'));
+    expect(issues).toContainEqual({ lineNum: 1, message: "@texture: bind has an invalid escape '\\h' (write \\\\ for a backslash)" });
+    expect(issues).toContainEqual({ lineNum: 2, message: "@pass: bind has an invalid escape '\\u' (write \\\\ for a backslash)" });
+  });
+
+  it('accepts the built-in shader', () => {
+    expect(parseRenderGraph(preprocessShader(DEFAULT_SHADER_FILES).code).issues).toEqual([]);
+  });
+});
+
+describe('resourceSize', () => {
+  it('scales by the render resolution and never reaches zero', () => {
+    const { graph } = parseRenderGraph(SHADER);
+    expect(resourceSize(graph.resources[1], 1920, 1081)).toEqual([960, 540]);
+    expect(resourceSize(graph.resources[1], 1, 1)).toEqual([1, 1]);
+  });
+});
@@ -0,0 +1,254 @@
+import { DenoiserMode, GraphBinding, GraphPass, GraphResource, GraphView, IntegratorMode, RenderGraph } from '../types';
+import { parseAttributes, parseNumber } from './paramAnnotations';
+
+// --- Shader-Declared Render Graph ---
+// Resources and passes live in the shader source as annotation comments, like @param:
+//
+//   // @texture geometry: rgba32float pingpong bind=gGeometry prev=prevGeometry clear=0,0,0,-1
+//   // @buffer reservoirs: 32 pingpong bind=currReservoirs prev=prevReservoirs
+//   // @pass gbuffer: render fs_gbuffer out=geometry,albedo
+//   // @pass display: render fs_display out=screen bind=historyTexture,gGeometry
+//
+// Textures take a format, buffers a size in bytes per pixel. `bind` / `prev` name the
+// shader variables that see the current / previous (pingpong only) contents, and
+// `scale` sizes the resource relative to the render resolution.
+// Passes run in declaration order. `out` lists render targets in @location order
+// (`screen` is the canvas), `bind` the variables the entry point uses: writable
+// storage bindings count as writes, everything else as reads. `integrator=render|compute`
+// and `denoiser=off|bilateral|svgf` (comma-separated) limit a pass to those settings.
+// An `iterate` pass runs once per denoiser iteration with its index in the ITERATION
+// override; its pingpong targets swap before every run, so `prev=` variables see the
+// last run's output and the current view holds the final one.
+// Every pass also gets the uniforms, sampler, iChannels and the read-only scene
+// buffers the renderer owns (SCENE_BUFFERS, e.g. `lights` and `materials`) that the shader declares.
+// Compute passes dispatch one invocation per pixel at the render resolution, in
+// workgroups sized by the WORKGROUP_SIZE_X / WORKGROUP_SIZE_Y overrides.
+
+export interface GraphIssue {
+  lineNum?: number; // 1-based, in the shader source
+  message: string;
+}
+
+export interface ParsedRenderGraph {
+  graph: RenderGraph;
+  issues: GraphIssue[];
+}
+
+export const SCREEN_TARGET = 'screen';
+
+// Renderer-owned storage buffers, bound by variable name
+export const SCENE_BUFFERS = ['lights', 'materials'];
+
+const DENOISER_MODES: DenoiserMode[] = ['off', 'bilateral', 'svgf'];
+
+const TEXTURE_FORMATS = ['r16float', 'r32float', 'rg16float', 'rg32float', 'rgba8unorm', 'rgba16float', 'rgba32float'];
+const UNFILTERABLE_FORMATS = ['r32float', 'rg32float', 'rgba32float'];
+
+const ANNOTATION = /^\s*\/\/\s*@(texture|buffer|pass)\b(.*)$/;
+const RESOURCE = /^\s*([A-Za-z_][A-Za-z0-9_]*)\s*:\s*(\S+)(.*)$/;
+const PASS = /^\s*([A-Za-z_][A-Za-z0-9_]*)\s*:\s*(render|compute)\s+([A-Za-z_][A-Za-z0-9_]*)(.*)$/;
+const BINDING_DECL = /((?:@(?:group|binding)\s*\(\s*\d+\s*\)\s*){2})var(?:\s*<([^>]*)>)?\s+([A-Za-z_][A-Za-z0-9_]*)\s*:\s*([^;]+);/g;
+
+type ShaderBinding = Omit<GraphBinding, 'resource' | 'view' | 'channel' | 'scene'> & { group: number };
+
+const list = (text: string | undefined) => (text ? text.split(',').map(s => s.trim()).filter(Boolean) : []);
+
+// Reads the @group/@binding declarations, typed the way bind group layouts need them.
+// Types the graph can't bind (e.g. depth textures) are left out.
+const parseShaderBindings = (source: string): Map<string, ShaderBinding> => {
+  const code = source.split('\n').map(line => line.replace(/\/\/.*$/, '')).join('\n');
+  const bindings = new Map<string, ShaderBinding>();
+
+  for (const [, attrs, addressSpace = '', name, rawType] of code.matchAll(BINDING_DECL)) {
+    const group = Number(attrs.match(/@group\s*\(\s*(\d+)/)![1]);
+    const binding = Number(attrs.match(/@binding\s*\(\s*(\d+)/)![1]);
+    const [space, access] = addressSpace.split(',').map(s => s.trim());
+    const type = rawType.trim();
+    const base = { name, binding, group };
+
+    if (space === 'uniform') {
+      bindings.set(name, { ...base, type: 'uniform', writes: false });
+    } else if (space === 'storage') {
+      bindings.set(name, { ...base, type: access === 'read_write' ? 'storage' : 'read-only-storage', writes: access === 'read_write' });
+    } else if (type === 'sampler') {
+      bindings.set(name, { ...base, type: 'sampler', writes: false });
+    } else {
+      const storage = type.match(/^texture_storage_2d\s*<\s*(\w+)\s*,\s*(\w+)\s*>/);
+      const sampled = type.match(/^texture_2d\s*<\s*(f32|u32|i32)\s*>/);
+      if (storage) {
+        const access = storage[2] === 'read' ? 'read-only' : storage[2] === 'read_write' ? 'read-write' : 'write-only';
+        bindings.set(name, { ...base, type: 'storage-texture', format: storage[1], access, writes: access !== 'read-only' });
+      } else if (sampled) {
+        const sampleType = sampled[1] === 'u32' ? 'uint' : sampled[1] === 'i32' ? 'sint' : 'float';
+        bindings.set(name, { ...base, type: 'texture', sampleType, writes: false });
+      }
+    }
+  }
+  return bindings;
+};
+
+interface PendingPass {
+  lineNum: number;
+  pass: Omit<GraphPass, 'bindings'>;
+  vars: string[];
+}
+
+export const parseRenderGraph = (source: string): ParsedRenderGraph => {
+  const resources: GraphResource[] = [];
+  const pending: PendingPass[] = [];
+  const issues: GraphIssue[] = [];
+  const owners = new Map<string, { resource: GraphResource; view: GraphView }>(); // Shader variable -> resource view
+  const shaderBindings = parseShaderBindings(source);
+
+  source.split('\n').forEach((line, i) => {
+    const annotation = line.match(ANNOTATION);
+    if (!annotation) return;
+    const [, kind, body] = annotation;
+    const lineNum = i + 1;
+    const fail = (message: string) => issues.push({ lineNum, message: `@${kind}: ${message}` });
+
+    if (kind === 'pass') {
+      const decl = body.match(PASS);
+      if (!decl) return fail('expected "<name>: render|compute <entryPoint> [attributes]"');
+      const [, name, type, entryPoint, rest] = decl;
+      if (pending.some(p => p.pass.name === name)) return fail(`'${name}' is declared twice`);
+
+      const { attrs, issues: attrIssues } = parseAttributes(rest);
+      if (attrIssues.length > 0) return fail(attrIssues[0]);
+      const integrator = attrs.integrator as IntegratorMode | undefined;
+      if (integrator !== undefined && integrator !== 'render' && integrator !== 'compute') return fail(`integrator of '${name}' must be render or compute`);
+      const denoiser = attrs.denoiser !== undefined ? list(attrs.denoiser) as DenoiserMode[] : undefined;
+      if (denoiser?.some(d => !DENOISER_MODES.includes(d))) return fail(`denoiser of '${name}' must be ${DENOISER_MODES.join(', ')}`);
+      const iterate = attrs.iterate === 'true';
+      if (iterate && type !== 'render') return fail(`only render passes can iterate`);
+      pending.push({ lineNum, pass: { name, type: type as GraphPass['type'], entryPoint, integrator, denoiser, iterate, targets: list(attrs.out) }, vars: list(attrs.bind) });
+      return;
+    }
+
+    const decl = body.match(RESOURCE);
+    if (!decl) return fail(`expected "<name>: <${kind === 'texture' ? 'format' : 'bytes per pixel'}> [attributes]"`);
+    const [, name, typeText, rest] = decl;
+    if (name === SCREEN_TARGET) return fail(`'${SCREEN_TARGET}' is the canvas and can't be declared`);
+    if (resources.some(r => r.name === name)) return fail(`'${name}' is declared twice`);
+
+    const { attrs, issues: attrIssues } = parseAttributes(rest);
+    if (attrIssues.length > 0) return fail(attrIssues[0]);
+    const pingpong = attrs.pingpong === 'true';
+    const scale = attrs.scale !== undefined ? parseNumber(attrs.scale) : 1;
+    if (scale === null || scale <= 0) return fail(`scale of '${name}' must be a positive number`);
+
+    let resource: GraphResource;
+    if (kind === 'texture') {
+      if (!TEXTURE_FORMATS.includes(typeText)) return fail(`unsupported format '${typeText}' (use ${TEXTURE_FORMATS.join(', ')})`);
+      const clear = list(attrs.clear).map(parseNumber);
+      if (attrs.clear !== undefined && (clear.length !== 4 || clear.some(c => c === null))) return fail(`clear of '${name}' must be four numbers`);
+      resource = { kind: 'texture', name, format: typeText, scale, pingpong, clear: attrs.clear !== undefined ? (clear as [number, number, number, number]) : [0, 0, 0, 0] };
+    } else {
+      const bytesPerPixel = parseNumber(typeText);
+      if (bytesPerPixel === null || bytesPerPixel <= 0 || bytesPerPixel % 4 !== 0) return fail(`'${name}' needs a size in bytes per pixel (a multiple of 4)`);
+      resource = { kind: 'buffer', name, bytesPerPixel, scale, pingpong };
+    }
+
+    if (attrs.prev !== undefined && !pingpong) return fail(`'${name}' has prev= variables but isn't pingpong`);
+    const views: [string | undefined, GraphView][] = [[attrs.bind, 'current'], [attrs.prev, 'previous']];
+    for (const [vars, view] of views) {
+      for (const v of list(vars)) {
+        if (owners.has(v)) return fail(`variable '${v}' is already bound to '${owners.get(v)!.resource.name}'`);
+        owners.set(v, { resource, view });
+      }
+    }
+    resources.push(resource);
+  });
+
+  // Every pass gets the globals the shader declares
+  const globals: GraphBinding[] = [];
+  shaderBindings.forEach(({ group, ...b }) => {
+    const channel = b.name.match(/^iChannel([0-3])$/);
+    if (group !== 0) return;
+    if (b.type === 'uniform' || b.type === 'sampler') globals.push(b);
+    else if (channel && b.type === 'texture') globals.push({ ...b, channel: Number(channel[1]) });
+    else if (SCENE_BUFFERS.includes(b.name) && b.type === 'read-only-storage') globals.push({ ...b, scene: b.name });
+  });
+
+  const passes: GraphPass[] = pending.map(({ lineNum, pass, vars }) => {
+    const fail = (message: string) => issues.push({ lineNum, message: `@pass: ${message}` });
+    const bindings: GraphBinding[] = [...globals];
+
+    if (pass.type === 'render' && pass.targets.length === 0) fail(`render pass '${pass.name}' needs out= targets`);
+    if (pass.type === 'compute' && pass.targets.length > 0) fail(`compute pass '${pass.name}' can't have out= targets`);
+    pass.targets.forEach(target => {
+      if (target === SCREEN_TARGET) {
+        if (pass.targets.length > 1) fail(`'${SCREEN_TARGET}' must be the only target of '${pass.name}'`);
+        return;
+      }
+      const resource = resources.find(r => r.name === target);
+      if (!resource || resource.kind !== 'texture') fail(`target '${target}' of '${pass.name}' is not a declared @texture`);
+    });
+
+    vars.forEach(v => {
+      const shader = shaderBindings.get(v);
+      const owner = owners.get(v);
+      if (!shader) return fail(`'${v}' is not a @binding in the shader`);
+      if (shader.group !== 0) return fail(`'${v}' must be in @group(0)`);
+      if (!owner) return fail(`'${v}' isn't bound to a resource (add it to a @texture or @buffer bind= / prev=)`);
+
+      const { resource, view } = owner;
+      const { group, ...binding } = shader;
+      const isTextureBinding = binding.type === 'texture' || binding.type === 'storage-texture';
+      if (isTextureBinding !== (resource.kind === 'texture')) return fail(`'${v}' is a ${binding.type} binding but '${resource.name}' is a ${resource.kind}`);
+      if (binding.writes && view === 'previous') return fail(`'${v}' is writable but sees the previous contents of '${resource.name}'`);
+      if (view === 'current' && pass.targets.includes(resource.name)) return fail(`'${resource.name}' can't be both a target and bound in '${pass.name}'`);
+
+      if (resource.kind === 'texture') {
+        if (binding.type === 'storage-texture' && binding.format !== resource.format) return fail(`'${v}' is ${binding.format} but '${resource.name}' is ${resource.format}`);
+        if (binding.sampleType === 'float' && UNFILTERABLE_FORMATS.includes(resource.format)) binding.sampleType = 'unfilterable-float';
+      }
+      bindings.push({ ...binding, resource: resource.name, view });
+    });
+
+    if (pass.iterate) {
+      const written = [...pass.targets, ...bindings.filter(b => b.writes).map(b => b.resource!)];
+      written.forEach(name => {
+        if (!resources.find(r => r.name === name)?.pingpong) fail(`'${pass.name}' iterates, so '${name}' must be pingpong`);
+      });
+    }
+
+    return { ...pass, bindings };
+  });
+
+  // Structure: a single screen pass, last, in every integrator mode
+  if (pending.length === 0) {
+    issues.push({ message: '@pass: the shader declares no passes' });
+  } else {
+    const screenPasses = pending.filter(p => p.pass.targets.includes(SCREEN_TARGET));
+    const last = pending[pending.length - 1];
+    if (screenPasses.length !== 1) issues.push({ lineNum: screenPasses[1]?.lineNum, message: `@pass: exactly one pass must output to '${SCREEN_TARGET}'` });
+    else if (screenPasses[0] !== last || last.pass.integrator || last.pass.denoiser || last.pass.iterate) issues.push({ lineNum: screenPasses[0].lineNum, message: `@pass: the '${SCREEN_TARGET}' pass must be the last one and run unconditionally` });
+  }
+
+  // Dependencies: this frame's contents must be written before they're read.
+  // Denoiser passes count as writers whatever the setting; the shader reads
+  // u.denoise to know whether their output is current.
+  const modes: IntegratorMode[] = passes.some(p => p.integrator === 'compute') ? ['render', 'compute'] : ['render'];
+  const reported = new Set<string>();
+  modes.forEach(mode => {
+    const written = new Set<string>();
+    passes.forEach((pass, i) => {
+      if (pass.integrator && pass.integrator !== mode) return;
+      pass.bindings.forEach(b => {
+        const key = `${pass.name}:${b.resource}`;
+        if (!b.resource || b.view !== 'current' || b.writes || written.has(b.resource) || reported.has(key)) return;
+        issues.push({ lineNum: pending[i].lineNum, message: `@pass: '${pass.name}' reads '${b.resource}' before any pass writes it${mode === 'compute' ? ' (compute integrator)' : ''}` });
+        reported.add(key);
+      });
+      pass.targets.forEach(t => written.add(t));
+      pass.bindings.forEach(b => { if (b.resource && b.writes) written.add(b.resource); });
+    });
+  });
+
+  return { graph: { resources, passes }, issues };
+};
+
+// Pixel size of a resource at the given render resolution
+export const resourceSize = (resource: GraphResource, width: number, height: number): [number, number] =>
+  [Math.max(1, Math.floor(width * resource.scale)), Math.max(1, Math.floor(height * resource.scale))];
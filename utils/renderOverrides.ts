@@ -0,0 +1,33 @@
+import { ParamOverrides, ShaderParam, VideoConfig } from '../types';
+import { withParamValue } from './uniformLayout';
+
+// --- Render Settings Overrides ---
+// Export-only param values layered over the live params. The live state is
+// never mutated: releasing an override layer is all it takes to "restore".
+
+export interface OverrideStack {
+  push: (overrides: ParamOverrides) => () => void; // Returns the release function
+  resolve: (params: ShaderParam[]) => ShaderParam[];
+}
+
+export const applyParamOverrides = (params: ShaderParam[], overrides: ParamOverrides): ShaderParam[] =>
+  params.map(p => (p.id in overrides ? withParamValue(p, overrides[p.id]) : p));
+
+// Later layers win over earlier ones
+export const createOverrideStack = (): OverrideStack => {
+  let layers: ParamOverrides[] = [];
+  return {
+    push: (overrides) => {
+      const layer = { ...overrides };
+      layers = [...layers, layer];
+      return () => { layers = layers.filter(l => l !== layer); };
+    },
+    resolve: (params) => layers.reduce(applyParamOverrides, params),
+  };
+};
+
+// The export dialog's post-process settings, keyed by the params they replace
+export const videoExportOverrides = (config: VideoConfig): ParamOverrides => ({
+  grainStrength: config.postProcess.grain,
+  aberrationStrength: config.postProcess.aberration,
+});
@@ -0,0 +1,67 @@
+import { describe, expect, it } from 'vitest';
+import { DEFAULT_SCENE, compileScene, createPrimitive, injectSceneFiles, injectSceneMap, parseScene, serializeScene, wrapNode } from './sceneCompiler';
+import { SceneDescription } from '../types';
+
+const scene = (root: SceneDescription['root']): SceneDescription => ({ version: 1, materials: DEFAULT_SCENE.materials, root });
+
+describe('compileScene', () => {
+  it('emits map() between the scene markers', () => {
+    const map = compileScene(scene({ type: 'transform', label: 'Floor', position: [0, -2, 0], rotation: [0, 0, 0], scale: 1, child: createPrimitive('plane') }));
+    const lines = map.split('\n');
+    expect(lines[0]).toMatch(/^\/\/ @scene begin: generated from the scene "Untitled"/);
+    expect(lines.at(-1)).toBe('// @scene end');
+    expect(map).toContain('fn map(p: vec3f) -> vec2f {');
+    expect(map).toMatch(/let (p\d+) = p - vec3f\(0\.0, -2\.0, 0\.0\);.*\n.*= vec2f\(\1\.y, 1\.0\);/);
+  });
+
+  it('keeps multi-line names inside their comment', () => {
+    const map = compileScene(scene({ ...createPrimitive('sphere'), label: 'Ball\nfn injected() {}\r\nend' }));
+    expect(map).toContain('// Ball fn injected() {} end');
+    expect(map.split('\n').filter(line => line.includes('injected'))).toHaveLength(1);
+
+    const named = compileScene({ ...scene(createPrimitive('sphere')), name: 'Alley\u2028fn injected() {}' });
+    expect(named.split('\n')[0]).toContain('"Alley fn injected() {}"');
+  });
+
+  it('compiles every node type in the default scene', () => {
+    expect(() => compileScene(DEFAULT_SCENE)).not.toThrow();
+    const wrapped = wrapNode('repeat', wrapNode('mirror', wrapNode('deform', wrapNode('csg', createPrimitive('torus')))));
+    expect(() => compileScene(scene(wrapped))).not.toThrow();
+  });
+
+  it('rejects materials missing from the table', () => {
+    expect(() => compileScene(scene(createPrimitive('box', 7)))).toThrow('root uses material 7, but the table has 3 rows');
+  });
+});
+
+describe('injectSceneMap', () => {
+  const shader = ['fn before() {}', '// @scene begin', 'old', '// @scene end', 'fn after() {}'].join('\n');
+
+  it('replaces the scene region', () => {
+    expect(injectSceneMap(shader, '// @scene begin\nnew\n// @scene end')).toBe(['fn before() {}', '// @scene begin', 'new', '// @scene end', 'fn after() {}'].join('\n'));
+  });
+
+  it('needs the region', () => {
+    expect(() => injectSceneMap('fn main() {}', 'x')).toThrow("has no '// @scene begin'");
+  });
+
+  it('writes into the file that holds the region', () => {
+    const files = injectSceneFiles([{ name: 'main.wgsl', code: '#include "scene.wgsl"' }, { name: 'scene.wgsl', code: shader }], '// @scene begin\nnew\n// @scene end');
+    expect(files[0].code).toBe('#include "scene.wgsl"');
+    expect(files[1].code).toContain('\nnew\n');
+  });
+});
+
+describe('parseScene', () => {
+  it('round-trips serializeScene', () => {
+    expect(parseScene(serializeScene(DEFAULT_SCENE))).toEqual(DEFAULT_SCENE);
+  });
+
+  it('fills optional fields and reports bad nodes by path', () => {
+    const parsed = parseScene(JSON.stringify({ version: 1, materials: [{ albedo: [1, 1, 1], roughness: 0.5 }], root: { type: 'transform', child: { type: 'primitive', shape: 'box', size: [1, 1, 1] } } }));
+    expect(parsed.materials[0]).toMatchObject({ label: 'Material 1', metallic: 0, ior: 1.5, textured: false });
+    expect(parsed.root).toMatchObject({ position: [0, 0, 0], scale: 1 });
+    expect(() => parseScene(JSON.stringify({ version: 1, materials: [], root: { type: 'csg', op: 'union', children: [{ type: 'blob' }] } })))
+      .toThrow("root.children[0] has unknown node type 'blob'");
+  });
+});
@@ -0,0 +1,311 @@
+import { CsgOp, DeformKind, SceneDescription, SceneMaterial, SceneNode, SdfShape, ShaderFile } from '../types';
+import { DEFAULT_MATERIALS } from './sceneMaterials';
+
+// --- Scene Compiler ---
+// Turns a scene description into WGSL: one `fn map(p: vec3f) -> vec2f` that returns
+// (distance, material ID) like the hand-written one did. Domain nodes (transform, repeat,
+// mirror, twist, bend) emit a new point, leaves and distance nodes a new vec2f:
+//
+//   let p1 = p - vec3f(0.0, -2.0, 0.0);
+//   let d1 = vec2f(p1.y, 1.0);
+//
+// The result replaces the shader's `// @scene begin` .. `// @scene end` region, so the
+// editor shows exactly what runs. The sd* and op* helpers it calls live in lib/sdf.wgsl.
+
+export const SDF_SHAPES: SdfShape[] = ['sphere', 'box', 'plane', 'capsule', 'cylinder', 'torus'];
+export const CSG_OPS: CsgOp[] = ['union', 'subtract', 'intersect'];
+export const DEFORM_KINDS: DeformKind[] = ['twist', 'bend', 'displace', 'round', 'onion'];
+
+const SCENE_BEGIN = '// @scene begin';
+const SCENE_END = '// @scene end';
+
+type Vec3 = [number, number, number];
+
+// WGSL float literal, rounded so rotation matrices don't print 6e-17
+const num = (n: number): string => {
+  const s = String(Math.round(n * 1e6) / 1e6);
+  return /[.e]/.test(s) ? s : `${s}.0`;
+};
+const vec3 = (v: Vec3) => `vec3f(${v.map(num).join(', ')})`;
+
+const toRadians = (degrees: number) => degrees * Math.PI / 180;
+
+// Rows of Rz * Ry * Rx, the rotation that takes local space to its parent
+const rotationRows = ([x, y, z]: Vec3): Vec3[] => {
+  const [cx, sx, cy, sy, cz, sz] = [x, y, z].flatMap(a => [Math.cos(toRadians(a)), Math.sin(toRadians(a))]);
+  return [
+    [cz * cy, cz * sy * sx - sz * cx, cz * sy * cx + sz * sx],
+    [sz * cy, sz * sy * sx + cz * cx, sz * sy * cx - cz * sx],
+    [-sy, cy * sx, cy * cx],
+  ];
+};
+
+const AXES = ['x', 'y', 'z'];
+
+// Phase offset of a traveling wave, and an amount that swells with the audio input
+const waveTerm = (speed: number) =>
+  speed === 0 ? '' : ` + u.time * u.animSpeed${speed === 1 ? '' : ` * ${num(speed)}`}`;
+const amountExpr = (amount: number, audio: number) =>
+  audio === 0 ? num(amount) : `(${num(amount)} + u.audio.x * ${num(audio)})`;
+
+// Scene and node names end up in `//` comments: a line break (any WGSL counts) would end
+// the comment and leave the rest of the name in the code
+const singleLine = (text: string) => text.replace(/[\r\n\v\f\u0085\u2028\u2029]+/g, ' ');
+const labelComment = (label?: string) => (label ? ` // ${singleLine(label)}` : '');
+
+export const compileScene = (scene: SceneDescription): string => {
+  const lines: string[] = [];
+  let counter = 0;
+  const fresh = (prefix: string) => `${prefix}${++counter}`;
+  const emit = (line: string) => lines.push(`  ${line}`);
+
+  // Emits `node` evaluated at point variable `p`, returns the vec2f variable holding it
+  const compile = (node: SceneNode, p: string, path: string): string => {
+    switch (node.type) {
+      case 'primitive': {
+        if (!Number.isInteger(node.material) || node.material < 0 || node.material >= scene.materials.length) {
+          throw new Error(`Scene: ${path} uses material ${node.material}, but the table has ${scene.materials.length} rows`);
+        }
+        const [a, b] = node.size;
+        const distance = {
+          sphere: `length(${p}) - ${num(a)}`,
+          box: `sdBox(${p}, ${vec3(node.size)})`,
+          plane: `${p}.y`,
+          capsule: `sdCapsule(${p}, ${num(a)}, ${num(b)})`,
+          cylinder: `sdCylinder(${p}, ${num(a)}, ${num(b)})`,
+          torus: `sdTorus(${p}, ${num(a)}, ${num(b)})`,
+        }[node.shape];
+        const d = fresh('d');
+        emit(`let ${d} = vec2f(${distance}, ${num(node.material + 1)});${labelComment(node.label)}`);
+        return d;
+      }
+      case 'csg': {
+        if (node.children.length === 0) throw new Error(`Scene: ${path} (${node.op}) has no children`);
+        const fn = { union: 'opUnion', subtract: 'opSubtract', intersect: 'opIntersect' }[node.op];
+        const parts = node.children.map((child, i) => compile(child, p, `${path}.children[${i}]`));
+        if (parts.length === 1) return parts[0];
+        const d = fresh('d');
+        const folded = parts.slice(1).reduce((acc, part) => `${fn}(${acc}, ${part}, ${num(node.smooth)})`, parts[0]);
+        emit(`let ${d} = ${folded};${labelComment(node.label)}`);
+        return d;
+      }
+      case 'transform': {
+        const isRotated = node.rotation.some(a => a !== 0);
+        const isScaled = node.scale !== 1;
+        if (node.scale <= 0) throw new Error(`Scene: ${path} needs a positive scale`);
+        const offset = node.position.some(v => v !== 0) ? `${p} - ${vec3(node.position)}` : p;
+        let local = offset;
+        // Inverse rotation = transpose: the rows of R are the columns WGSL's constructor takes
+        if (isRotated) local = `mat3x3f(${rotationRows(node.rotation).flat().map(num).join(', ')}) * ${offset === p ? p : `(${offset})`}`;
+        if (isScaled) local = `${isRotated || offset === p ? local : `(${local})`} / ${num(node.scale)}`;
+        if (local === p) return compile(node.child, p, `${path}.child`);
+        const q = fresh('p');
+        emit(`let ${q} = ${local};${labelComment(node.label)}`);
+        const inner = compile(node.child, q, `${path}.child`);
+        if (!isScaled) return inner;
+        const d = fresh('d');
+        emit(`let ${d} = vec2f(${inner}.x * ${num(node.scale)}, ${inner}.y);`);
+        return d;
+      }
+      case 'repeat': {
+        const axes = node.period.map((period, i) => ({ period, count: node.count[i], axis: AXES[i] })).filter(a => a.period > 0);
+        if (axes.length === 0) return compile(node.child, p, `${path}.child`);
+        const q = fresh('p');
+        emit(`var ${q} = ${p};${labelComment(node.label)}`);
+        axes.forEach(({ period, count, axis }) => {
+          const cell = `round(${q}.${axis} / ${num(period)})`;
+          emit(`${q}.${axis} = ${q}.${axis} - ${num(period)} * ${count > 0 ? `clamp(${cell}, ${num(-count)}, ${num(count)})` : cell};`);
+        });
+        return compile(node.child, q, `${path}.child`);
+      }
+      case 'mirror': {
+        if (!node.axes.some(Boolean)) return compile(node.child, p, `${path}.child`);
+        const q = fresh('p');
+        emit(`let ${q} = vec3f(${AXES.map((axis, i) => (node.axes[i] ? `abs(${p}.${axis})` : `${p}.${axis}`)).join(', ')});${labelComment(node.label)}`);
+        return compile(node.child, q, `${path}.child`);
+      }
+      case 'deform': {
+        const amount = amountExpr(node.amount, node.audio);
+        const comment = labelComment(node.label);
+        if (node.deform === 'twist' || node.deform === 'bend') {
+          // Twist: rotate xz by an angle that varies along y. Bend: rotate xy along x.
+          const along = node.deform === 'twist' ? `${p}.y` : `${p}.x`;
+          const angle = node.deform === 'twist' && node.frequency > 0
+            ? `sin(${along} * ${num(node.frequency)}${waveTerm(node.speed)}) * ${amount}`
+            : `${along} * ${amount}`;
+          const id = ++counter;
+          const [a, c, s, q] = [`a${id}`, `c${id}`, `s${id}`, `p${id}`];
+          emit(`let ${a} = ${angle};${comment}`);
+          emit(`let ${c} = cos(${a}); let ${s} = sin(${a});`);
+          emit(node.deform === 'twist'
+            ? `let ${q} = vec3f(${c} * ${p}.x - ${s} * ${p}.z, ${p}.y, ${s} * ${p}.x + ${c} * ${p}.z);`
+            : `let ${q} = vec3f(${c} * ${p}.x - ${s} * ${p}.y, ${s} * ${p}.x + ${c} * ${p}.y, ${p}.z);`);
+          return compile(node.child, q, `${path}.child`);
+        }
+        const inner = compile(node.child, p, `${path}.child`);
+        const d = fresh('d');
+        const distance = {
+          displace: AXES.map(axis => `sin(${p}.${axis} * ${num(node.frequency)}${waveTerm(node.speed)})`).reduce((acc, t) => `${acc} * ${t}`, `${inner}.x + ${amount}`),
+          round: `${inner}.x - ${amount}`,
+          onion: `abs(${inner}.x) - ${amount}`,
+        }[node.deform];
+        emit(`let ${d} = vec2f(${distance}, ${inner}.y);${comment}`);
+        return d;
+      }
+    }
+  };
+
+  const result = compile(scene.root, 'p', 'root');
+  return [
+    `${SCENE_BEGIN}: generated from the scene "${singleLine(scene.name ?? 'Untitled')}" (Scene panel), edits here are overwritten`,
+    '// Returns vec2(dist, materialID): 1-based rows of the material table',
+    'fn map(p: vec3f) -> vec2f {',
+    ...lines,
+    `  return ${result};`,
+    '}',
+    SCENE_END,
+  ].join('\n');
+};
+
+// Swaps the generated map() into the shader's scene region
+export const injectSceneMap = (shaderCode: string, map: string): string => {
+  const begin = shaderCode.indexOf(SCENE_BEGIN);
+  const end = shaderCode.indexOf(SCENE_END, begin);
+  if (begin < 0 || end < 0) {
+    throw new Error(`Scene: the shader has no '${SCENE_BEGIN}' .. '${SCENE_END}' region for the generated map()`);
+  }
+  return shaderCode.slice(0, begin) + map + shaderCode.slice(end + SCENE_END.length);
+};
+
+// The region can live in any shader file: the first one that has it (else main.wgsl) gets the map
+export const injectSceneFiles = (files: ShaderFile[], map: string): ShaderFile[] => {
+  const target = files.find(f => f.code.includes(SCENE_BEGIN)) ?? files[0];
+  return files.map(f => (f === target ? { ...f, code: injectSceneMap(f.code, map) } : f));
+};
+
+// --- Serialization ---
+export const serializeScene = (scene: SceneDescription): string => JSON.stringify(scene, null, 2);
+
+const isVec3 = (v: unknown): v is Vec3 => Array.isArray(v) && v.length === 3 && v.every(c => typeof c === 'number' && Number.isFinite(c));
+const isNumber = (v: unknown): v is number => typeof v === 'number' && Number.isFinite(v);
+
+const parseMaterial = (m: any, i: number): SceneMaterial => {
+  if (!m || !isVec3(m.albedo) || !isNumber(m.roughness)) {
+    throw new Error(`Invalid scene: material ${i} needs an albedo and a roughness`);
+  }
+  return {
+    label: typeof m.label === 'string' ? m.label : `Material ${i + 1}`,
+    albedo: m.albedo,
+    roughness: m.roughness,
+    metallic: isNumber(m.metallic) ? m.metallic : 0,
+    emission: isVec3(m.emission) ? m.emission : [0, 0, 0],
+    ior: isNumber(m.ior) ? m.ior : 1.5,
+    wetness: isNumber(m.wetness) ? m.wetness : 0,
+    textured: m.textured === true,
+  };
+};
+
+const parseNode = (n: any, path: string): SceneNode => {
+  const label = typeof n?.label === 'string' ? n.label : undefined;
+  const child = () => {
+    if (!n.child) throw new Error(`Invalid scene: ${path} (${n.type}) needs a child`);
+    return parseNode(n.child, `${path}.child`);
+  };
+  switch (n?.type) {
+    case 'primitive':
+      if (!SDF_SHAPES.includes(n.shape)) throw new Error(`Invalid scene: ${path} has unknown shape '${n.shape}'`);
+      if (!isVec3(n.size)) throw new Error(`Invalid scene: ${path} needs a size [x, y, z]`);
+      return { type: 'primitive', label, shape: n.shape, size: n.size, material: isNumber(n.material) ? n.material : 0 };
+    case 'csg':
+      if (!CSG_OPS.includes(n.op)) throw new Error(`Invalid scene: ${path} has unknown op '${n.op}'`);
+      if (!Array.isArray(n.children)) throw new Error(`Invalid scene: ${path} needs children`);
+      return { type: 'csg', label, op: n.op, smooth: isNumber(n.smooth) ? n.smooth : 0, children: n.children.map((c: any, i: number) => parseNode(c, `${path}.children[${i}]`)) };
+    case 'transform':
+      return {
+        type: 'transform', label,
+        position: isVec3(n.position) ? n.position : [0, 0, 0],
+        rotation: isVec3(n.rotation) ? n.rotation : [0, 0, 0],
+        scale: isNumber(n.scale) ? n.scale : 1,
+        child: child(),
+      };
+    case 'repeat':
+      if (!isVec3(n.period)) throw new Error(`Invalid scene: ${path} needs a period [x, y, z]`);
+      return { type: 'repeat', label, period: n.period, count: isVec3(n.count) ? n.count : [0, 0, 0], child: child() };
+    case 'mirror':
+      if (!Array.isArray(n.axes) || n.axes.length !== 3) throw new Error(`Invalid scene: ${path} needs axes [x, y, z]`);
+      return { type: 'mirror', label, axes: n.axes.map(Boolean) as [boolean, boolean, boolean], child: child() };
+    case 'deform':
+      if (!DEFORM_KINDS.includes(n.deform)) throw new Error(`Invalid scene: ${path} has unknown deform '${n.deform}'`);
+      return {
+        type: 'deform', label, deform: n.deform,
+        amount: isNumber(n.amount) ? n.amount : 0,
+        frequency: isNumber(n.frequency) ? n.frequency : 0,
+        speed: isNumber(n.speed) ? n.speed : 0,
+        audio: isNumber(n.audio) ? n.audio : 0,
+        child: child(),
+      };
+    default:
+      throw new Error(`Invalid scene: ${path} has unknown node type '${n?.type}'`);
+  }
+};
+
+export const parseScene = (json: string): SceneDescription => {
+  const raw = JSON.parse(json);
+  if (!raw || raw.version !== 1 || !Array.isArray(raw.materials) || !raw.root) {
+    throw new Error('Invalid scene: expected { version: 1, materials: [...], root: {...} }');
+  }
+  return {
+    version: 1,
+    name: typeof raw.name === 'string' ? raw.name : undefined,
+    materials: raw.materials.map(parseMaterial),
+    root: parseNode(raw.root, 'root'),
+  };
+};
+
+// --- Node Templates ---
+// What the Scene panel inserts: a unit shape, or a wrapper around an existing node
+export const createPrimitive = (shape: SdfShape, material = 0): SceneNode => ({
+  type: 'primitive',
+  shape,
+  size: { sphere: [1, 0, 0], box: [1, 1, 1], plane: [0, 0, 0], capsule: [0.5, 1, 0], cylinder: [0.5, 1, 0], torus: [1, 0.25, 0] }[shape] as Vec3,
+  material,
+});
+
+export type WrapperType = 'csg' | 'transform' | 'repeat' | 'mirror' | 'deform';
+export const WRAPPER_TYPES: WrapperType[] = ['csg', 'transform', 'repeat', 'mirror', 'deform'];
+
+export const wrapNode = (type: WrapperType, child: SceneNode): SceneNode => {
+  switch (type) {
+    case 'csg': return { type: 'csg', op: 'union', smooth: 0, children: [child] };
+    case 'transform': return { type: 'transform', position: [0, 0, 0], rotation: [0, 0, 0], scale: 1, child };
+    case 'repeat': return { type: 'repeat', period: [4, 0, 4], count: [0, 0, 0], child };
+    case 'mirror': return { type: 'mirror', axes: [true, false, false], child };
+    case 'deform': return { type: 'deform', deform: 'twist', amount: 0.5, frequency: 0, speed: 0, audio: 0, child };
+  }
+};
+
+// --- Defaults ---
+// The Dark Alley: a wet floor, the twisting artifact, corridor walls and a row of pillars
+export const DEFAULT_SCENE: SceneDescription = {
+  version: 1,
+  name: 'Dark Alley',
+  materials: DEFAULT_MATERIALS,
+  root: {
+    type: 'csg', op: 'union', smooth: 0, children: [
+      { type: 'transform', label: 'Floor', position: [0, -2, 0], rotation: [0, 0, 0], scale: 1, child: { type: 'primitive', shape: 'plane', size: [0, 0, 0], material: 0 } },
+      {
+        type: 'deform', label: 'Artifact Twist', deform: 'twist', amount: 0.8, frequency: 1.5, speed: 1, audio: 0.2,
+        child: { type: 'deform', deform: 'round', amount: 0.2, frequency: 0, speed: 0, audio: 0, child: { type: 'primitive', label: 'Artifact', shape: 'box', size: [0.9, 2.5, 0.9], material: 1 } },
+      },
+      { type: 'transform', label: 'Left Wall', position: [-5, 0, 0], rotation: [0, 0, -90], scale: 1, child: { type: 'primitive', shape: 'plane', size: [0, 0, 0], material: 2 } },
+      { type: 'transform', label: 'Right Wall', position: [5, 0, 0], rotation: [0, 0, 90], scale: 1, child: { type: 'primitive', shape: 'plane', size: [0, 0, 0], material: 2 } },
+      {
+        type: 'mirror', label: 'Pillars', axes: [true, false, false],
+        child: {
+          type: 'transform', position: [4.5, 0, 3], rotation: [0, 0, 0], scale: 1,
+          child: { type: 'repeat', period: [0, 0, 6], count: [0, 0, 0], child: { type: 'primitive', shape: 'box', size: [0.6, 10, 0.6], material: 2 } },
+        },
+      },
+    ],
+  },
+};
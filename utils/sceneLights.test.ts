@@ -0,0 +1,59 @@
+import { describe, expect, it } from 'vitest';
+import { LIGHT_STRIDE, MAX_VISIBLE_EMITTERS, createLight, lightPower, packLights, parseLight, visibleEmitterIds } from './sceneLights';
+
+describe('packLights', () => {
+  it('writes one row block per enabled light with a power CDF', () => {
+    const lamp = createLight('point', { position: [1, 2, 3], color: [1, 1, 1], intensity: 2 });
+    const off = createLight('spot', { enabled: false });
+    const spot = createLight('spot', { color: [1, 1, 1], intensity: 2, coneAngle: 60, direction: [0, -2, 0] });
+    const buffer = packLights([lamp, off, spot]);
+    expect(buffer.byteLength).toBe(2 * LIGHT_STRIDE);
+
+    const f32 = new Float32Array(buffer);
+    const u32 = new Uint32Array(buffer);
+    expect(Array.from(f32.subarray(0, 3))).toEqual([1, 2, 3]);
+    expect(u32[3]).toBe(0); // point
+    expect(u32[16 + 3]).toBe(1); // spot
+    expect(Array.from(f32.subarray(4, 7))).toEqual([2, 2, 2]);
+
+    const [a, b] = [lightPower(lamp), lightPower(spot)];
+    expect(f32[7]).toBeCloseTo(a / (a + b));
+    expect(f32[16 + 7]).toBe(1);
+    expect(Array.from(f32.subarray(16 + 8, 16 + 11))).toEqual([0, -1, 0]); // Normalized axis
+    expect(f32[16 + 11]).toBeCloseTo(Math.cos(Math.PI / 3));
+  });
+
+  it('packs visible emitters ahead of point and spot lights', () => {
+    const u32 = new Uint32Array(packLights([createLight('point'), createLight('emissive'), createLight('spot'), createLight('area')]));
+    expect([0, 1, 2, 3].map(i => u32[i * 16 + 3])).toEqual([3, 2, 0, 1]);
+  });
+
+  it('uploads one black light when none are enabled', () => {
+    const f32 = new Float32Array(packLights([]));
+    expect(f32.length).toBe(LIGHT_STRIDE / 4);
+    expect(Array.from(f32.subarray(4, 7))).toEqual([0, 0, 0]);
+    expect(f32[7]).toBe(1);
+  });
+});
+
+describe('parseLight', () => {
+  it('keeps well-formed fields over the kind defaults', () => {
+    const light = parseLight({ kind: 'area', label: 'Sign', size: [3, 1], position: [0, 1], intensity: 'bright' }, 0);
+    expect(light).toMatchObject({ kind: 'area', label: 'Sign', size: [3, 1], position: [0, 3, 0], intensity: 8 });
+  });
+
+  it('needs a known kind', () => {
+    expect(() => parseLight({ kind: 'laser' }, 2)).toThrow("Invalid light 2: unknown kind 'laser'");
+  });
+});
+
+describe('visibleEmitterIds', () => {
+  it('keeps the first enabled emitters up to the limit', () => {
+    const panels = Array.from({ length: MAX_VISIBLE_EMITTERS + 1 }, () => createLight('area'));
+    const lights = [createLight('emissive', { enabled: false }), createLight('point'), ...panels];
+    const visible = visibleEmitterIds(lights);
+    expect(visible.size).toBe(MAX_VISIBLE_EMITTERS);
+    expect(visible.has(panels[0].id)).toBe(true);
+    expect(visible.has(panels.at(-1)!.id)).toBe(false);
+  });
+});
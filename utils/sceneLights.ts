@@ -0,0 +1,132 @@
+import { LightKind, SceneLight } from '../types';
+
+// --- Scene Lights ---
+// Packs the light list into the shader's `struct Light` array: four 16-byte rows per light,
+//
+//   position.xyz, kind | emission.xyz, cdf | axis.xyz, p0 | tangent.xyz, p1
+//
+// cdf is the running sum of light power over the total, so the shader can pick
+// lights in proportion to their power with a binary search. Disabled lights are
+// left out; an empty list uploads a single black light, as storage bindings can't be empty.
+//
+// Area and emissive lights, the ones the camera can see, are packed first. The G-buffer
+// tests only the first MAX_VISIBLE_EMITTERS rows and stops at the first other kind, so
+// its cost doesn't grow with the light count. Emitters past the limit still light the scene.
+
+export const LIGHT_STRIDE = 64; // Bytes per light
+export const MAX_VISIBLE_EMITTERS = 16; // Matches the shader's MAX_VISIBLE_EMITTERS
+
+export const LIGHT_KINDS: LightKind[] = ['point', 'spot', 'area', 'emissive'];
+
+type Vec3 = [number, number, number];
+
+const cross = (a: Vec3, b: Vec3): Vec3 => [a[1] * b[2] - a[2] * b[1], a[2] * b[0] - a[0] * b[2], a[0] * b[1] - a[1] * b[0]];
+const scale = (v: Vec3, s: number): Vec3 => [v[0] * s, v[1] * s, v[2] * s];
+const normalize = (v: Vec3): Vec3 => {
+  const len = Math.hypot(v[0], v[1], v[2]);
+  return len > 1e-6 ? scale(v, 1 / len) : [0, -1, 0];
+};
+
+const toRadians = (degrees: number) => degrees * Math.PI / 180;
+
+// Emitted power (luminance), used to weigh light selection
+export const lightPower = (light: SceneLight): number => {
+  const [r, g, b] = light.color;
+  const emitted = (0.2126 * r + 0.7152 * g + 0.0722 * b) * Math.max(0, light.intensity);
+  const [width, height] = light.size;
+  switch (light.kind) {
+    case 'point': return 4 * Math.PI * emitted;
+    case 'spot': return 2 * Math.PI * (1 - Math.cos(toRadians(light.coneAngle))) * emitted;
+    case 'area': return Math.PI * emitted * width * height;
+    case 'emissive': return Math.PI * emitted * 2 * Math.PI * height * width; // Tube side: 2 pi r * length
+  }
+};
+
+export const isVisibleEmitter = (light: SceneLight) => light.kind === 'area' || light.kind === 'emissive';
+
+// Ids of the enabled emitters the camera can see, in list order
+export const visibleEmitterIds = (lights: SceneLight[]): Set<string> =>
+  new Set(lights.filter(l => l.enabled && isVisibleEmitter(l)).slice(0, MAX_VISIBLE_EMITTERS).map(l => l.id));
+
+export const packLights = (lights: SceneLight[]): ArrayBuffer => {
+  const enabled = lights.filter(l => l.enabled);
+  const active = [...enabled.filter(isVisibleEmitter), ...enabled.filter(l => !isVisibleEmitter(l))];
+  const buffer = new ArrayBuffer(Math.max(1, active.length) * LIGHT_STRIDE);
+  const f32 = new Float32Array(buffer);
+  const u32 = new Uint32Array(buffer);
+
+  const powers = active.map(lightPower);
+  const total = powers.reduce((sum, p) => sum + p, 0);
+  let running = 0;
+
+  active.forEach((light, i) => {
+    const o = i * LIGHT_STRIDE / 4;
+    const dir = normalize(light.direction);
+    running += total > 0 ? powers[i] / total : 1 / active.length;
+
+    f32.set(light.position, o);
+    u32[o + 3] = LIGHT_KINDS.indexOf(light.kind);
+    f32.set(scale(light.color, light.intensity), o + 4);
+    f32[o + 7] = i === active.length - 1 ? 1 : running; // Exactly 1 at the end despite rounding
+
+    if (light.kind === 'spot') {
+      const outer = toRadians(Math.min(89, Math.max(1, light.coneAngle)));
+      f32.set(dir, o + 8);
+      f32[o + 11] = Math.cos(outer);
+      f32[o + 15] = Math.cos(outer * 0.8);
+    } else if (light.kind === 'area') {
+      const up: Vec3 = Math.abs(dir[1]) > 0.99 ? [1, 0, 0] : [0, 1, 0];
+      f32.set(dir, o + 8);
+      f32.set(scale(normalize(cross(up, dir)), light.size[0] / 2), o + 12);
+      f32[o + 15] = light.size[1] / 2;
+    } else if (light.kind === 'emissive') {
+      f32.set(scale(dir, light.size[0] / 2), o + 8);
+      f32[o + 11] = light.size[1];
+    }
+  });
+
+  if (active.length === 0) f32[7] = 1; // Black point light at the origin
+  return buffer;
+};
+
+// --- Defaults ---
+const KIND_DEFAULTS: Record<LightKind, Omit<SceneLight, 'id' | 'kind' | 'enabled'>> = {
+  point: { label: 'Lamp', position: [0, 4, 0], color: [1, 0.8, 0.6], intensity: 180, direction: [0, -1, 0], size: [1, 1], coneAngle: 30 },
+  spot: { label: 'Spot', position: [0, 6, 0], color: [1, 1, 1], intensity: 500, direction: [0, -1, 0], size: [1, 1], coneAngle: 30 },
+  area: { label: 'Panel', position: [0, 3, 0], color: [0.5, 0.7, 1], intensity: 8, direction: [0, -1, 0], size: [2, 1], coneAngle: 30 },
+  emissive: { label: 'Neon', position: [0, 1.5, 0], color: [1, 0.2, 0.6], intensity: 20, direction: [0, 0, 1], size: [2, 0.05], coneAngle: 30 },
+};
+
+let lightCounter = 0;
+
+export const createLight = (kind: LightKind, overrides: Partial<SceneLight> = {}): SceneLight => ({
+  id: `light-${Date.now().toString(36)}-${lightCounter++}`,
+  kind,
+  enabled: true,
+  ...KIND_DEFAULTS[kind],
+  ...overrides,
+});
+
+// Lights from a saved session or preset: the kind's defaults, overridden by every field of
+// the right shape (numbers, booleans, strings, and arrays of the default's length)
+export const parseLight = (raw: any, i: number): SceneLight => {
+  if (!LIGHT_KINDS.includes(raw?.kind)) throw new Error(`Invalid light ${i}: unknown kind '${raw?.kind}'`);
+  const light = createLight(raw.kind);
+  const fields = Object.fromEntries(Object.entries(light).filter(([key, value]) => {
+    const v = raw[key];
+    if (Array.isArray(value)) return Array.isArray(v) && v.length === value.length && v.every(c => typeof c === 'number' && Number.isFinite(c));
+    return typeof v === typeof value && (typeof v !== 'number' || Number.isFinite(v));
+  }).map(([key]) => [key, raw[key]]));
+  return { ...light, ...fields, kind: raw.kind };
+};
+
+// The alley's street lamp, an overhead spot, a sign panel and neon tubes on the walls
+export const DEFAULT_LIGHTS: SceneLight[] = [
+  createLight('point', { label: 'Street Lamp', position: [3, 4.5, -6], color: [1, 0.78, 0.5], intensity: 380 }),
+  createLight('spot', { label: 'Overhead Spot', position: [0, 7, 2], direction: [0, -1, -0.3], color: [0.85, 0.9, 1], intensity: 800, coneAngle: 35 }),
+  createLight('area', { label: 'Sign Panel', position: [4.95, 3.2, 0], direction: [-1, 0, 0], color: [0.35, 0.55, 1], intensity: 6, size: [2, 0.8] }),
+  createLight('emissive', { label: 'Neon Pink', position: [-4.85, 1.6, 0], color: [1, 0.1, 0.6], intensity: 24, size: [3, 0.05] }),
+  createLight('emissive', { label: 'Neon Cyan', position: [4.85, 2.4, 6], color: [0.1, 0.9, 1], intensity: 24, size: [2.5, 0.05] }),
+  createLight('emissive', { label: 'Neon Amber', position: [-4.85, 0.5, -6], direction: [0, 1, 0], color: [1, 0.5, 0.1], intensity: 20, size: [2, 0.05] }),
+  createLight('emissive', { label: 'Neon Green', position: [-4.85, 2.8, 12], color: [0.3, 1, 0.3], intensity: 20, size: [3, 0.05] }),
+];
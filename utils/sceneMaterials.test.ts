@@ -0,0 +1,23 @@
+import { describe, expect, it } from 'vitest';
+import { DEFAULT_MATERIALS, MATERIAL_STRIDE, packMaterials } from './sceneMaterials';
+
+describe('packMaterials', () => {
+  it('writes three rows per material, clamping its factors', () => {
+    const buffer = packMaterials([
+      DEFAULT_MATERIALS[0],
+      { label: 'Lamp', albedo: [1, 0.5, 0], roughness: 2, metallic: -1, emission: [4, 4, 4], ior: 0.5, wetness: 0.25, textured: false },
+    ]);
+    expect(buffer.byteLength).toBe(2 * MATERIAL_STRIDE);
+
+    const row = Array.from(new Float32Array(buffer, MATERIAL_STRIDE, MATERIAL_STRIDE / 4));
+    expect(row).toEqual([1, 0.5, 0, 1, 4, 4, 4, 0, 1, 0.25, 0, 0]);
+    expect(new Float32Array(buffer)[10]).toBe(1); // The asphalt is textured
+  });
+
+  it('uploads plain grey for an empty table', () => {
+    const f32 = new Float32Array(packMaterials([]));
+    expect(f32.length).toBe(MATERIAL_STRIDE / 4);
+    expect(Array.from(f32.subarray(0, 4))).toEqual([0.5, 0.5, 0.5, 0.5]);
+    expect(f32[8]).toBe(1.5);
+  });
+});
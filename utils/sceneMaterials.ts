@@ -0,0 +1,40 @@
+import { SceneMaterial } from '../types';
+
+// --- Scene Materials ---
+// Packs the material table into the shader's `struct Material` array: three 16-byte rows per material,
+//
+//   albedo.xyz, roughness | emission.xyz, metallic | ior, wetness, textured, pad
+//
+// map() returns 1-based IDs, so material i shades ID i + 1. IDs past the end of
+// the table fall back to its last row.
+
+export const MATERIAL_STRIDE = 48; // Bytes per material
+
+const clamp01 = (v: number) => Math.min(1, Math.max(0, v));
+
+export const packMaterials = (materials: SceneMaterial[]): ArrayBuffer => {
+  const buffer = new ArrayBuffer(Math.max(1, materials.length) * MATERIAL_STRIDE);
+  const f32 = new Float32Array(buffer);
+
+  materials.forEach((m, i) => {
+    const o = i * MATERIAL_STRIDE / 4;
+    f32.set(m.albedo, o);
+    f32[o + 3] = clamp01(m.roughness);
+    f32.set(m.emission, o + 4);
+    f32[o + 7] = clamp01(m.metallic);
+    f32[o + 8] = Math.max(1, m.ior);
+    f32[o + 9] = clamp01(m.wetness);
+    f32[o + 10] = m.textured ? 1 : 0;
+  });
+
+  if (materials.length === 0) f32.set([0.5, 0.5, 0.5, 0.5, 0, 0, 0, 0, 1.5], 0); // Plain grey
+  return buffer;
+};
+
+// --- Defaults ---
+// The alley's IDs: 1 wet asphalt floor, 2 the floating artifact, 3 concrete walls and pillars
+export const DEFAULT_MATERIALS: SceneMaterial[] = [
+  { label: 'Wet Asphalt', albedo: [0.05, 0.05, 0.05], roughness: 0.8, metallic: 0, emission: [0, 0, 0], ior: 1.5, wetness: 1, textured: true },
+  { label: 'Artifact', albedo: [0.8, 0.85, 1.0], roughness: 0.2, metallic: 0.8, emission: [0, 0, 0], ior: 1.5, wetness: 0, textured: false },
+  { label: 'Concrete', albedo: [0.1, 0.1, 0.12], roughness: 0.9, metallic: 0, emission: [0, 0, 0], ior: 1.5, wetness: 0, textured: true },
+];
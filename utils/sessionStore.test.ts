@@ -0,0 +1,73 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { DEFAULT_PRESET, loadPresets, loadSession, parsePreset, savePresets, serializePreset } from './sessionStore';
+import { parseShaderParams } from './paramAnnotations';
+import { preprocessShader } from './shaderPreprocessor';
+import { DEFAULT_SHADER_FILES } from '../constants';
+
+describe('DEFAULT_PRESET', () => {
+  it('lists every param of the built-in shader at its declared default', () => {
+    const { params } = parseShaderParams(preprocessShader(DEFAULT_SHADER_FILES).code);
+    expect(params.length).toBeGreaterThan(0);
+    expect(DEFAULT_PRESET.params).toEqual(Object.fromEntries(params.map(p => [p.id, p.value])));
+  });
+});
+
+describe('parsePreset', () => {
+  it('round-trips serializePreset', () => {
+    const preset = { ...DEFAULT_PRESET, name: 'Night', params: { animSpeed: 2, tint: [1, 0, 0] as [number, number, number] } };
+    expect(parsePreset(serializePreset(preset))).toEqual(preset);
+  });
+
+  it('fills fields missing from older presets with the defaults', () => {
+    const preset = parsePreset('{"version": 1}');
+    expect(preset).toMatchObject({ name: 'Untitled', params: {}, camera: DEFAULT_PRESET.camera, integrator: DEFAULT_PRESET.integrator });
+    expect(preset.shaderFiles).toBe(DEFAULT_PRESET.shaderFiles);
+  });
+
+  it('rejects malformed presets', () => {
+    expect(() => parsePreset('{"version": 2}')).toThrow('expected { version: 1');
+    expect(() => parsePreset('{"version": 1, "params": {"gain": "loud"}}')).toThrow("param 'gain' needs a number or [r, g, b]");
+    expect(() => parsePreset('{"version": 1, "camera": {"theta": 0}}')).toThrow('camera needs theta, phi and radius');
+    expect(() => parsePreset('{"version": 1, "denoiser": {"mode": "magic"}}')).toThrow('unknown denoiser settings');
+    expect(() => parsePreset('{"version": 1, "shaderFiles": []}')).toThrow('must list at least main.wgsl');
+    expect(() => parsePreset('{"version": 1, "lights": [{"kind": "laser"}]}')).toThrow("unknown kind 'laser'");
+  });
+});
+
+describe('storage', () => {
+  let store: Map<string, string>;
+
+  beforeEach(() => {
+    store = new Map();
+    vi.stubGlobal('localStorage', {
+      getItem: (key: string) => store.get(key) ?? null,
+      setItem: (key: string, value: string) => { store.set(key, value); },
+    });
+  });
+  afterEach(() => { vi.unstubAllGlobals(); });
+
+  it('saves presets sorted by name and loads them back', () => {
+    savePresets([{ ...DEFAULT_PRESET, name: 'b' }, { ...DEFAULT_PRESET, name: 'a' }]);
+    const onIssue = vi.fn();
+    expect(loadPresets(onIssue).map(p => p.name)).toEqual(['a', 'b']);
+    expect(onIssue).not.toHaveBeenCalled();
+  });
+
+  it('drops unreadable entries and reports each one', () => {
+    store.set('restir:session', '{ not json');
+    store.set('restir:presets', JSON.stringify([{ ...DEFAULT_PRESET, name: 'good' }, { version: 1, name: 'bad', camera: {} }]));
+    const issues: string[] = [];
+    expect(loadSession(message => issues.push(message))).toBeNull();
+    expect(loadPresets(message => issues.push(message)).map(p => p.name)).toEqual(['good']);
+    expect(issues).toHaveLength(2);
+    expect(issues[0]).toMatch(/^Ignored the saved session: /);
+    expect(issues[1]).toBe("Ignored saved preset 'bad': Invalid preset: camera needs theta, phi and radius");
+  });
+
+  it('reads nothing from an empty store', () => {
+    const onIssue = vi.fn();
+    expect(loadSession(onIssue)).toBeNull();
+    expect(loadPresets(onIssue)).toEqual([]);
+    expect(onIssue).not.toHaveBeenCalled();
+  });
+});
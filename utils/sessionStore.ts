@@ -0,0 +1,140 @@
+import { DenoiserSettings, IntegratorSettings, ParamOverrides, SessionPreset, ShaderFile } from '../types';
+import { DEFAULT_SHADER_FILES } from '../constants';
+import { DEFAULT_SCENE, parseScene } from './sceneCompiler';
+import { DEFAULT_LIGHTS, parseLight } from './sceneLights';
+import { parseShaderParams } from './paramAnnotations';
+import { preprocessShader } from './shaderPreprocessor';
+
+// --- Session Persistence ---
+// The live session autosaves to localStorage and comes back on the next load; named
+// presets are snapshots of it in a second key. Both use the preset JSON that
+// Import / Export Preset read and write, so every way in goes through parsePreset.
+
+const SESSION_KEY = 'restir:session';
+const PRESETS_KEY = 'restir:presets';
+
+const DEFAULT_INTEGRATOR: IntegratorSettings = { mode: 'render', workgroupSize: [8, 8] };
+const DEFAULT_DENOISER: DenoiserSettings = { mode: 'svgf', iterations: 4 };
+
+// Every @param of the built-in shader at its declared default. Spelled out in the preset
+// because applying one only sets the params it lists: the rest would keep the live values.
+const DEFAULT_PARAMS: ParamOverrides = Object.fromEntries(
+  parseShaderParams(preprocessShader(DEFAULT_SHADER_FILES).code).params.map(p => [p.id, p.value]),
+);
+
+// What "Restore Defaults" applies: the built-in shader, scene, lights and framing, with
+// every param at the default its annotation declares
+export const DEFAULT_PRESET: SessionPreset = {
+  version: 1,
+  name: 'Defaults',
+  savedAt: new Date(0).toISOString(),
+  shaderFiles: DEFAULT_SHADER_FILES,
+  scene: DEFAULT_SCENE,
+  params: DEFAULT_PARAMS,
+  lights: DEFAULT_LIGHTS,
+  camera: { theta: 0.5, phi: 0.1, radius: 5.5 },
+  integrator: DEFAULT_INTEGRATOR,
+  denoiser: DEFAULT_DENOISER,
+};
+
+// --- Serialization ---
+
+export const serializePreset = (preset: SessionPreset): string => JSON.stringify(preset, null, 2);
+
+const isNumber = (v: unknown): v is number => typeof v === 'number' && Number.isFinite(v);
+const isParamValue = (v: unknown) => isNumber(v) || (Array.isArray(v) && v.length === 3 && v.every(isNumber));
+
+const parseShaderFile = (f: any, i: number): ShaderFile => {
+  if (typeof f?.name !== 'string' || !f.name || typeof f.code !== 'string') {
+    throw new Error(`Invalid preset: shader file ${i} needs a name and code`);
+  }
+  return { name: f.name, code: f.code };
+};
+
+const parseParams = (raw: any): ParamOverrides => {
+  if (!raw || typeof raw !== 'object' || Array.isArray(raw)) throw new Error('Invalid preset: params must map param IDs to values');
+  const bad = Object.keys(raw).find(id => !isParamValue(raw[id]));
+  if (bad) throw new Error(`Invalid preset: param '${bad}' needs a number or [r, g, b]`);
+  return raw;
+};
+
+// Fields missing from older or hand-written presets fall back to the defaults; malformed ones throw
+export const parsePreset = (json: string): SessionPreset => {
+  const raw = JSON.parse(json);
+  if (!raw || raw.version !== 1) throw new Error('Invalid preset: expected { version: 1, ... }');
+  const camera = raw.camera ?? DEFAULT_PRESET.camera;
+  if (!isNumber(camera.theta) || !isNumber(camera.phi) || !isNumber(camera.radius)) {
+    throw new Error('Invalid preset: camera needs theta, phi and radius');
+  }
+  const integrator = { ...DEFAULT_INTEGRATOR, ...raw.integrator };
+  const denoiser = { ...DEFAULT_DENOISER, ...raw.denoiser };
+  if (!['render', 'compute'].includes(integrator.mode) || !Array.isArray(integrator.workgroupSize) || integrator.workgroupSize.length !== 2 || !integrator.workgroupSize.every(isNumber)) {
+    throw new Error('Invalid preset: unknown integrator settings');
+  }
+  if (!['off', 'bilateral', 'svgf'].includes(denoiser.mode) || !isNumber(denoiser.iterations)) {
+    throw new Error('Invalid preset: unknown denoiser settings');
+  }
+  if (raw.shaderFiles !== undefined && (!Array.isArray(raw.shaderFiles) || raw.shaderFiles.length === 0)) {
+    throw new Error('Invalid preset: shaderFiles must list at least main.wgsl');
+  }
+  if (raw.lights !== undefined && !Array.isArray(raw.lights)) throw new Error('Invalid preset: lights must be a list');
+
+  return {
+    version: 1,
+    name: typeof raw.name === 'string' && raw.name ? raw.name : 'Untitled',
+    savedAt: typeof raw.savedAt === 'string' ? raw.savedAt : new Date().toISOString(),
+    shaderFiles: raw.shaderFiles ? raw.shaderFiles.map(parseShaderFile) : DEFAULT_PRESET.shaderFiles,
+    scene: raw.scene ? parseScene(JSON.stringify(raw.scene)) : DEFAULT_PRESET.scene,
+    params: raw.params !== undefined ? parseParams(raw.params) : {},
+    lights: raw.lights ? raw.lights.map(parseLight) : DEFAULT_PRESET.lights,
+    camera: { theta: camera.theta, phi: camera.phi, radius: camera.radius },
+    integrator: { mode: integrator.mode, workgroupSize: [integrator.workgroupSize[0], integrator.workgroupSize[1]] },
+    denoiser: { mode: denoiser.mode, iterations: denoiser.iterations },
+  };
+};
+
+// --- Storage ---
+// Reads never throw: a corrupt or unreadable entry is dropped and described to `onIssue`
+// so the app still starts. Writes throw (e.g. over the storage quota) for the caller to report.
+
+type StorageIssueHandler = (message: string) => void;
+
+const messageOf = (err: any): string => err?.message ?? String(err);
+
+const read = <T,>(key: string, what: string, parse: (json: string) => T, onIssue: StorageIssueHandler): T | null => {
+  try {
+    const json = localStorage.getItem(key);
+    return json === null ? null : parse(json);
+  } catch (err) {
+    onIssue(`Ignored the saved ${what}: ${messageOf(err)}`);
+    return null;
+  }
+};
+
+export const loadSession = (onIssue: StorageIssueHandler): SessionPreset | null => read(SESSION_KEY, 'session', parsePreset, onIssue);
+
+export const saveSession = (session: SessionPreset) => localStorage.setItem(SESSION_KEY, serializePreset(session));
+
+// One bad preset doesn't take the others with it
+const parseStoredPresets = (json: string, onIssue: StorageIssueHandler): SessionPreset[] => {
+  const raw = JSON.parse(json);
+  if (!Array.isArray(raw)) throw new Error('Invalid presets: expected a list');
+  return raw.flatMap((p, i) => {
+    try {
+      return [parsePreset(JSON.stringify(p))];
+    } catch (err) {
+      onIssue(`Ignored saved preset ${typeof p?.name === 'string' ? `'${p.name}'` : i + 1}: ${messageOf(err)}`);
+      return [];
+    }
+  });
+};
+
+// Sorted by name; names are unique, so saving under an existing name replaces it
+export const loadPresets = (onIssue: StorageIssueHandler): SessionPreset[] =>
+  read(PRESETS_KEY, 'presets', json => parseStoredPresets(json, onIssue), onIssue) ?? [];
+
+export const savePresets = (presets: SessionPreset[]) => {
+  const sorted = [...presets].sort((a, b) => a.name.localeCompare(b.name));
+  localStorage.setItem(PRESETS_KEY, JSON.stringify(sorted));
+  return sorted;
+};
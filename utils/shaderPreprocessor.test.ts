@@ -0,0 +1,90 @@
+import { describe, expect, it } from 'vitest';
+import { locateRange, preprocessShader } from './shaderPreprocessor';
+
+const LIB = ['#ifndef LIB_RNG', '#define LIB_RNG', 'fn rng() -> f32 { return 0.5; }', '#endif'].join('\n');
+
+describe('preprocessShader', () => {
+  it('pastes includes once behind their guards and maps lines back to files', () => {
+    const { code, lines, issues } = preprocessShader([
+      { name: 'main.wgsl', code: ['#include "lib/rng.wgsl"', '#include "lib/rng.wgsl"', 'fn main() {}'].join('\n') },
+      { name: 'lib/rng.wgsl', code: LIB },
+    ]);
+    expect(issues).toEqual([]);
+    expect(code).toBe(['fn rng() -> f32 { return 0.5; }', 'fn main() {}'].join('\n'));
+    expect(lines).toEqual([{ file: 'lib/rng.wgsl', line: 3 }, { file: 'main.wgsl', line: 3 }]);
+  });
+
+  it('expands defines as whole words and honours #undef', () => {
+    const { code } = preprocessShader([{ name: 'main.wgsl', code: [
+      '#define TAPS 4',
+      '#define MAX_TAPS TAPS',
+      'let a = MAX_TAPS + TAPSX;',
+      '#undef TAPS',
+      'let b = TAPS;',
+    ].join('\n') }]);
+    expect(code).toBe(['let a = 4 + TAPSX;', 'let b = TAPS;'].join('\n'));
+  });
+
+  it('keeps only the active branch of nested conditionals', () => {
+    const { code, issues } = preprocessShader([{ name: 'main.wgsl', code: [
+      '#define A',
+      '#ifdef A',
+      'a',
+      '#ifndef A',
+      'not a',
+      '#else',
+      'still a',
+      '#endif',
+      '#else',
+      'no a',
+      '#endif',
+    ].join('\n') }]);
+    expect(issues).toEqual([]);
+    expect(code).toBe(['a', 'still a'].join('\n'));
+  });
+
+  it('reports malformed directives with their file and line', () => {
+    const { issues } = preprocessShader([
+      { name: 'main.wgsl', code: ['#include "missing.wgsl"', '#define F(x) x', '#pragma once', '#endif', '#ifdef OPEN'].join('\n') },
+    ]);
+    expect(issues).toEqual([
+      { file: 'main.wgsl', lineNum: 1, message: "#include: no shader file named 'missing.wgsl'" },
+      { file: 'main.wgsl', lineNum: 2, message: "#define: function-like macros are not supported ('F')" },
+      { file: 'main.wgsl', lineNum: 3, message: "unknown directive '#pragma'" },
+      { file: 'main.wgsl', lineNum: 4, message: '#endif without #ifdef' },
+      { file: 'main.wgsl', lineNum: 5, message: '#ifdef without #endif' },
+    ]);
+  });
+
+  it('stops include cycles', () => {
+    const { issues } = preprocessShader([
+      { name: 'main.wgsl', code: '#include "a.wgsl"' },
+      { name: 'a.wgsl', code: '#include "main.wgsl"' },
+    ]);
+    expect(issues).toHaveLength(1);
+    expect(issues[0]).toMatchObject({ file: 'a.wgsl', lineNum: 1 });
+    expect(issues[0].message).toContain('includes itself');
+  });
+
+  it('reports a missing entry file', () => {
+    expect(preprocessShader([], 'main.wgsl').issues).toEqual([{ file: 'main.wgsl', lineNum: 1, message: "no shader file named 'main.wgsl'" }]);
+  });
+});
+
+describe('locateRange', () => {
+  const lines = [{ file: 'lib.wgsl', line: 3 }, { file: 'lib.wgsl', line: 4 }, { file: 'main.wgsl', line: 2 }];
+
+  it('maps ranges within one file', () => {
+    expect(locateRange({ startLine: 1, startColumn: 5, endLine: 2, endColumn: 9 }, lines))
+      .toEqual({ file: 'lib.wgsl', startLine: 3, startColumn: 5, endLine: 4, endColumn: 9 });
+  });
+
+  it('ends ranges that leave their file on the first line', () => {
+    expect(locateRange({ startLine: 2, startColumn: 5, endLine: 3, endColumn: 2 }, lines))
+      .toEqual({ file: 'lib.wgsl', startLine: 4, startColumn: 5, endLine: 4, endColumn: 6 });
+  });
+
+  it('drops ranges outside the output', () => {
+    expect(locateRange({ startLine: 9, startColumn: 1, endLine: 9, endColumn: 2 }, lines)).toBeUndefined();
+  });
+});
@@ -0,0 +1,137 @@
+import { ShaderFile, SourceLocation, SourceRange } from '../types';
+
+// --- Shader Preprocessor ---
+// Resolves a C-style subset over the shader's files before compilation:
+//
+//   #include "lib/rng.wgsl"     // Pastes that file in (names are ShaderFile paths)
+//   #define NAME [value]        // Later lines get NAME replaced by value, as a whole word
+//   #undef NAME
+//   #ifdef NAME / #ifndef NAME / #else / #endif
+//
+// Directive lines and inactive branches produce no output. Every output line records
+// the file and line it came from, so compiler messages can point back at the editor tab.
+// Libraries guard themselves (#ifndef LIB_X / #define LIB_X) to be included more than once.
+
+export interface PreprocessIssue {
+  file: string;
+  lineNum: number; // 1-based, in `file`
+  message: string;
+}
+
+export interface PreprocessedShader {
+  code: string;
+  lines: SourceLocation[]; // One per line of `code`
+  issues: PreprocessIssue[];
+}
+
+interface Conditional {
+  lineNum: number;
+  active: boolean;       // Lines in the current branch are emitted
+  parentActive: boolean; // The enclosing branch was emitting
+  hasElse: boolean;
+}
+
+const DIRECTIVE = /^\s*#\s*([A-Za-z]+)\b\s*(.*?)\s*$/;
+const DEFINE = /^([A-Za-z_][A-Za-z0-9_]*)(\(?)\s*(.*)$/;
+const NAME = /^[A-Za-z_][A-Za-z0-9_]*$/;
+const INCLUDE = /^"([^"]+)"$/;
+const WORD = /\b[A-Za-z_][A-Za-z0-9_]*\b/g;
+
+export const preprocessShader = (files: ShaderFile[], entry = files[0]?.name ?? ''): PreprocessedShader => {
+  const sources = new Map(files.map(f => [f.name, f.code]));
+  const defines = new Map<string, string>();
+  const output: string[] = [];
+  const lines: SourceLocation[] = [];
+  const issues: PreprocessIssue[] = [];
+
+  // Values are expanded when defined, so a define may build on earlier ones
+  const expand = (text: string) => (defines.size === 0 ? text : text.replace(WORD, word => defines.get(word) ?? word));
+
+  const run = (file: string, stack: string[]) => {
+    const conditionals: Conditional[] = [];
+    const emitting = () => conditionals.length === 0 || conditionals[conditionals.length - 1].active;
+
+    (sources.get(file) ?? '').split('\n').forEach((line, i) => {
+      const lineNum = i + 1;
+      const fail = (message: string) => issues.push({ file, lineNum, message });
+      const directive = line.match(DIRECTIVE);
+      if (!directive) {
+        if (emitting()) {
+          output.push(expand(line));
+          lines.push({ file, line: lineNum });
+        }
+        return;
+      }
+
+      const [, name, args] = directive;
+      const top = conditionals[conditionals.length - 1];
+      switch (name) {
+        case 'ifdef':
+        case 'ifndef': {
+          if (!NAME.test(args)) return fail(`#${name}: expected a macro name`);
+          const active = emitting();
+          conditionals.push({ lineNum, active: active && defines.has(args) === (name === 'ifdef'), parentActive: active, hasElse: false });
+          return;
+        }
+        case 'else':
+          if (!top) return fail('#else without #ifdef');
+          if (top.hasElse) return fail('#else after #else');
+          top.hasElse = true;
+          top.active = top.parentActive && !top.active;
+          return;
+        case 'endif':
+          if (!top) return fail('#endif without #ifdef');
+          conditionals.pop();
+          return;
+      }
+      if (!emitting()) return;
+
+      switch (name) {
+        case 'include': {
+          const target = args.match(INCLUDE)?.[1];
+          if (!target) return fail('#include: expected "<file>"');
+          if (!sources.has(target)) return fail(`#include: no shader file named '${target}'`);
+          if (target === file || stack.includes(target)) return fail(`#include: '${target}' includes itself (${[...stack, file, target].join(' → ')})`);
+          run(target, [...stack, file]);
+          return;
+        }
+        case 'define': {
+          const define = args.match(DEFINE);
+          if (!define) return fail('#define: expected a macro name');
+          if (define[2]) return fail(`#define: function-like macros are not supported ('${define[1]}')`);
+          defines.set(define[1], expand(define[3]));
+          return;
+        }
+        case 'undef':
+          if (!NAME.test(args)) return fail('#undef: expected a macro name');
+          defines.delete(args);
+          return;
+        default:
+          fail(`unknown directive '#${name}'`);
+      }
+    });
+
+    conditionals.forEach(c => issues.push({ file, lineNum: c.lineNum, message: '#ifdef without #endif' }));
+  };
+
+  if (!sources.has(entry)) issues.push({ file: entry, lineNum: 1, message: `no shader file named '${entry}'` });
+  else run(entry, []);
+
+  return { code: output.join('\n'), lines, issues };
+};
+
+// Moves a range in the preprocessed source back to the file it came from. Columns are
+// kept as-is (a #define can shift them); ranges that leave the file end on their first line.
+export const locateRange = (range: SourceRange, lines: SourceLocation[]): SourceRange | undefined => {
+  const start = lines[range.startLine - 1];
+  if (!start) return undefined;
+  const end = lines[range.endLine - 1];
+  const sameFile = end && end.file === start.file && end.line >= start.line;
+  return {
+    file: start.file,
+    startLine: start.line,
+    startColumn: range.startColumn,
+    endLine: sameFile ? end.line : start.line,
+    endColumn: sameFile ? range.endColumn : range.startColumn + 1,
+  };
+};
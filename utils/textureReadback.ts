@@ -0,0 +1,93 @@
+// --- GPU Texture Readback ---
+// Copies an rgba16float texture into a mappable buffer and decodes it on the CPU.
+
+type GPUDevice = any;
+type GPUTexture = any;
+declare const GPUBufferUsage: any;
+declare const GPUMapMode: any;
+
+export interface FloatImage {
+  width: number;
+  height: number;
+  data: Float32Array; // RGBA, row-major, top row first
+}
+
+export interface HalfImage {
+  width: number;
+  height: number;
+  data: Uint16Array; // RGBA binary16 bits, row-major, top row first
+}
+
+// IEEE 754 binary16 -> number
+export const halfToFloat = (h: number): number => {
+  const sign = (h & 0x8000) ? -1 : 1;
+  const exp = (h >> 10) & 0x1F;
+  const frac = h & 0x03FF;
+  if (exp === 0) return sign * Math.pow(2, -14) * (frac / 1024);
+  if (exp === 0x1F) return frac ? NaN : sign * Infinity;
+  return sign * Math.pow(2, exp - 15) * (1 + frac / 1024);
+};
+
+// 4K frames are ~33M halves; decode through a table instead of Math.pow per value
+let halfTable: Float32Array | null = null;
+export const getHalfTable = () => {
+  if (!halfTable) {
+    halfTable = new Float32Array(65536);
+    for (let i = 0; i < 65536; i++) halfTable[i] = halfToFloat(i);
+  }
+  return halfTable;
+};
+
+// Raw binary16 readback: half the memory of decoding, and EXR stores halves as-is
+export const readTextureHalf = async (device: GPUDevice, texture: GPUTexture, width: number, height: number): Promise<HalfImage> => {
+  const bytesPerPixel = 8;
+  const bytesPerRow = Math.ceil((width * bytesPerPixel) / 256) * 256; // copyTextureToBuffer row alignment
+  const buffer = device.createBuffer({ size: bytesPerRow * height, usage: GPUBufferUsage.COPY_DST | GPUBufferUsage.MAP_READ });
+
+  const encoder = device.createCommandEncoder();
+  encoder.copyTextureToBuffer({ texture }, { buffer, bytesPerRow }, [width, height, 1]);
+  device.queue.submit([encoder.finish()]);
+
+  await buffer.mapAsync(GPUMapMode.READ);
+  const mapped = new Uint16Array(buffer.getMappedRange());
+  const data = new Uint16Array(width * height * 4);
+  const halvesPerRow = bytesPerRow / 2;
+  for (let y = 0; y < height; y++) {
+    data.set(mapped.subarray(y * halvesPerRow, y * halvesPerRow + width * 4), y * width * 4);
+  }
+  buffer.unmap();
+  buffer.destroy();
+
+  return { width, height, data };
+};
+
+export const halfImageToFloat = (image: HalfImage): FloatImage => {
+  const table = getHalfTable();
+  const data = new Float32Array(image.data.length);
+  for (let i = 0; i < data.length; i++) data[i] = table[image.data[i]];
+  return { width: image.width, height: image.height, data };
+};
+
+export const readTextureRGBA16F = async (device: GPUDevice, texture: GPUTexture, width: number, height: number): Promise<FloatImage> =>
+  halfImageToFloat(await readTextureHalf(device, texture, width, height));
+
+// Display-referred floats (already tonemapped + gamma) -> 8-bit PNG
+export const floatImageToPng = (image: FloatImage): Promise<Blob> => {
+  const canvas = document.createElement('canvas');
+  canvas.width = image.width; canvas.height = image.height;
+  const ctx = canvas.getContext('2d');
+  if (!ctx) return Promise.reject(new Error('2D canvas unavailable'));
+
+  const pixels = ctx.createImageData(image.width, image.height);
+  for (let i = 0; i < image.data.length; i += 4) {
+    pixels.data[i] = Math.round(Math.min(1, Math.max(0, image.data[i])) * 255);
+    pixels.data[i + 1] = Math.round(Math.min(1, Math.max(0, image.data[i + 1])) * 255);
+    pixels.data[i + 2] = Math.round(Math.min(1, Math.max(0, image.data[i + 2])) * 255);
+    pixels.data[i + 3] = 255;
+  }
+  ctx.putImageData(pixels, 0, 0);
+
+  return new Promise((resolve, reject) => {
+    canvas.toBlob(blob => blob ? resolve(blob) : reject(new Error('PNG encoding failed')), 'image/png');
+  });
+};
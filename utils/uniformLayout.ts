@@ -0,0 +1,36 @@
+import { ParamValue, ShaderParam, UniformField } from '../types';
+
+// --- Uniform Fields ---
+// The renderer's built-in Uniforms members and param value updates, shared by the
+// params panel and the param parsers, overrides and timelines in utils/.
+
+// Built-in fields the renderer writes every frame, ahead of the params
+export const UNIFORM_HEADER: UniformField[] = [
+  { name: 'resolution', type: 'vec2f', align: 8, size: 8 },
+  { name: 'time', type: 'f32', align: 4, size: 4 },
+  { name: 'frameIndex', type: 'f32', align: 4, size: 4 },
+  { name: 'cameraPos', type: 'vec4f', align: 16, size: 16 },
+  { name: 'cameraTarget', type: 'vec4f', align: 16, size: 16 },
+  { name: 'mouse', type: 'vec4f', align: 16, size: 16, doc: 'xy: pixels, z: button down' },
+  { name: 'quality', type: 'vec4f', align: 16, size: 16, doc: 'x: spatial taps, y: minimum bounces, zw: sub-pixel jitter' },
+  { name: 'denoise', type: 'vec4f', align: 16, size: 16, doc: 'x: denoiser (0 off, 1 bilateral, 2 SVGF), y: a-trous iterations' },
+  { name: 'channels', type: 'array<vec4f, 4>', align: 16, size: 64, doc: 'iChannel0..3: xy = resolution, z = 1 if a user texture is bound' },
+  { name: 'prevView', type: 'mat4x4f', align: 16, size: 64, doc: "Previous frame's world -> camera (x right, y up, z forward)" },
+];
+
+// Built-in fields after the params
+export const UNIFORM_FOOTER: UniformField[] = [
+  { name: 'audio', type: 'vec4f', align: 16, size: 16, doc: 'x: microphone volume' },
+];
+
+// Returns the param with a new value, or the param unchanged if the value kind doesn't fit.
+// Floats are clamped to their declared range.
+export const withParamValue = (param: ShaderParam, value: ParamValue): ShaderParam => {
+  if (param.type === 'float' && typeof value === 'number') {
+    return { ...param, value: Math.min(param.max, Math.max(param.min, value)) };
+  }
+  if ((param.type === 'color' || param.type === 'vec3') && Array.isArray(value)) {
+    return { ...param, value: [value[0], value[1], value[2]] };
+  }
+  return param;
+};
@@ -0,0 +1,295 @@
+import type { Monaco } from '@monaco-editor/react';
+import type { editor, languages } from 'monaco-editor';
+import { ShaderDiagnostic, UniformLayout } from '../types';
+
+// --- WGSL for Monaco ---
+// A Monarch tokenizer, completion (keywords, types, builtins, the functions and structs the
+// shader declares, and `u.` members of the current Uniforms struct) and hover docs.
+// Registered once per Monaco instance; ShaderEditor keeps the uniform fields current.
+
+export const WGSL_LANGUAGE_ID = 'wgsl';
+
+const KEYWORDS = [
+  'alias', 'break', 'case', 'const', 'const_assert', 'continue', 'continuing', 'default', 'diagnostic', 'discard',
+  'else', 'enable', 'false', 'fn', 'for', 'if', 'let', 'loop', 'override', 'requires', 'return', 'struct',
+  'switch', 'true', 'var', 'while',
+];
+
+const TYPES = [
+  'bool', 'i32', 'u32', 'f32', 'f16',
+  'vec2', 'vec3', 'vec4', 'vec2f', 'vec3f', 'vec4f', 'vec2i', 'vec3i', 'vec4i', 'vec2u', 'vec3u', 'vec4u', 'vec2h', 'vec3h', 'vec4h',
+  'mat2x2f', 'mat2x3f', 'mat2x4f', 'mat3x2f', 'mat3x3f', 'mat3x4f', 'mat4x2f', 'mat4x3f', 'mat4x4f',
+  'mat2x2', 'mat2x3', 'mat2x4', 'mat3x2', 'mat3x3', 'mat3x4', 'mat4x2', 'mat4x3', 'mat4x4',
+  'array', 'atomic', 'ptr', 'sampler', 'sampler_comparison',
+  'texture_1d', 'texture_2d', 'texture_2d_array', 'texture_3d', 'texture_cube', 'texture_cube_array', 'texture_multisampled_2d',
+  'texture_depth_2d', 'texture_depth_2d_array', 'texture_depth_cube', 'texture_depth_multisampled_2d',
+  'texture_storage_1d', 'texture_storage_2d', 'texture_storage_2d_array', 'texture_storage_3d', 'texture_external',
+];
+
+// Address spaces, access modes and texel formats inside <...>
+const QUALIFIERS = [
+  'function', 'private', 'workgroup', 'uniform', 'storage', 'read', 'write', 'read_write',
+  'rgba8unorm', 'rgba8snorm', 'rgba8uint', 'rgba8sint', 'rgba16float', 'rgba16uint', 'rgba16sint', 'rgba32float',
+  'rgba32uint', 'rgba32sint', 'r32float', 'r32uint', 'r32sint', 'rg32float', 'rg32uint', 'rg32sint', 'bgra8unorm',
+];
+
+const ATTRIBUTES: Record<string, string> = {
+  align: 'Byte alignment of a struct member.',
+  binding: 'Binding number of a resource within its bind group.',
+  builtin: 'Binds a parameter or return value to a builtin value (position, global_invocation_id, ...).',
+  compute: 'Marks a compute shader entry point.',
+  fragment: 'Marks a fragment shader entry point.',
+  group: 'Bind group index of a resource.',
+  id: 'Pipeline-overridable constant ID.',
+  interpolate: 'Interpolation type and sampling of a user-defined IO value.',
+  invariant: 'Position is computed identically across pipelines.',
+  location: 'IO location of a user-defined vertex input / output or fragment output.',
+  must_use: 'Calls to this function must use the result.',
+  size: 'Byte size reserved for a struct member.',
+  vertex: 'Marks a vertex shader entry point.',
+  workgroup_size: 'Workgroup dimensions of a compute entry point (x, y, z).',
+};
+
+interface BuiltinDoc {
+  signature: string;
+  doc: string;
+}
+
+const BUILTINS: Record<string, BuiltinDoc> = {
+  abs: { signature: 'abs(e: T) -> T', doc: 'Absolute value, component-wise.' },
+  acos: { signature: 'acos(e: T) -> T', doc: 'Arc cosine, in radians.' },
+  all: { signature: 'all(e: vecN<bool>) -> bool', doc: 'True if every component is true.' },
+  any: { signature: 'any(e: vecN<bool>) -> bool', doc: 'True if any component is true.' },
+  arrayLength: { signature: 'arrayLength(p: ptr<storage, array<E>>) -> u32', doc: 'Element count of a runtime-sized storage array.' },
+  asin: { signature: 'asin(e: T) -> T', doc: 'Arc sine, in radians.' },
+  atan: { signature: 'atan(e: T) -> T', doc: 'Arc tangent, in radians.' },
+  atan2: { signature: 'atan2(y: T, x: T) -> T', doc: 'Angle of (x, y) in radians, in [-pi, pi].' },
+  atomicAdd: { signature: 'atomicAdd(p: ptr<AS, atomic<T>, read_write>, v: T) -> T', doc: 'Atomically adds v, returns the old value.' },
+  atomicLoad: { signature: 'atomicLoad(p: ptr<AS, atomic<T>, read_write>) -> T', doc: 'Atomically loads the value.' },
+  atomicMax: { signature: 'atomicMax(p: ptr<AS, atomic<T>, read_write>, v: T) -> T', doc: 'Atomic maximum, returns the old value.' },
+  atomicMin: { signature: 'atomicMin(p: ptr<AS, atomic<T>, read_write>, v: T) -> T', doc: 'Atomic minimum, returns the old value.' },
+  atomicStore: { signature: 'atomicStore(p: ptr<AS, atomic<T>, read_write>, v: T)', doc: 'Atomically stores v.' },
+  bitcast: { signature: 'bitcast<T>(e: S) -> T', doc: 'Reinterprets the bits of e as type T.' },
+  ceil: { signature: 'ceil(e: T) -> T', doc: 'Smallest integer not less than e.' },
+  clamp: { signature: 'clamp(e: T, low: T, high: T) -> T', doc: 'min(max(e, low), high), component-wise.' },
+  cos: { signature: 'cos(e: T) -> T', doc: 'Cosine of an angle in radians.' },
+  cosh: { signature: 'cosh(e: T) -> T', doc: 'Hyperbolic cosine.' },
+  countOneBits: { signature: 'countOneBits(e: T) -> T', doc: 'Number of set bits.' },
+  cross: { signature: 'cross(a: vec3<T>, b: vec3<T>) -> vec3<T>', doc: 'Cross product.' },
+  degrees: { signature: 'degrees(e: T) -> T', doc: 'Radians to degrees.' },
+  determinant: { signature: 'determinant(m: matCxC<T>) -> T', doc: 'Determinant of a square matrix.' },
+  distance: { signature: 'distance(a: T, b: T) -> f32', doc: 'length(a - b).' },
+  dot: { signature: 'dot(a: vecN<T>, b: vecN<T>) -> T', doc: 'Dot product.' },
+  dpdx: { signature: 'dpdx(e: T) -> T', doc: 'Screen-space x derivative. Fragment stage, uniform control flow only.' },
+  dpdy: { signature: 'dpdy(e: T) -> T', doc: 'Screen-space y derivative. Fragment stage, uniform control flow only.' },
+  exp: { signature: 'exp(e: T) -> T', doc: 'Natural exponential.' },
+  exp2: { signature: 'exp2(e: T) -> T', doc: '2 raised to e.' },
+  extractBits: { signature: 'extractBits(e: T, offset: u32, count: u32) -> T', doc: 'Reads a bit field.' },
+  faceForward: { signature: 'faceForward(n: T, i: T, nref: T) -> T', doc: 'n if dot(nref, i) < 0, else -n.' },
+  firstLeadingBit: { signature: 'firstLeadingBit(e: T) -> T', doc: 'Index of the most significant set bit.' },
+  floor: { signature: 'floor(e: T) -> T', doc: 'Largest integer not greater than e.' },
+  fma: { signature: 'fma(a: T, b: T, c: T) -> T', doc: 'a * b + c.' },
+  fract: { signature: 'fract(e: T) -> T', doc: 'e - floor(e).' },
+  fwidth: { signature: 'fwidth(e: T) -> T', doc: 'abs(dpdx(e)) + abs(dpdy(e)).' },
+  insertBits: { signature: 'insertBits(e: T, newbits: T, offset: u32, count: u32) -> T', doc: 'Writes a bit field.' },
+  inverseSqrt: { signature: 'inverseSqrt(e: T) -> T', doc: '1 / sqrt(e).' },
+  ldexp: { signature: 'ldexp(e1: T, e2: I) -> T', doc: 'e1 * 2^e2.' },
+  length: { signature: 'length(e: T) -> f32', doc: 'Euclidean length.' },
+  log: { signature: 'log(e: T) -> T', doc: 'Natural logarithm.' },
+  log2: { signature: 'log2(e: T) -> T', doc: 'Base-2 logarithm.' },
+  max: { signature: 'max(a: T, b: T) -> T', doc: 'Component-wise maximum.' },
+  min: { signature: 'min(a: T, b: T) -> T', doc: 'Component-wise minimum.' },
+  mix: { signature: 'mix(a: T, b: T, t: T | f32) -> T', doc: 'Linear blend: a * (1 - t) + b * t.' },
+  normalize: { signature: 'normalize(e: vecN<T>) -> vecN<T>', doc: 'Unit vector in the direction of e.' },
+  pack2x16float: { signature: 'pack2x16float(e: vec2f) -> u32', doc: 'Packs two f16 halves into a u32.' },
+  pack2x16unorm: { signature: 'pack2x16unorm(e: vec2f) -> u32', doc: 'Packs two [0, 1] values as 16-bit unorm.' },
+  pack4x8unorm: { signature: 'pack4x8unorm(e: vec4f) -> u32', doc: 'Packs four [0, 1] values as 8-bit unorm.' },
+  pow: { signature: 'pow(a: T, b: T) -> T', doc: 'a raised to b. Undefined for a < 0.' },
+  radians: { signature: 'radians(e: T) -> T', doc: 'Degrees to radians.' },
+  reflect: { signature: 'reflect(i: T, n: T) -> T', doc: 'i - 2 * dot(n, i) * n.' },
+  refract: { signature: 'refract(i: T, n: T, eta: f32) -> T', doc: 'Refraction direction, or zero on total internal reflection.' },
+  reverseBits: { signature: 'reverseBits(e: T) -> T', doc: 'Reverses the bit order.' },
+  round: { signature: 'round(e: T) -> T', doc: 'Nearest integer, halfway cases to even.' },
+  saturate: { signature: 'saturate(e: T) -> T', doc: 'clamp(e, 0.0, 1.0).' },
+  select: { signature: 'select(f: T, t: T, cond: bool) -> T', doc: 't if cond, else f. Note the argument order.' },
+  sign: { signature: 'sign(e: T) -> T', doc: '-1, 0 or 1.' },
+  sin: { signature: 'sin(e: T) -> T', doc: 'Sine of an angle in radians.' },
+  sinh: { signature: 'sinh(e: T) -> T', doc: 'Hyperbolic sine.' },
+  smoothstep: { signature: 'smoothstep(low: T, high: T, x: T) -> T', doc: 'Hermite interpolation between 0 and 1.' },
+  sqrt: { signature: 'sqrt(e: T) -> T', doc: 'Square root.' },
+  step: { signature: 'step(edge: T, x: T) -> T', doc: '1.0 if edge <= x, else 0.0.' },
+  storageBarrier: { signature: 'storageBarrier()', doc: 'Orders storage memory accesses within the workgroup.' },
+  tan: { signature: 'tan(e: T) -> T', doc: 'Tangent of an angle in radians.' },
+  tanh: { signature: 'tanh(e: T) -> T', doc: 'Hyperbolic tangent.' },
+  textureDimensions: { signature: 'textureDimensions(t: T, level?: u32) -> vecN<u32>', doc: 'Size of a texture (mip level).' },
+  textureLoad: { signature: 'textureLoad(t: T, coords: vecN<i32>, level: i32) -> vec4<T>', doc: 'Reads one texel without filtering.' },
+  textureSample: { signature: 'textureSample(t: texture_2d<f32>, s: sampler, coords: vec2f) -> vec4f', doc: 'Filtered, mipmapped sample. Fragment stage, uniform control flow only.' },
+  textureSampleLevel: { signature: 'textureSampleLevel(t: texture_2d<f32>, s: sampler, coords: vec2f, level: f32) -> vec4f', doc: 'Filtered sample at an explicit mip level. Safe in non-uniform control flow.' },
+  textureStore: { signature: 'textureStore(t: texture_storage_2d<F, write>, coords: vec2<i32>, value: vec4<T>)', doc: 'Writes one texel to a storage texture.' },
+  transpose: { signature: 'transpose(m: matRxC<T>) -> matCxR<T>', doc: 'Matrix transpose.' },
+  trunc: { signature: 'trunc(e: T) -> T', doc: 'Integer part, rounding towards zero.' },
+  unpack2x16float: { signature: 'unpack2x16float(e: u32) -> vec2f', doc: 'Unpacks two f16 halves.' },
+  unpack2x16unorm: { signature: 'unpack2x16unorm(e: u32) -> vec2f', doc: 'Unpacks two 16-bit unorm values.' },
+  unpack4x8unorm: { signature: 'unpack4x8unorm(e: u32) -> vec4f', doc: 'Unpacks four 8-bit unorm values.' },
+  workgroupBarrier: { signature: 'workgroupBarrier()', doc: 'Synchronizes the workgroup and orders workgroup memory accesses.' },
+};
+
+const MONARCH: languages.IMonarchLanguage = {
+  defaultToken: '',
+  keywords: KEYWORDS,
+  typeKeywords: TYPES,
+  qualifiers: QUALIFIERS,
+  builtins: Object.keys(BUILTINS),
+  operators: ['=', '>', '<', '!', '~', '?', ':', '==', '<=', '>=', '!=', '&&', '||', '++', '--', '+', '-', '*', '/', '&', '|', '^', '%', '<<', '>>', '+=', '-=', '*=', '/=', '&=', '|=', '^=', '%=', '<<=', '>>=', '->'],
+  symbols: /[=><!~?:&|+\-*\/\^%]+/,
+  tokenizer: {
+    root: [
+      [/\/\/\s*@(param|texture|buffer|pass|scene)\b.*$/, 'comment.doc'], // Shader annotations
+      [/\/\/.*$/, 'comment'],
+      [/\/\*/, 'comment', '@comment'],
+      [/@[a-zA-Z_]\w*/, 'annotation'],
+      [/[a-zA-Z_]\w*/, {
+        cases: {
+          '@keywords': 'keyword',
+          '@typeKeywords': 'type',
+          '@qualifiers': 'keyword.modifier',
+          '@builtins': 'predefined',
+          '@default': 'identifier',
+        },
+      }],
+      [/[{}()\[\]]/, '@brackets'],
+      [/@symbols/, { cases: { '@operators': 'operator', '@default': '' } }],
+      [/0[xX][0-9a-fA-F]+[iu]?/, 'number.hex'],
+      [/(\d+\.\d*|\.\d+)([eE][+-]?\d+)?[fh]?/, 'number.float'],
+      [/\d+[eE][+-]?\d+[fh]?/, 'number.float'],
+      [/\d+[fh]/, 'number.float'],
+      [/\d+[iu]?/, 'number'],
+      [/[;,.]/, 'delimiter'],
+    ],
+    // Block comments nest in WGSL
+    comment: [
+      [/[^\/*]+/, 'comment'],
+      [/\/\*/, 'comment', '@push'],
+      [/\*\//, 'comment', '@pop'],
+      [/[\/*]/, 'comment'],
+    ],
+  },
+};
+
+const CONFIGURATION: languages.LanguageConfiguration = {
+  comments: { lineComment: '//', blockComment: ['/*', '*/'] },
+  brackets: [['{', '}'], ['[', ']'], ['(', ')']],
+  autoClosingPairs: [{ open: '{', close: '}' }, { open: '[', close: ']' }, { open: '(', close: ')' }, { open: '"', close: '"' }],
+  surroundingPairs: [{ open: '{', close: '}' }, { open: '[', close: ']' }, { open: '(', close: ')' }],
+};
+
+// --- Uniform Fields ---
+// The Uniforms struct is generated from the @param list, so members follow the shader being edited
+let uniformFields: UniformLayout['fields'] = [];
+
+export const setWgslUniformFields = (fields: UniformLayout['fields']) => { uniformFields = fields; };
+
+const fieldDoc = (f: UniformLayout['fields'][number]) =>
+  [`\`\`\`wgsl\nu.${f.name}: ${f.type}\n\`\`\``, `Uniforms @offset(${f.offset})${f.doc ? `: ${f.doc}` : ''}`];
+
+// Names the shader declares at the top level, for completion
+const DECLARATION = /^\s*(fn|struct|const|override|var(?:<[^>]*>)?|alias)\s+([A-Za-z_]\w*)/gm;
+
+// --- Registration ---
+const registered = new WeakSet<object>();
+
+export const registerWgslLanguage = (monaco: Monaco) => {
+  if (registered.has(monaco)) return;
+  registered.add(monaco);
+  const { languages } = monaco;
+
+  languages.register({ id: WGSL_LANGUAGE_ID, extensions: ['.wgsl'], aliases: ['WGSL', 'wgsl'] });
+  languages.setMonarchTokensProvider(WGSL_LANGUAGE_ID, MONARCH);
+  languages.setLanguageConfiguration(WGSL_LANGUAGE_ID, CONFIGURATION);
+
+  languages.registerCompletionItemProvider(WGSL_LANGUAGE_ID, {
+    triggerCharacters: ['.', '@'],
+    provideCompletionItems: (model, position) => {
+      const word = model.getWordUntilPosition(position);
+      const range = { startLineNumber: position.lineNumber, endLineNumber: position.lineNumber, startColumn: word.startColumn, endColumn: word.endColumn };
+      const before = model.getLineContent(position.lineNumber).slice(0, word.startColumn - 1);
+      const { CompletionItemKind: Kind, CompletionItemInsertTextRule } = languages;
+
+      if (/\bu\.$/.test(before)) {
+        return {
+          suggestions: uniformFields.map(f => {
+            const [, doc] = fieldDoc(f);
+            return { label: f.name, kind: Kind.Field, detail: f.type, documentation: doc, insertText: f.name, range };
+          }),
+        };
+      }
+      if (before.endsWith('@')) {
+        return {
+          suggestions: Object.entries(ATTRIBUTES).map(([name, doc]) => ({ label: name, kind: Kind.Property, documentation: doc, insertText: name, range })),
+        };
+      }
+
+      const declared = new Map<string, string>();
+      for (const match of model.getValue().matchAll(DECLARATION)) declared.set(match[2], match[1].replace(/<.*$/, ''));
+
+      const suggestions: languages.CompletionItem[] = [
+        ...KEYWORDS.map(k => ({ label: k, kind: Kind.Keyword, insertText: k, range })),
+        ...TYPES.map(t => ({ label: t, kind: Kind.TypeParameter, insertText: t, range })),
+        ...Object.entries(BUILTINS).map(([name, { signature, doc }]) => ({
+          label: name,
+          kind: Kind.Function,
+          detail: signature,
+          documentation: doc,
+          insertText: `${name}($0)`,
+          insertTextRules: CompletionItemInsertTextRule.InsertAsSnippet,
+          range,
+        })),
+        ...[...declared].map(([name, kind]) => ({
+          label: name,
+          kind: kind === 'fn' ? Kind.Function : kind === 'struct' || kind === 'alias' ? Kind.Struct : kind === 'var' ? Kind.Variable : Kind.Constant,
+          detail: `${kind} (this shader)`,
+          insertText: name,
+          range,
+        })),
+      ];
+      return { suggestions };
+    },
+  });
+
+  languages.registerHoverProvider(WGSL_LANGUAGE_ID, {
+    provideHover: (model, position) => {
+      const word = model.getWordAtPosition(position);
+      if (!word) return null;
+      const range = { startLineNumber: position.lineNumber, endLineNumber: position.lineNumber, startColumn: word.startColumn, endColumn: word.endColumn };
+      const before = model.getLineContent(position.lineNumber).slice(0, word.startColumn - 1);
+
+      const field = /\bu\.$/.test(before) ? uniformFields.find(f => f.name === word.word) : undefined;
+      if (field) return { range, contents: fieldDoc(field).map(value => ({ value })) };
+
+      if (before.endsWith('@') && ATTRIBUTES[word.word]) {
+        return { range, contents: [{ value: `\`@${word.word}\`` }, { value: ATTRIBUTES[word.word] }] };
+      }
+      const builtin = BUILTINS[word.word];
+      if (builtin) return { range, contents: [{ value: `\`\`\`wgsl\n${builtin.signature}\n\`\`\`` }, { value: builtin.doc }] };
+      return null;
+    },
+  });
+};
+
+// --- Diagnostics ---
+// One marker per diagnostic. Those without a range (the generated Uniforms prelude,
+// device and frame errors) have nowhere to go in the editor and are left to the list.
+export const setWgslMarkers = (monaco: Monaco, model: editor.ITextModel, diagnostics: ShaderDiagnostic[]) => {
+  const severities = { error: monaco.MarkerSeverity.Error, warning: monaco.MarkerSeverity.Warning, info: monaco.MarkerSeverity.Info };
+  const markers: editor.IMarkerData[] = diagnostics
+    .filter(d => d.range && d.range.startLine <= model.getLineCount())
+    .map(({ severity, message, range }) => ({
+      severity: severities[severity],
+      message,
+      startLineNumber: range!.startLine,
+      startColumn: range!.startColumn,
+      endLineNumber: range!.endLine,
+      endColumn: range!.endColumn,
+    }));
+  monaco.editor.setModelMarkers(model, WGSL_LANGUAGE_ID, markers);
+};
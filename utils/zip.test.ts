@@ -0,0 +1,76 @@
+import { describe, expect, it } from 'vitest';
+import { createZip, createZipWriter, crc32 } from './zip';
+
+const bytes = (text: string) => new TextEncoder().encode(text);
+
+// Reads the central directory back: name, local header offset and stored contents per entry
+const readZip = async (blob: Blob) => {
+  const data = new Uint8Array(await blob.arrayBuffer());
+  const view = new DataView(data.buffer);
+  const end = data.length - 22;
+  expect(view.getUint32(end, true)).toBe(0x06054b50);
+  const count = view.getUint16(end + 10, true);
+  let p = view.getUint32(end + 16, true);
+
+  const entries = [];
+  for (let i = 0; i < count; i++) {
+    expect(view.getUint32(p, true)).toBe(0x02014b50);
+    const crc = view.getUint32(p + 16, true);
+    const size = view.getUint32(p + 24, true);
+    const nameLength = view.getUint16(p + 28, true);
+    const offset = view.getUint32(p + 42, true);
+    const name = new TextDecoder().decode(data.subarray(p + 46, p + 46 + nameLength));
+
+    expect(view.getUint32(offset, true)).toBe(0x04034b50);
+    const start = offset + 30 + view.getUint16(offset + 26, true);
+    entries.push({ name, crc, contents: data.slice(start, start + size) });
+    p += 46 + nameLength;
+  }
+  return entries;
+};
+
+describe('crc32', () => {
+  it('matches the standard check value', () => {
+    expect(crc32(bytes('123456789'))).toBe(0xCBF43926);
+    expect(crc32(new Uint8Array(0))).toBe(0);
+  });
+});
+
+describe('createZip', () => {
+  it('stores every entry with its name, CRC and contents', async () => {
+    const entries = await readZip(createZip([
+      { name: 'beauty.png', data: bytes('hello') },
+      { name: 'aovs/albedo.png', data: bytes('world!') },
+    ]));
+    expect(entries.map(e => e.name)).toEqual(['beauty.png', 'aovs/albedo.png']);
+    expect(new TextDecoder().decode(entries[1].contents)).toBe('world!');
+    expect(entries[0].crc).toBe(crc32(bytes('hello')));
+  });
+
+  it('writes an empty archive', async () => {
+    const zip = createZip([]);
+    expect(zip.size).toBe(22);
+    expect(await readZip(zip)).toEqual([]);
+  });
+});
+
+describe('createZipWriter', () => {
+  it('matches createZip when entries are added one by one', async () => {
+    const writer = createZipWriter();
+    writer.add({ name: 'frame_0000.png', data: bytes('a') });
+    writer.add({ name: 'frame_0001.png', data: bytes('bc') });
+    const streamed = new Uint8Array(await writer.finish().arrayBuffer());
+    const batched = new Uint8Array(await createZip([
+      { name: 'frame_0000.png', data: bytes('a') },
+      { name: 'frame_0001.png', data: bytes('bc') },
+    ]).arrayBuffer());
+    expect(streamed).toEqual(batched);
+  });
+
+  it('rejects entries past the classic format limit', () => {
+    const writer = createZipWriter();
+    const empty = new Uint8Array(0);
+    for (let i = 0; i < 0xFFFF; i++) writer.add({ name: 'f', data: empty });
+    expect(() => writer.add({ name: 'f', data: empty })).toThrow(/limited to 65535 files/);
+  });
+});
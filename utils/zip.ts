@@ -0,0 +1,106 @@
+// --- Minimal ZIP Writer ---
+// Store-only (no deflate): the payloads we pack are already-compressed PNGs,
+// so compression would cost time for no gain.
+
+export interface ZipEntry {
+  name: string;
+  data: Uint8Array;
+}
+
+const CRC_TABLE = (() => {
+  const table = new Uint32Array(256);
+  for (let n = 0; n < 256; n++) {
+    let c = n;
+    for (let k = 0; k < 8; k++) c = (c & 1) ? (0xEDB88320 ^ (c >>> 1)) : (c >>> 1);
+    table[n] = c >>> 0;
+  }
+  return table;
+})();
+
+export const crc32 = (data: Uint8Array): number => {
+  let crc = 0xFFFFFFFF;
+  for (let i = 0; i < data.length; i++) crc = CRC_TABLE[(crc ^ data[i]) & 0xFF] ^ (crc >>> 8);
+  return (crc ^ 0xFFFFFFFF) >>> 0;
+};
+
+// Classic ZIP fields are 32-bit sizes and offsets and a 16-bit entry count; past those
+// limits the archive would need ZIP64, which this writer doesn't emit.
+const MAX_ZIP_BYTES = 0xFFFFFFFF;
+const MAX_ZIP_ENTRIES = 0xFFFF;
+
+export interface ZipWriter {
+  add: (entry: ZipEntry) => void; // Throws once the archive would outgrow the classic format
+  finish: () => Blob;
+}
+
+// Builds the archive as entries arrive: each is copied into its own Blob right away, so the
+// caller's buffer can be released and the browser may keep the parts out of memory.
+export const createZipWriter = (): ZipWriter => {
+  const encoder = new TextEncoder();
+  const parts: Blob[] = [];
+  const central: Uint8Array[] = [];
+  let offset = 0;
+  let count = 0;
+
+  const add = (entry: ZipEntry) => {
+    const name = encoder.encode(entry.name);
+    const crc = crc32(entry.data);
+    const size = entry.data.length;
+    const entrySize = 30 + name.length + size;
+    if (count === MAX_ZIP_ENTRIES) throw new Error(`ZIP archives are limited to ${MAX_ZIP_ENTRIES} files`);
+    if (offset + entrySize > MAX_ZIP_BYTES) throw new Error('ZIP archives are limited to 4 GiB');
+
+    const local = new DataView(new ArrayBuffer(30));
+    local.setUint32(0, 0x04034b50, true);  // Local file header signature
+    local.setUint16(4, 20, true);          // Version needed
+    local.setUint16(6, 0x0800, true);      // Flags: UTF-8 names
+    local.setUint16(8, 0, true);           // Method: store
+    local.setUint16(10, 0, true);          // Mod time
+    local.setUint16(12, 0x21, true);       // Mod date (1980-01-01)
+    local.setUint32(14, crc, true);
+    local.setUint32(18, size, true);       // Compressed size
+    local.setUint32(22, size, true);       // Uncompressed size
+    local.setUint16(26, name.length, true);
+    local.setUint16(28, 0, true);          // Extra length
+    parts.push(new Blob([local.buffer, name, entry.data]));
+
+    const header = new DataView(new ArrayBuffer(46));
+    header.setUint32(0, 0x02014b50, true); // Central directory signature
+    header.setUint16(4, 20, true);         // Version made by
+    header.setUint16(6, 20, true);         // Version needed
+    header.setUint16(8, 0x0800, true);
+    header.setUint16(10, 0, true);
+    header.setUint16(12, 0, true);
+    header.setUint16(14, 0x21, true);
+    header.setUint32(16, crc, true);
+    header.setUint32(20, size, true);
+    header.setUint32(24, size, true);
+    header.setUint16(28, name.length, true);
+    header.setUint32(42, offset, true);    // Local header offset (other fields zero)
+    central.push(new Uint8Array(header.buffer), name);
+
+    offset += entrySize;
+    count++;
+  };
+
+  const finish = () => {
+    const centralSize = central.reduce((sum, b) => sum + b.length, 0);
+    if (offset + centralSize + 22 > MAX_ZIP_BYTES) throw new Error('ZIP archives are limited to 4 GiB');
+    const end = new DataView(new ArrayBuffer(22));
+    end.setUint32(0, 0x06054b50, true);      // End of central directory
+    end.setUint16(8, count, true);
+    end.setUint16(10, count, true);
+    end.setUint32(12, centralSize, true);
+    end.setUint32(16, offset, true);
+
+    return new Blob([...parts, ...central, end.buffer], { type: 'application/zip' });
+  };
+
+  return { add, finish };
+};
+
+export const createZip = (entries: ZipEntry[]): Blob => {
+  const writer = createZipWriter();
+  entries.forEach(writer.add);
+  return writer.finish();
+};